@@ -1,25 +1,38 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
-import { PineconeModule } from './pinecone/pinecone.module';
+import { VectorStoreModule } from './vector-store/vector-store.module';
 import { DocumentProcessingModule } from './document-processing/document-processing.module';
 import { ConfigModule } from '@nestjs/config';
 import { S3Module } from './s3/s3.module';
 import { KnowledgeIngestionModule } from './knowledge-ingestion/knowledge-ingestion.module';
 import { KnowledgeQueryModule } from './knowledge-query/knowledge-query.module';
+import { DocumentsModule } from './documents/documents.module';
+import { CollectionsModule } from './collections/collections.module';
+import { AuthModule } from './auth/auth.module';
+import { DomainExceptionFilter } from './common/errors/domain-exception.filter';
+import { createValidationPipe } from './common/validation/validation.pipe';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
-    PineconeModule,
+    AuthModule,
+    VectorStoreModule,
     DocumentProcessingModule,
     S3Module,
     KnowledgeIngestionModule,
     KnowledgeQueryModule,
+    DocumentsModule,
+    CollectionsModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+    { provide: APP_FILTER, useClass: DomainExceptionFilter },
+  ],
 })
 export class AppModule {}
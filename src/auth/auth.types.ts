@@ -0,0 +1,13 @@
+export type KnowledgeRole =
+  | 'knowledge:read' // Search and ask questions, view documents and jobs
+  | 'knowledge:write' // Upload and ingest documents
+  | 'knowledge:admin'; // Delete documents
+
+/**
+ * The caller, as attached to the request by JwtStrategy
+ */
+export interface AuthenticatedUser {
+  subject: string;
+  tenantId: string;
+  roles: string[];
+}
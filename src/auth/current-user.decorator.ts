@@ -0,0 +1,10 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { AuthenticatedUser } from './auth.types';
+
+/**
+ * The authenticated caller, or undefined when authentication is disabled
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuthenticatedUser | undefined =>
+    ctx.switchToHttp().getRequest().user,
+);
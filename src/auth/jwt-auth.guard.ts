@@ -0,0 +1,16 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { authConfig } from '../config/auth.config';
+
+/**
+ * Require a valid bearer token, unless authentication is disabled
+ */
+@Injectable()
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  canActivate(context: ExecutionContext) {
+    if (!authConfig.enabled) {
+      return true;
+    }
+    return super.canActivate(context);
+  }
+}
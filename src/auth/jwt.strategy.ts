@@ -0,0 +1,74 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import {
+  ExtractJwt,
+  Strategy,
+  StrategyOptionsWithoutRequest,
+} from 'passport-jwt';
+import { passportJwtSecret } from 'jwks-rsa';
+import { authConfig } from '../config/auth.config';
+import { AuthenticatedUser } from './auth.types';
+import { isValidTenantId } from '../common/tenancy/tenant-scope';
+
+@Injectable()
+export class JwtStrategy extends PassportStrategy(Strategy) {
+  constructor() {
+    super(jwtStrategyOptions());
+  }
+
+  /**
+   * Map verified claims to the request user
+   * @throws UnauthorizedException if the token does not name a valid tenant
+   */
+  validate(payload: Record<string, any>): AuthenticatedUser {
+    const tenantId = payload[authConfig.tenantClaim];
+    if (!isValidTenantId(tenantId)) {
+      throw new UnauthorizedException(
+        `Token has no valid '${authConfig.tenantClaim}' claim.`,
+      );
+    }
+
+    const roles = payload[authConfig.rolesClaim];
+    return {
+      subject: payload.sub,
+      tenantId,
+      roles: Array.isArray(roles)
+        ? roles
+        : typeof roles === 'string'
+          ? roles.split(' ').filter(Boolean)
+          : [],
+    };
+  }
+}
+
+function jwtStrategyOptions(): StrategyOptionsWithoutRequest {
+  const base = {
+    jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+    issuer: authConfig.issuer || undefined,
+    audience: authConfig.audience || undefined,
+  };
+
+  if (authConfig.jwksUri) {
+    return {
+      ...base,
+      algorithms: ['RS256', 'ES256'],
+      // Signing keys are fetched from the identity provider and cached
+      secretOrKeyProvider: passportJwtSecret({
+        jwksUri: authConfig.jwksUri,
+        cache: true,
+        rateLimit: true,
+        jwksRequestsPerMinute: 10,
+      }),
+    };
+  }
+
+  return {
+    ...base,
+    algorithms: ['HS256'],
+    // Resolved per request so a missing secret fails requests rather than startup
+    secretOrKeyProvider: (_request, _token, done) =>
+      authConfig.secret
+        ? done(null, authConfig.secret)
+        : done(new Error('Set JWT_SECRET or JWT_JWKS_URI to verify tokens.')),
+  };
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { KnowledgeRole } from './auth.types';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Require the caller to hold at least one of the roles. Higher roles include
+ * lower ones, so `knowledge:admin` passes a `knowledge:read` check.
+ */
+export const Roles = (...roles: KnowledgeRole[]) =>
+  SetMetadata(ROLES_KEY, roles);
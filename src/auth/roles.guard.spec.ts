@@ -0,0 +1,113 @@
+import { Controller, Get, INestApplication, UseGuards } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { AuthModule } from './auth.module';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RolesGuard } from './roles.guard';
+import { Roles } from './roles.decorator';
+import { TEST_JWT_SECRET, mintTestToken } from './testing/mint-test-token';
+import { TenantId } from '../common/tenancy/tenant-id.decorator';
+import { authConfig } from '../config/auth.config';
+
+@Controller('probe')
+@UseGuards(JwtAuthGuard, RolesGuard)
+class ProbeController {
+  @Get('read')
+  @Roles('knowledge:read')
+  read(@TenantId() tenantId: string) {
+    return { tenantId };
+  }
+
+  @Get('admin')
+  @Roles('knowledge:admin')
+  admin() {
+    return { ok: true };
+  }
+}
+
+describe('JwtAuthGuard and RolesGuard', () => {
+  let app: INestApplication;
+  const original = { ...authConfig };
+
+  beforeAll(async () => {
+    Object.assign(authConfig, {
+      enabled: true,
+      secret: TEST_JWT_SECRET,
+      issuer: 'https://auth.test',
+      jwksUri: '',
+    });
+    const moduleRef = await Test.createTestingModule({
+      imports: [AuthModule],
+      controllers: [ProbeController],
+    }).compile();
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    Object.assign(authConfig, original);
+  });
+
+  const get = (path: string, token?: string) => {
+    const req = request(app.getHttpServer()).get(path);
+    return token ? req.set('Authorization', `Bearer ${token}`) : req;
+  };
+
+  it('should reject requests without a valid token', async () => {
+    await get('/probe/read').expect(401);
+    await get(
+      '/probe/read',
+      mintTestToken({
+        tenantId: 'acme',
+        roles: ['knowledge:read'],
+        secret: 'wrong-secret',
+      }),
+    ).expect(401);
+    await get(
+      '/probe/read',
+      mintTestToken({
+        tenantId: 'acme',
+        roles: ['knowledge:read'],
+        claims: { iss: 'https://elsewhere.test' },
+      }),
+    ).expect(401);
+  });
+
+  it('should bind the request to the tenant in the token', async () => {
+    const token = mintTestToken({
+      tenantId: 'acme',
+      roles: ['knowledge:read'],
+    });
+
+    const response = await get('/probe/read', token).expect(200);
+    expect(response.body).toEqual({ tenantId: 'acme' });
+
+    await get('/probe/read', token).set('x-tenant-id', 'globex').expect(403);
+  });
+
+  it('should require the route role, with higher roles including lower ones', async () => {
+    const reader = mintTestToken({
+      tenantId: 'acme',
+      roles: ['knowledge:read'],
+    });
+    const admin = mintTestToken({
+      tenantId: 'acme',
+      roles: ['knowledge:admin'],
+    });
+
+    await get('/probe/admin', reader).expect(403);
+    await get('/probe/admin', admin).expect(200);
+    await get('/probe/read', admin).expect(200);
+  });
+
+  it('should accept roles as a space-separated scope string', async () => {
+    const token = mintTestToken({
+      tenantId: 'acme',
+      roles: [],
+      claims: { roles: 'openid knowledge:read' },
+    });
+
+    await get('/probe/read', token).expect(200);
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { authConfig } from '../config/auth.config';
+import { ROLES_KEY } from './roles.decorator';
+import { AuthenticatedUser, KnowledgeRole } from './auth.types';
+
+// Every role a role grants, including itself
+const GRANTED_ROLES: Record<KnowledgeRole, KnowledgeRole[]> = {
+  'knowledge:read': ['knowledge:read'],
+  'knowledge:write': ['knowledge:write', 'knowledge:read'],
+  'knowledge:admin': ['knowledge:admin', 'knowledge:write', 'knowledge:read'],
+};
+
+/**
+ * Enforce @Roles on routes; runs after JwtAuthGuard has set the request user
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<KnowledgeRole[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!authConfig.enabled || !required?.length) {
+      return true;
+    }
+
+    const user: AuthenticatedUser | undefined = context
+      .switchToHttp()
+      .getRequest().user;
+    const granted = new Set(
+      (user?.roles ?? []).flatMap(
+        (role) => GRANTED_ROLES[role as KnowledgeRole] ?? [],
+      ),
+    );
+    if (!required.some((role) => granted.has(role))) {
+      throw new ForbiddenException(
+        `Requires one of the roles: ${required.join(', ')}.`,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,34 @@
+import { JwtService } from '@nestjs/jwt';
+import { authConfig } from '../../config/auth.config';
+import { KnowledgeRole } from '../auth.types';
+
+export const TEST_JWT_SECRET = 'local-test-secret';
+
+export interface TestTokenOptions {
+  tenantId: string;
+  roles: KnowledgeRole[];
+  subject?: string;
+  secret?: string; // Defaults to JWT_SECRET, or TEST_JWT_SECRET when that is unset
+  expiresIn?: string | number;
+  claims?: Record<string, any>; // Extra or overriding claims
+}
+
+/**
+ * Mint an HS256 token the JwtStrategy accepts when running with a shared secret,
+ * for tests and local development
+ */
+export function mintTestToken(options: TestTokenOptions): string {
+  const payload = {
+    sub: options.subject ?? 'test-user',
+    [authConfig.tenantClaim]: options.tenantId,
+    [authConfig.rolesClaim]: options.roles,
+    ...(authConfig.issuer ? { iss: authConfig.issuer } : {}),
+    ...(authConfig.audience ? { aud: authConfig.audience } : {}),
+    ...options.claims,
+  };
+  return new JwtService().sign(payload, {
+    secret: options.secret ?? (authConfig.secret || TEST_JWT_SECRET),
+    algorithm: 'HS256',
+    expiresIn: options.expiresIn ?? '1h',
+  });
+}
@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Logger,
+  Param,
+  ParseBoolPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CollectionsService } from './collections.service';
+import { CollectionRecord } from './registry/collection-registry.interface';
+import {
+  CreateCollectionDto,
+  DeletedCollectionDto,
+  UpdateCollectionDto,
+} from './dto/collection.dto';
+import { TenantId } from '../common/tenancy/tenant-id.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('collections')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CollectionsController {
+  private readonly logger = new Logger(CollectionsController.name);
+
+  constructor(private readonly collectionsService: CollectionsService) {}
+
+  @Get()
+  @Roles('knowledge:read')
+  async listCollections(
+    @TenantId() tenantId: string,
+  ): Promise<{ collections: CollectionRecord[] }> {
+    const collections = await this.collectionsService.listCollections(tenantId);
+    return { collections };
+  }
+
+  @Get(':id')
+  @Roles('knowledge:read')
+  async getCollection(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<CollectionRecord> {
+    return this.collectionsService.getCollection(tenantId, id);
+  }
+
+  @Post()
+  @Roles('knowledge:write')
+  async createCollection(
+    @TenantId() tenantId: string,
+    @Body() createCollectionDto: CreateCollectionDto,
+  ): Promise<CollectionRecord> {
+    this.logger.log(
+      `Received request to create collection: ${createCollectionDto.name}`,
+    );
+    return this.collectionsService.createCollection(
+      tenantId,
+      createCollectionDto,
+    );
+  }
+
+  @Patch(':id')
+  @Roles('knowledge:write')
+  async updateCollection(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+    @Body() updateCollectionDto: UpdateCollectionDto,
+  ): Promise<CollectionRecord> {
+    return this.collectionsService.updateCollection(
+      tenantId,
+      id,
+      updateCollectionDto,
+    );
+  }
+
+  @Delete(':id')
+  @Roles('knowledge:admin')
+  async deleteCollection(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+    @Query('deleteS3Objects', new ParseBoolPipe({ optional: true }))
+    deleteS3Objects?: boolean,
+  ): Promise<DeletedCollectionDto> {
+    this.logger.log(`Received request to delete collection: ${id}`);
+    return this.collectionsService.deleteCollection(
+      tenantId,
+      id,
+      deleteS3Objects ?? false,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { CollectionsController } from './collections.controller';
+import { CollectionsService } from './collections.service';
+import { CollectionRegistryModule } from './registry/collection-registry.module';
+import { DocumentRegistryModule } from '../documents/registry/document-registry.module';
+import { KnowledgeIngestionModule } from '../knowledge-ingestion/knowledge-ingestion.module';
+import { S3Module } from '../s3/s3.module';
+
+@Module({
+  imports: [
+    CollectionRegistryModule, // For the collection registry
+    DocumentRegistryModule, // For the documents in each collection
+    KnowledgeIngestionModule, // For removing a deleted collection's documents
+    S3Module, // For S3Service
+  ],
+  controllers: [CollectionsController],
+  providers: [CollectionsService],
+})
+export class CollectionsModule {}
@@ -0,0 +1,124 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { CollectionsService } from './collections.service';
+import { InMemoryCollectionRegistry } from './registry/in-memory-collection-registry';
+import { InMemoryDocumentRegistry } from '../documents/registry/in-memory-document-registry';
+import { DocumentRecord } from '../documents/registry/document-registry.interface';
+import { KnowledgeIngestionService } from '../knowledge-ingestion/knowledge-ingestion.service';
+import { S3Service } from '../s3/s3.service';
+
+describe('CollectionsService', () => {
+  let documents: InMemoryDocumentRegistry;
+  let removeDocument: jest.Mock;
+  let deleteObject: jest.Mock;
+  let service: CollectionsService;
+
+  const document = (
+    id: string,
+    collectionId: string | undefined,
+    tenantId = 'acme',
+  ): DocumentRecord => ({
+    id,
+    tenantId,
+    s3Key: id,
+    s3Url: `s3://bucket/${id}`,
+    fileName: id,
+    status: 'indexed',
+    chunkIds: [`${id}#chunk-0`, `${id}#chunk-1`],
+    createdAt: '2024-05-01T00:00:00.000Z',
+    updatedAt: '2024-05-01T00:00:00.000Z',
+    attributes: { collectionId },
+  });
+
+  beforeEach(() => {
+    documents = new InMemoryDocumentRegistry();
+    removeDocument = jest.fn(async (_tenantId: string, id: string) => {
+      const record = await documents.get(id);
+      await documents.delete(id);
+      return record.chunkIds.length;
+    });
+    deleteObject = jest.fn();
+    service = new CollectionsService(
+      new InMemoryCollectionRegistry(),
+      documents,
+      { removeDocument } as unknown as KnowledgeIngestionService,
+      { deleteObject } as unknown as S3Service,
+    );
+  });
+
+  it('should keep collection names unique per tenant, ignoring case', async () => {
+    const faq = await service.createCollection('acme', {
+      name: 'Support FAQ',
+    });
+    await service.createCollection('globex', { name: 'Support FAQ' });
+    const pricing = await service.createCollection('acme', {
+      name: 'Pricing sheets',
+      description: 'Current price lists',
+    });
+
+    await expect(
+      service.createCollection('acme', { name: 'support faq' }),
+    ).rejects.toThrow(ConflictException);
+    await expect(
+      service.updateCollection('acme', pricing.id, { name: 'SUPPORT FAQ' }),
+    ).rejects.toThrow(ConflictException);
+    expect(
+      await service.updateCollection('acme', faq.id, {
+        name: 'Support faq',
+        description: 'Answers for the help desk',
+      }),
+    ).toMatchObject({ name: 'Support faq' });
+    expect(
+      (await service.listCollections('acme')).map(({ name }) => name),
+    ).toEqual(['Pricing sheets', 'Support faq']);
+    await expect(service.getCollection('globex', faq.id)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should delete a collection with its documents and their vectors', async () => {
+    const { id } = await service.createCollection('acme', {
+      name: 'Onboarding',
+    });
+    await documents.save(document('tenants/acme/a.pdf', id));
+    await documents.save(document('tenants/acme/b.pdf', id));
+    await documents.save(document('tenants/acme/c.pdf', undefined));
+
+    const result = await service.deleteCollection('acme', id, true);
+
+    expect(result).toEqual({
+      collectionId: id,
+      deletedDocuments: 2,
+      deletedVectors: 4,
+    });
+    expect(deleteObject.mock.calls).toEqual([
+      ['tenants/acme/a.pdf'],
+      ['tenants/acme/b.pdf'],
+    ]);
+    expect((await documents.list()).map((record) => record.id)).toEqual([
+      'tenants/acme/c.pdf',
+    ]);
+    await expect(service.getCollection('acme', id)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should keep the S3 objects of documents it could not remove', async () => {
+    const { id } = await service.createCollection('acme', {
+      name: 'Onboarding',
+    });
+    await documents.save(document('tenants/acme/a.pdf', id));
+    removeDocument.mockRejectedValueOnce(new Error('index unavailable'));
+
+    await expect(service.deleteCollection('acme', id, true)).rejects.toThrow(
+      'index unavailable',
+    );
+
+    expect(deleteObject).not.toHaveBeenCalled();
+    await expect(service.deleteCollection('acme', id, true)).resolves.toEqual({
+      collectionId: id,
+      deletedDocuments: 1,
+      deletedVectors: 2,
+    });
+    expect(deleteObject).toHaveBeenCalledWith('tenants/acme/a.pdf');
+  });
+});
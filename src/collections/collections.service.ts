@@ -0,0 +1,150 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  COLLECTION_REGISTRY,
+  CollectionRecord,
+  CollectionRegistry,
+} from './registry/collection-registry.interface';
+import { getTenantCollection } from './registry/tenant-collections';
+import {
+  DOCUMENT_REGISTRY,
+  DocumentRegistry,
+} from '../documents/registry/document-registry.interface';
+import { KnowledgeIngestionService } from '../knowledge-ingestion/knowledge-ingestion.service';
+import { S3Service } from '../s3/s3.service';
+import {
+  CreateCollectionDto,
+  DeletedCollectionDto,
+  UpdateCollectionDto,
+} from './dto/collection.dto';
+
+@Injectable()
+export class CollectionsService {
+  private readonly logger = new Logger(CollectionsService.name);
+
+  constructor(
+    @Inject(COLLECTION_REGISTRY)
+    private readonly collectionRegistry: CollectionRegistry,
+    @Inject(DOCUMENT_REGISTRY)
+    private readonly documentRegistry: DocumentRegistry,
+    private readonly ingestionService: KnowledgeIngestionService,
+    private readonly s3Service: S3Service,
+  ) {}
+
+  /**
+   * List a tenant's collections by name
+   */
+  async listCollections(tenantId: string): Promise<CollectionRecord[]> {
+    const records = await this.collectionRegistry.list();
+    return records
+      .filter((record) => record.tenantId === tenantId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Look up a collection of the tenant; other tenants' collections are reported as missing
+   */
+  async getCollection(tenantId: string, id: string): Promise<CollectionRecord> {
+    return getTenantCollection(this.collectionRegistry, tenantId, id);
+  }
+
+  /**
+   * @throws ConflictException if the tenant already has a collection of that name
+   */
+  async createCollection(
+    tenantId: string,
+    collection: CreateCollectionDto,
+  ): Promise<CollectionRecord> {
+    await this.assertNameAvailable(tenantId, collection.name);
+    const now = new Date().toISOString();
+    const record: CollectionRecord = {
+      id: randomUUID(),
+      tenantId,
+      name: collection.name,
+      description: collection.description || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.collectionRegistry.save(record);
+    this.logger.log(`Created collection ${record.id} (${record.name})`);
+    return record;
+  }
+
+  /**
+   * Rename a collection or change its description
+   * @throws ConflictException if the tenant already has a collection of the new name
+   */
+  async updateCollection(
+    tenantId: string,
+    id: string,
+    changes: UpdateCollectionDto,
+  ): Promise<CollectionRecord> {
+    const record = await this.getCollection(tenantId, id);
+    if (changes.name !== undefined) {
+      await this.assertNameAvailable(tenantId, changes.name, id);
+    }
+    const updated: CollectionRecord = {
+      ...record,
+      name: changes.name ?? record.name,
+      description:
+        changes.description === undefined
+          ? record.description
+          : changes.description || undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.collectionRegistry.save(updated);
+    return updated;
+  }
+
+  /**
+   * Delete a collection together with its documents and their vectors.
+   * Documents are removed first, so a failed deletion can simply be repeated.
+   * @param deleteS3Objects Also delete the documents' uploaded files from S3
+   */
+  async deleteCollection(
+    tenantId: string,
+    id: string,
+    deleteS3Objects = false,
+  ): Promise<DeletedCollectionDto> {
+    await this.getCollection(tenantId, id);
+    const documents = (await this.documentRegistry.list()).filter(
+      (record) =>
+        record.tenantId === tenantId && record.attributes?.collectionId === id,
+    );
+    this.logger.log(
+      `Deleting collection ${id} and its ${documents.length} documents (S3 objects: ${deleteS3Objects})`,
+    );
+
+    let deletedVectors = 0;
+    for (const document of documents) {
+      deletedVectors += await this.ingestionService.removeDocument(
+        tenantId,
+        document.id,
+      );
+      if (deleteS3Objects && document.s3Key) {
+        await this.s3Service.deleteObject(document.s3Key);
+      }
+    }
+    await this.collectionRegistry.delete(id);
+    return {
+      collectionId: id,
+      deletedDocuments: documents.length,
+      deletedVectors,
+    };
+  }
+
+  private async assertNameAvailable(
+    tenantId: string,
+    name: string,
+    exceptId?: string,
+  ): Promise<void> {
+    const taken = (await this.listCollections(tenantId)).some(
+      (record) =>
+        record.id !== exceptId &&
+        record.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (taken) {
+      throw new ConflictException(`A collection named ${name} already exists.`);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+const NAME_PATTERN = /^\S(.*\S)?$/; // No leading or trailing whitespace
+
+export class CreateCollectionDto {
+  @IsString()
+  @MaxLength(100)
+  @Matches(NAME_PATTERN, {
+    message: 'name must not be empty or start or end with whitespace',
+  })
+  name: string; // e.g. Support FAQ; unique within the tenant, ignoring case
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+export class UpdateCollectionDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @Matches(NAME_PATTERN, {
+    message: 'name must not be empty or start or end with whitespace',
+  })
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string; // An empty string removes it
+}
+
+export class DeletedCollectionDto {
+  collectionId: string;
+  deletedDocuments: number;
+  deletedVectors: number;
+}
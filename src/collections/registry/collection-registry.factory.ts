@@ -0,0 +1,23 @@
+import { CollectionRegistry } from './collection-registry.interface';
+import { InMemoryCollectionRegistry } from './in-memory-collection-registry';
+import { FileCollectionRegistry } from './file-collection-registry';
+
+export interface CollectionRegistryConfig {
+  backend: string;
+  filePath: string;
+}
+
+export function createCollectionRegistry(
+  config: CollectionRegistryConfig,
+): CollectionRegistry {
+  switch (config.backend) {
+    case 'memory':
+      return new InMemoryCollectionRegistry();
+
+    case 'file':
+      return new FileCollectionRegistry(config.filePath);
+
+    default:
+      throw new Error(`Unknown collection registry backend: ${config.backend}`);
+  }
+}
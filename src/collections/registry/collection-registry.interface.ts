@@ -0,0 +1,20 @@
+export const COLLECTION_REGISTRY = 'COLLECTION_REGISTRY';
+
+export interface CollectionRecord {
+  id: string; // A UUID; vectors carry it as collection_id
+  tenantId: string;
+  name: string; // Unique within the tenant, ignoring case
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Keeps the named knowledge bases each tenant groups its documents into
+ */
+export interface CollectionRegistry {
+  save(record: CollectionRecord): Promise<void>;
+  get(id: string): Promise<CollectionRecord | undefined>;
+  list(): Promise<CollectionRecord[]>;
+  delete(id: string): Promise<void>;
+}
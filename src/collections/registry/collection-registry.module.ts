@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { COLLECTION_REGISTRY } from './collection-registry.interface';
+import { createCollectionRegistry } from './collection-registry.factory';
+import { registryConfig } from '../../config/registry.config';
+
+@Module({
+  providers: [
+    {
+      provide: COLLECTION_REGISTRY,
+      useFactory: () =>
+        createCollectionRegistry({
+          backend: registryConfig.backend,
+          filePath: registryConfig.collectionsFilePath,
+        }),
+    },
+  ],
+  exports: [COLLECTION_REGISTRY],
+})
+export class CollectionRegistryModule {}
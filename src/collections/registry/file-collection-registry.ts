@@ -0,0 +1,68 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CollectionRecord } from './collection-registry.interface';
+import { InMemoryCollectionRegistry } from './in-memory-collection-registry';
+
+/**
+ * Registry persisted to a single JSON file, for single-instance deployments
+ * and local development
+ */
+export class FileCollectionRegistry extends InMemoryCollectionRegistry {
+  private loading: Promise<void>;
+  // Serializes writes so concurrent requests cannot interleave partial files
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async save(record: CollectionRecord): Promise<void> {
+    await this.load();
+    await super.save(record);
+    await this.flush();
+  }
+
+  async get(id: string): Promise<CollectionRecord | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async list(): Promise<CollectionRecord[]> {
+    await this.load();
+    return super.list();
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.load();
+    await super.delete(id);
+    await this.flush();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = fs
+        .readFile(this.filePath, 'utf-8')
+        .then((data) => {
+          for (const record of JSON.parse(data) as CollectionRecord[]) {
+            this.records.set(record.id, record);
+          }
+        })
+        .catch((error) => {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        });
+    }
+    return this.loading;
+  }
+
+  private flush(): Promise<void> {
+    const snapshot = JSON.stringify([...this.records.values()], null, 2);
+    this.writing = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(`${this.filePath}.tmp`, snapshot);
+      await fs.rename(`${this.filePath}.tmp`, this.filePath);
+    });
+    return this.writing;
+  }
+}
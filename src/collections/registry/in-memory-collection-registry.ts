@@ -0,0 +1,28 @@
+import {
+  CollectionRecord,
+  CollectionRegistry,
+} from './collection-registry.interface';
+
+/**
+ * Process-local registry for development. Collections are lost on restart.
+ */
+export class InMemoryCollectionRegistry implements CollectionRegistry {
+  protected readonly records = new Map<string, CollectionRecord>();
+
+  async save(record: CollectionRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async get(id: string): Promise<CollectionRecord | undefined> {
+    const record = this.records.get(id);
+    return record && structuredClone(record);
+  }
+
+  async list(): Promise<CollectionRecord[]> {
+    return [...this.records.values()].map((record) => structuredClone(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
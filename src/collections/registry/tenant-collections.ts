@@ -0,0 +1,21 @@
+import { NotFoundException } from '@nestjs/common';
+import {
+  CollectionRecord,
+  CollectionRegistry,
+} from './collection-registry.interface';
+
+/**
+ * Look up a collection of the tenant; other tenants' collections are reported as missing
+ * @throws NotFoundException
+ */
+export async function getTenantCollection(
+  registry: CollectionRegistry,
+  tenantId: string,
+  id: string,
+): Promise<CollectionRecord> {
+  const record = await registry.get(id);
+  if (!record || record.tenantId !== tenantId) {
+    throw new NotFoundException(`Collection ${id} not found.`);
+  }
+  return record;
+}
@@ -0,0 +1,102 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Base class for errors the API reports with a stable, machine-readable code.
+ * DomainExceptionFilter turns them into HTTP responses; background jobs record the code.
+ */
+export abstract class DomainError extends Error {
+  abstract readonly code: string;
+  abstract readonly status: HttpStatus;
+
+  constructor(
+    message: string,
+    readonly details?: Record<string, any>,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class UnsupportedFileTypeError extends DomainError {
+  readonly code = 'UNSUPPORTED_FILE_TYPE';
+  readonly status = HttpStatus.UNSUPPORTED_MEDIA_TYPE;
+
+  constructor(fileType: string) {
+    super(`Unsupported file type: ${fileType}`, { fileType });
+  }
+}
+
+export class DocumentParseError extends DomainError {
+  readonly code = 'DOCUMENT_PARSE_FAILED';
+  readonly status = HttpStatus.UNPROCESSABLE_ENTITY;
+
+  constructor(fileName: string, format: string, reason: string) {
+    super(`Could not parse ${fileName} as ${format}: ${reason}`, {
+      fileName,
+      format,
+    });
+  }
+}
+
+export class InvalidS3UrlError extends DomainError {
+  readonly code = 'INVALID_S3_URL';
+  readonly status = HttpStatus.BAD_REQUEST;
+
+  constructor(s3Url: string, reason: string) {
+    super(`Invalid S3 URL ${s3Url}: ${reason}`, { s3Url });
+  }
+}
+
+export class S3ObjectNotFoundError extends DomainError {
+  readonly code = 'S3_OBJECT_NOT_FOUND';
+  readonly status = HttpStatus.NOT_FOUND;
+
+  constructor(key: string) {
+    super(`S3 object not found: ${key}`, { key });
+  }
+}
+
+export class EmbeddingProviderError extends DomainError {
+  readonly code = 'EMBEDDING_PROVIDER_ERROR';
+  readonly status = HttpStatus.BAD_GATEWAY;
+
+  constructor(provider: string, reason: string, providerStatus?: number) {
+    super(`Embedding provider '${provider}' failed: ${reason}`, {
+      provider,
+      ...(providerStatus ? { providerStatus } : {}),
+    });
+  }
+}
+
+export class FileTooLargeError extends DomainError {
+  readonly code = 'FILE_TOO_LARGE';
+  readonly status = HttpStatus.PAYLOAD_TOO_LARGE;
+
+  constructor(key: string, sizeBytes: number, maxSizeBytes: number) {
+    super(
+      `${key} is ${sizeBytes} bytes, more than the limit of ${maxSizeBytes} bytes`,
+      { key, sizeBytes, maxSizeBytes },
+    );
+  }
+}
+
+export class MultipartUploadNotFoundError extends DomainError {
+  readonly code = 'MULTIPART_UPLOAD_NOT_FOUND';
+  readonly status = HttpStatus.NOT_FOUND;
+
+  constructor(key: string, uploadId: string) {
+    super(`No multipart upload ${uploadId} in progress for ${key}`, {
+      key,
+      uploadId,
+    });
+  }
+}
+
+export class VectorStoreUnavailableError extends DomainError {
+  readonly code = 'VECTOR_STORE_UNAVAILABLE';
+  readonly status = HttpStatus.SERVICE_UNAVAILABLE;
+
+  constructor(store: string, reason: string) {
+    super(`Vector store '${store}' is unavailable: ${reason}`, { store });
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { DomainError } from './domain-errors';
+
+export interface ErrorResponseBody {
+  statusCode: number;
+  code: string; // Stable identifier clients can branch on, e.g. UNSUPPORTED_FILE_TYPE
+  message: string;
+  details?: any;
+}
+
+/**
+ * Render every error as an ErrorResponseBody. Domain errors keep their own
+ * status and code, HTTP exceptions get a code from their status (unless they
+ * carry one), and anything else is an opaque 500.
+ */
+@Catch()
+export class DomainExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(DomainExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse();
+    const body = this.toResponseBody(exception);
+
+    if (body.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        `${body.code}: ${(exception as Error)?.message}`,
+        (exception as Error)?.stack,
+      );
+    }
+    response.status(body.statusCode).json(body);
+  }
+
+  private toResponseBody(exception: unknown): ErrorResponseBody {
+    if (exception instanceof DomainError) {
+      return {
+        statusCode: exception.status,
+        code: exception.code,
+        message: exception.message,
+        ...(exception.details ? { details: exception.details } : {}),
+      };
+    }
+
+    if (exception instanceof HttpException) {
+      const statusCode = exception.getStatus();
+      const payload = exception.getResponse();
+      const { code, message, details } =
+        typeof payload === 'object' ? (payload as Record<string, any>) : {};
+      return {
+        statusCode,
+        code: code ?? HttpStatus[statusCode] ?? 'HTTP_ERROR',
+        // Nest's built-in pipes report a list of problems in `message`
+        message: Array.isArray(message)
+          ? message.join('; ')
+          : (message ?? exception.message),
+        ...(details ? { details } : {}),
+      };
+    }
+
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      code: 'INTERNAL_ERROR',
+      message: 'An unexpected error occurred.',
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  BadRequestException,
+  ExecutionContext,
+  ForbiddenException,
+  createParamDecorator,
+} from '@nestjs/common';
+import { tenancyConfig } from '../../config/tenancy.config';
+import { AuthenticatedUser } from '../../auth/auth.types';
+import { isValidTenantId } from './tenant-scope';
+
+/**
+ * Resolve the tenant (location/account ID) a request acts for. Authenticated
+ * requests are bound to the tenant in their token; the tenant header is only
+ * trusted on its own when authentication is disabled.
+ * @throws BadRequestException when no valid tenant ID is given
+ * @throws ForbiddenException when the header names a tenant other than the token's
+ */
+export const TenantId = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): string => {
+    const request = ctx.switchToHttp().getRequest();
+    const user: AuthenticatedUser | undefined = request.user;
+    const tenantId = request.headers?.[tenancyConfig.headerName];
+
+    if (user) {
+      if (tenantId !== undefined && tenantId !== user.tenantId) {
+        throw new ForbiddenException(
+          `Token is not valid for tenant ${tenantId}.`,
+        );
+      }
+      return user.tenantId;
+    }
+
+    if (tenantId === undefined) {
+      throw new BadRequestException(
+        `Missing tenant ID. Send it in the '${tenancyConfig.headerName}' header.`,
+      );
+    }
+    if (!isValidTenantId(tenantId)) {
+      throw new BadRequestException(
+        'Tenant ID must be 1-64 letters, digits, hyphens or underscores.',
+      );
+    }
+    return tenantId;
+  },
+);
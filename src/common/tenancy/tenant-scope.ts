@@ -0,0 +1,50 @@
+import { ForbiddenException } from '@nestjs/common';
+import { tenancyConfig } from '../../config/tenancy.config';
+
+// Tenant IDs end up in S3 keys and vector store namespace names, so keep them to a safe charset
+const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export function isValidTenantId(tenantId: unknown): tenantId is string {
+  return typeof tenantId === 'string' && TENANT_ID_PATTERN.test(tenantId);
+}
+
+/**
+ * The S3 key prefix every object of a tenant lives under, e.g. `tenants/acme/`
+ */
+export function tenantKeyPrefix(tenantId: string): string {
+  return `${tenancyConfig.s3Prefix}/${tenantId}/`;
+}
+
+/**
+ * The tenant whose prefix an S3 key is under, if any
+ */
+export function tenantIdFromKey(s3Key: string): string | undefined {
+  const prefix = `${tenancyConfig.s3Prefix}/`;
+  if (!s3Key.startsWith(prefix)) {
+    return undefined;
+  }
+  const tenantId = s3Key.slice(prefix.length).split('/')[0];
+  return isValidTenantId(tenantId) &&
+    s3Key.length > tenantKeyPrefix(tenantId).length
+    ? tenantId
+    : undefined;
+}
+
+/**
+ * The vector store namespace holding a tenant's vectors
+ */
+export function tenantNamespace(tenantId: string): string {
+  return tenantId;
+}
+
+/**
+ * Reject S3 keys outside the tenant's prefix
+ * @throws ForbiddenException
+ */
+export function assertTenantKey(tenantId: string, s3Key: string): void {
+  if (!s3Key.startsWith(tenantKeyPrefix(tenantId))) {
+    throw new ForbiddenException(
+      `S3 object ${s3Key} is outside the storage of tenant ${tenantId}.`,
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+  beforeEach(() => jest.useFakeTimers());
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should keep at most the given number of operations in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const durations = [300, 100, 200, 100, 50];
+
+    const result = mapWithConcurrency(durations, 2, async (ms, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return index;
+    });
+    await jest.advanceTimersByTimeAsync(400);
+
+    await expect(result).resolves.toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should return results in input order, not completion order', async () => {
+    const result = mapWithConcurrency(['slow', 'fast'], 2, async (item) => {
+      await new Promise((resolve) =>
+        setTimeout(resolve, item === 'slow' ? 200 : 10),
+      );
+      return item.toUpperCase();
+    });
+    await jest.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toEqual(['SLOW', 'FAST']);
+  });
+
+  it('should start the next item as soon as a slot frees up', async () => {
+    const started: Array<[number, number]> = [];
+
+    const result = mapWithConcurrency([100, 300, 100], 2, async (ms, index) => {
+      started.push([index, Date.now()]);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+    });
+    const start = Date.now();
+    await jest.advanceTimersByTimeAsync(300);
+
+    await result;
+    expect(started.map(([index, at]) => [index, at - start])).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 100],
+    ]);
+  });
+
+  it('should run one at a time for a concurrency below one and handle no items', async () => {
+    const mapper = jest.fn(async (item: number) => item * 2);
+
+    await expect(mapWithConcurrency([], 4, mapper)).resolves.toEqual([]);
+    expect(mapper).not.toHaveBeenCalled();
+    await expect(mapWithConcurrency([1, 2], 0, mapper)).resolves.toEqual([
+      2, 4,
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { createHash } from 'crypto';
+import { PassThrough, pipeline, Readable } from 'stream';
+
+/**
+ * Hex SHA-256 of a string (as UTF-8) or of raw bytes
+ */
+export function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Hash a stream's bytes as they are read
+ * @returns The stream to read instead of the source, and the hash of
+ * everything read once it has ended
+ */
+export function hashStream(source: Readable): {
+  stream: Readable;
+  digest: () => string;
+} {
+  const hash = createHash('sha256');
+  const stream = new PassThrough({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  // Source errors destroy the returned stream, so readers see them
+  pipeline(source, stream, () => undefined);
+  return { stream, digest: () => hash.digest('hex') };
+}
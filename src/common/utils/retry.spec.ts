@@ -0,0 +1,98 @@
+import { withRetry } from './retry';
+
+describe('withRetry', () => {
+  const options = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 300 };
+  let random: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    random = jest.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    random.mockRestore();
+  });
+
+  it('should back off exponentially up to the maximum delay', async () => {
+    const onRetry = jest.fn();
+    const operation = jest.fn(async (attempt: number) => {
+      if (attempt < 3) {
+        throw new Error(`attempt ${attempt} failed`);
+      }
+      return 'done';
+    });
+
+    const result = withRetry(operation, { ...options, onRetry });
+    await jest.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1 + 200 + 300);
+
+    await expect(result).resolves.toBe('done');
+    expect(
+      onRetry.mock.calls.map(([, attempt, delayMs]) => [attempt, delayMs]),
+    ).toEqual([
+      [1, 100],
+      [2, 200],
+      [3, 300], // 400 capped at maxDelayMs
+    ]);
+  });
+
+  it('should pick a random delay up to the backoff, with full jitter', async () => {
+    random.mockReturnValue(0.25);
+    const onRetry = jest.fn();
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('busy'))
+      .mockRejectedValueOnce(new Error('busy'))
+      .mockResolvedValue('done');
+
+    const result = withRetry(operation, { ...options, onRetry });
+    await jest.advanceTimersByTimeAsync(25 + 50);
+
+    await expect(result).resolves.toBe('done');
+    expect(onRetry.mock.calls.map(([, , delayMs]) => delayMs)).toEqual([
+      25, 50,
+    ]);
+  });
+
+  it('should wait as long as the server asks instead of backing off', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('429'), { wait: 5000 }))
+      .mockResolvedValue('done');
+
+    const result = withRetry(operation, {
+      ...options,
+      retryAfterMs: (error) => error.wait,
+    });
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('bad request'));
+
+    await expect(
+      withRetry(operation, { ...options, isRetryable: () => false }),
+    ).rejects.toThrow('bad request');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow the last error once the retries are used up', async () => {
+    const operation = jest.fn().mockImplementation(async (attempt: number) => {
+      throw new Error(`attempt ${attempt} failed`);
+    });
+
+    const result = withRetry(operation, options);
+    const failure = expect(result).rejects.toThrow('attempt 3 failed');
+    await jest.advanceTimersByTimeAsync(100 + 200 + 300);
+
+    await failure;
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+});
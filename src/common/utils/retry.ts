@@ -0,0 +1,43 @@
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Decide whether a failed attempt is worth repeating; defaults to always
+  isRetryable?: (error: any) => boolean;
+  // Server-provided wait, e.g. from a Retry-After header, takes precedence over backoff
+  retryAfterMs?: (error: any) => number | undefined;
+  onRetry?: (error: any, attempt: number, delayMs: number) => void;
+}
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an async operation, retrying failures with exponential backoff and full jitter
+ * @param operation The operation to run; receives the 0-based attempt number
+ * @param options Retry limits and hooks
+ * @returns The operation's result from the first successful attempt
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const retryable = options.isRetryable?.(error) ?? true;
+      if (!retryable || attempt >= options.maxRetries) {
+        throw error;
+      }
+      const backoff = Math.min(
+        options.maxDelayMs,
+        options.baseDelayMs * 2 ** attempt,
+      );
+      const delayMs =
+        options.retryAfterMs?.(error) ?? Math.round(Math.random() * backoff);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
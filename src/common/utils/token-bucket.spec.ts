@@ -0,0 +1,57 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  beforeEach(() => jest.useFakeTimers());
+
+  afterEach(() => jest.useRealTimers());
+
+  const settled = (promise: Promise<unknown>) => {
+    let done = false;
+    promise.then(() => (done = true));
+    return () => done;
+  };
+
+  it('should spend the budget at once and then wait for it to refill', async () => {
+    const bucket = new TokenBucket(600); // 10 tokens a second
+
+    await bucket.acquire(600);
+    const next = settled(bucket.acquire(30));
+
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(next()).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(next()).toBe(true);
+  });
+
+  it('should make requests larger than the budget wait for a full bucket', async () => {
+    const bucket = new TokenBucket(600);
+    await bucket.acquire(100);
+
+    const large = settled(bucket.acquire(1000));
+
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(large()).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(large()).toBe(true);
+  });
+
+  it('should serve waiting callers as the bucket refills', async () => {
+    const bucket = new TokenBucket(60); // 1 token a second
+    await bucket.acquire(60);
+
+    const first = settled(bucket.acquire(1));
+    const second = settled(bucket.acquire(1));
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect([first(), second()]).toEqual([true, false]);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect([first(), second()]).toEqual([true, true]);
+  });
+
+  it('should never wait when the budget is unlimited', async () => {
+    const bucket = new TokenBucket(0);
+
+    await expect(bucket.acquire(1_000_000)).resolves.toBeUndefined();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
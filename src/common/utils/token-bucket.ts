@@ -0,0 +1,41 @@
+import { sleep } from './retry';
+
+/**
+ * Throttles work to a fixed budget per minute. Callers reserve the number of
+ * tokens they are about to spend and wait until the bucket has refilled enough.
+ */
+export class TokenBucket {
+  private available: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly tokensPerMinute: number) {
+    this.available = tokensPerMinute;
+  }
+
+  async acquire(tokens: number): Promise<void> {
+    if (this.tokensPerMinute <= 0) {
+      return; // Unlimited
+    }
+    // A single request larger than the whole budget can only wait for a full bucket
+    const needed = Math.min(tokens, this.tokensPerMinute);
+
+    for (;;) {
+      this.refill();
+      if (this.available >= needed) {
+        this.available -= needed;
+        return;
+      }
+      const waitMs = Math.ceil(
+        ((needed - this.available) / this.tokensPerMinute) * 60_000,
+      );
+      await sleep(waitMs);
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / 60_000) * this.tokensPerMinute;
+    this.available = Math.min(this.tokensPerMinute, this.available + refilled);
+    this.lastRefill = now;
+  }
+}
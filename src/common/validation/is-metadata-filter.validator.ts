@@ -0,0 +1,21 @@
+import { ValidationOptions, registerDecorator } from 'class-validator';
+import { findFilterError } from '../../vector-store/metadata-filter';
+
+/**
+ * The value must be a vector store metadata filter using only supported
+ * operators, e.g. { original_filename: { $eq: 'faq.pdf' } }
+ */
+export function IsMetadataFilter(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isMetadataFilter',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate: (value: unknown) => !findFilterError(value),
+        defaultMessage: ({ value, property }) =>
+          findFilterError(value, property),
+      },
+    });
+}
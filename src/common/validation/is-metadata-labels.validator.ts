@@ -0,0 +1,43 @@
+import { ValidationOptions, registerDecorator } from 'class-validator';
+
+const LABEL_KEY = /^[a-z][a-z0-9_]{0,39}$/;
+const MAX_LABELS = 20;
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * The value must be an object of up to 20 custom labels: lowercase snake_case
+ * keys of at most 40 characters, each mapping to a non-empty string
+ */
+export function IsMetadataLabels(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isMetadataLabels',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate: (value: unknown) => {
+          if (
+            typeof value !== 'object' ||
+            value === null ||
+            Array.isArray(value)
+          ) {
+            return false;
+          }
+          const entries = Object.entries(value);
+          return (
+            entries.length <= MAX_LABELS &&
+            entries.every(
+              ([key, label]) =>
+                LABEL_KEY.test(key) &&
+                typeof label === 'string' &&
+                label.length > 0 &&
+                label.length <= MAX_VALUE_LENGTH,
+            )
+          );
+        },
+        defaultMessage: () =>
+          `$property must map up to ${MAX_LABELS} lowercase snake_case keys to strings of 1-${MAX_VALUE_LENGTH} characters`,
+      },
+    });
+}
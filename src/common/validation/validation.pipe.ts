@@ -0,0 +1,38 @@
+import {
+  BadRequestException,
+  ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+
+/**
+ * The global pipe: strips unknown properties, rejects requests that send
+ * them, and reports every failed constraint under one VALIDATION_FAILED code
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+    exceptionFactory: (errors) =>
+      new BadRequestException({
+        code: 'VALIDATION_FAILED',
+        message: 'Request validation failed.',
+        details: flatten(errors),
+      }),
+  });
+}
+
+function flatten(
+  errors: ValidationError[],
+  parent = '',
+): Array<{ field: string; constraints: string[] }> {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...(error.constraints
+        ? [{ field, constraints: Object.values(error.constraints) }]
+        : []),
+      ...flatten(error.children ?? [], field),
+    ];
+  });
+}
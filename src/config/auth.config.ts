@@ -0,0 +1,9 @@
+export const authConfig = {
+  enabled: process.env.AUTH_ENABLED !== 'false', // Only disable for local development
+  issuer: process.env.JWT_ISSUER || '', // Tokens from other issuers are rejected when set
+  audience: process.env.JWT_AUDIENCE || '',
+  secret: process.env.JWT_SECRET || '', // HS256 shared secret, used when no JWKS URI is set
+  jwksUri: process.env.JWT_JWKS_URI || '', // e.g. https://auth.example.com/.well-known/jwks.json, for RS256/ES256 tokens
+  rolesClaim: process.env.JWT_ROLES_CLAIM || 'roles', // An array or a space-separated string such as 'scope'
+  tenantClaim: process.env.JWT_TENANT_CLAIM || 'tenant_id', // The location/account ID the token acts for
+};
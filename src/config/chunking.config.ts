@@ -0,0 +1,7 @@
+export const chunkingConfig = {
+  // 'fixed' (token windows with overlap), 'recursive' (paragraph/sentence aware) or 'csv-rows'
+  strategy: process.env.CHUNK_STRATEGY || 'recursive',
+  chunkSize: parseInt(process.env.CHUNK_SIZE || '400', 10), // In tokens
+  chunkOverlap: parseInt(process.env.CHUNK_OVERLAP || '50', 10), // In tokens, used by the fixed strategy
+  csvRowsPerChunk: parseInt(process.env.CHUNK_CSV_ROWS || '20', 10),
+};
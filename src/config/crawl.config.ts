@@ -0,0 +1,24 @@
+export const crawlConfig = {
+  userAgent: process.env.CRAWL_USER_AGENT || 'HighLevelKnowledgeBot/1.0', // Also the robots.txt user agent matched
+  requestTimeoutMs: parseInt(
+    process.env.CRAWL_REQUEST_TIMEOUT_MS || '15000',
+    10,
+  ),
+  maxPageSizeBytes:
+    parseInt(process.env.CRAWL_MAX_PAGE_SIZE_MB || '10', 10) * 1024 * 1024,
+  // Defaults and ceilings for what a crawl source may ask for
+  defaultMaxDepth: parseInt(process.env.CRAWL_DEFAULT_MAX_DEPTH || '3', 10),
+  defaultMaxPages: parseInt(process.env.CRAWL_DEFAULT_MAX_PAGES || '100', 10),
+  maxPagesLimit: parseInt(process.env.CRAWL_MAX_PAGES_LIMIT || '5000', 10),
+  defaultRequestsPerMinute: parseInt(
+    process.env.CRAWL_DEFAULT_REQUESTS_PER_MINUTE || '30',
+    10,
+  ),
+  schedulerIntervalMs: parseInt(
+    process.env.CRAWL_SCHEDULER_INTERVAL_MS || '60000',
+    10,
+  ), // How often sources due for a re-crawl are looked for; 0 disables scheduled re-crawls
+  // Refuse hosts resolving to loopback, private and link-local addresses, so
+  // tenants cannot make the crawler reach internal services
+  allowPrivateHosts: process.env.CRAWL_ALLOW_PRIVATE_HOSTS === 'true',
+};
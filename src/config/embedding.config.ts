@@ -0,0 +1,20 @@
+export const embeddingConfig = {
+  provider: process.env.EMBEDDING_PROVIDER || '', // 'openai', 'cohere', 'local' or 'hashing'; required in production
+  apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY || '',
+  baseUrl: process.env.EMBEDDING_BASE_URL || '', // Defaults to the provider's public API
+  model: process.env.EMBEDDING_MODEL || '', // Defaults to the provider's recommended model
+  dimension: parseInt(process.env.EMBEDDING_DIMENSION || '0', 10), // 0 means use the model's native dimension
+};
+
+export const embeddingPipelineConfig = {
+  batchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '64', 10), // Texts per provider request
+  concurrency: parseInt(process.env.EMBEDDING_CONCURRENCY || '4', 10), // Provider requests in flight
+  maxRetries: parseInt(process.env.EMBEDDING_MAX_RETRIES || '5', 10),
+  retryBaseDelayMs: parseInt(process.env.EMBEDDING_RETRY_BASE_MS || '500', 10),
+  retryMaxDelayMs: parseInt(process.env.EMBEDDING_RETRY_MAX_MS || '30000', 10),
+  tokensPerMinute: parseInt(process.env.EMBEDDING_TOKENS_PER_MINUTE || '0', 10), // 0 means unlimited
+};
+
+// The hashing provider is deterministic and offline, and only useful for tests and local development.
+// It is used when EMBEDDING_PROVIDER is not set, except with NODE_ENV=production, which refuses to start.
+// The local provider needs the optional @huggingface/transformers package installed.
@@ -0,0 +1,11 @@
+export const hybridSearchConfig = {
+  enabled: process.env.HYBRID_SEARCH_ENABLED === 'true', // Upsert and query BM25 sparse vectors too
+  alpha: parseFloat(process.env.HYBRID_SEARCH_ALPHA || '0.5'), // Default weight of dense scores: 1 is dense only, 0 sparse only
+  k1: parseFloat(process.env.BM25_K1 || '1.2'), // Term frequency saturation
+  b: parseFloat(process.env.BM25_B || '0.75'), // Document length normalization
+  statsBackend: process.env.TERM_STATS_BACKEND || 'memory', // 'memory' or 'file'
+  statsDirectory: process.env.TERM_STATS_DIR || '.data/term-stats', // Used by the file backend, one file per tenant
+};
+
+// Sparse values are only accepted by Pinecone indexes with the dotproduct metric, so an
+// existing cosine index has to be recreated (and its documents re-indexed) to enable this.
@@ -0,0 +1,14 @@
+export const ingestionConfig = {
+  // CSV, TXT and JSONL objects larger than this are parsed and embedded as a stream
+  streamingThresholdBytes:
+    parseInt(process.env.INGESTION_STREAMING_THRESHOLD_MB || '10', 10) *
+    1024 *
+    1024,
+  // Objects in formats that cannot be streamed are read into memory; larger ones are rejected
+  maxBufferedFileSizeBytes:
+    parseInt(process.env.INGESTION_MAX_BUFFERED_MB || '200', 10) * 1024 * 1024,
+  // Text and FAQ entries submitted as JSON rather than uploaded
+  maxTextLength: parseInt(process.env.INGESTION_MAX_TEXT_CHARS || '100000', 10),
+  maxFaqEntries: parseInt(process.env.INGESTION_MAX_FAQ_ENTRIES || '500', 10), // Per bulk request
+  maxJsonBodySize: process.env.INGESTION_MAX_JSON_BODY || '5mb', // Largest JSON request body accepted
+};
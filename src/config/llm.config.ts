@@ -0,0 +1,11 @@
+export const llmConfig = {
+  provider: process.env.LLM_PROVIDER || 'local', // 'openai' or 'local'
+  apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '',
+  baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+  model: process.env.LLM_MODEL || 'gpt-4o-mini',
+  maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '512', 10),
+  temperature: parseFloat(process.env.LLM_TEMPERATURE || '0'),
+};
+
+// Set LLM_PROVIDER=openai together with LLM_API_KEY (and optionally LLM_BASE_URL
+// for any OpenAI-compatible server) in your .env file to use a hosted model
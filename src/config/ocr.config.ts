@@ -0,0 +1,10 @@
+export const ocrConfig = {
+  enabled: process.env.OCR_ENABLED !== 'false',
+  languages: process.env.OCR_LANGUAGES || 'eng', // Tesseract language codes joined with '+', e.g. 'eng+deu'
+  minCharsPerPage: parseInt(process.env.OCR_MIN_CHARS_PER_PAGE || '50', 10), // PDF pages with less extracted text are OCR'd
+  langPath: process.env.OCR_LANG_PATH || '', // Directory or URL holding <lang>.traineddata; defaults to the tesseract.js CDN
+  cachePath: process.env.OCR_CACHE_PATH || '.data/tesseract', // Where downloaded language data is cached
+};
+
+// OCR runs on the CPU in a tesseract.js (WebAssembly) worker. Without OCR_LANG_PATH the
+// language data is downloaded once on first use, so offline deployments should set it.
@@ -0,0 +1,10 @@
+export const queueConfig = {
+  backend: process.env.INGESTION_QUEUE_BACKEND || 'memory', // 'memory', 'file' or 'bullmq'
+  concurrency: parseInt(process.env.INGESTION_QUEUE_CONCURRENCY || '2', 10),
+  redisUrl: process.env.REDIS_URL || 'redis://localhost:6379', // Used by the bullmq backend
+  queueName: process.env.INGESTION_QUEUE_NAME || 'knowledge-ingestion',
+  fileDirectory: process.env.INGESTION_QUEUE_DIR || '.data/ingestion-jobs', // Used by the file backend
+};
+
+// 'memory' loses jobs on restart; 'file' persists them locally as a stand-in for Redis in
+// development and tests; 'bullmq' requires a reachable Redis at REDIS_URL
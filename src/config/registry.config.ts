@@ -0,0 +1,8 @@
+export const registryConfig = {
+  backend: process.env.DOCUMENT_REGISTRY_BACKEND || 'memory', // 'memory' or 'file'; collections and crawl sources are kept the same way
+  filePath: process.env.DOCUMENT_REGISTRY_FILE || '.data/documents.json', // Used by the file backend
+  collectionsFilePath:
+    process.env.COLLECTION_REGISTRY_FILE || '.data/collections.json', // Used by the file backend
+  crawlSourcesFilePath:
+    process.env.CRAWL_SOURCE_REGISTRY_FILE || '.data/crawl-sources.json', // Used by the file backend
+};
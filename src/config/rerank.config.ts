@@ -0,0 +1,17 @@
+export const rerankConfig = {
+  provider: process.env.RERANK_PROVIDER || 'none', // 'none', 'local' (cross-encoder) or 'cohere'
+  apiKey: process.env.RERANK_API_KEY || process.env.COHERE_API_KEY || '',
+  baseUrl: process.env.RERANK_BASE_URL || 'https://api.cohere.com',
+  model: process.env.RERANK_MODEL || '', // Defaults to the provider's recommended model
+  candidateMultiplier: parseInt(
+    process.env.RERANK_CANDIDATE_MULTIPLIER || '4',
+    10,
+  ), // Candidates fetched per hit returned
+  maxCandidates: parseInt(process.env.RERANK_MAX_CANDIDATES || '100', 10),
+  mmrLambda: parseFloat(process.env.MMR_LAMBDA || '0.7'), // 1 ranks by relevance alone; lower values favour diverse hits
+  maxPerDocument: parseInt(process.env.SEARCH_MAX_HITS_PER_DOCUMENT || '0', 10), // 0 means no cap
+};
+
+// Candidates are over-fetched whenever results are reranked, diversified or capped, so a
+// search costs candidateMultiplier times the vector reads. The local cross-encoder needs
+// the optional @huggingface/transformers package installed.
@@ -0,0 +1,16 @@
+export const s3EventsConfig = {
+  queueBackend: process.env.S3_EVENTS_QUEUE_BACKEND || 'none', // 'none', 'sqs' or 'file'
+  sqsQueueUrl: process.env.S3_EVENTS_SQS_QUEUE_URL || '', // Used by the sqs backend
+  fileDirectory: process.env.S3_EVENTS_QUEUE_DIR || '.data/s3-events', // Used by the file backend
+  pollIntervalMs: parseInt(
+    process.env.S3_EVENTS_POLL_INTERVAL_MS || '1000',
+    10,
+  ),
+  batchSize: parseInt(process.env.S3_EVENTS_BATCH_SIZE || '10', 10), // Messages per receive, at most 10 for SQS
+  webhookSecret: process.env.S3_EVENTS_WEBHOOK_SECRET || '', // Sent in the x-webhook-secret header, or as the basic auth password by SNS; empty disables the webhook
+};
+
+// Configure the bucket to send s3:ObjectCreated:* and s3:ObjectRemoved:* notifications for the
+// tenants/ prefix to the SQS queue, or through SNS to POST /knowledge-ingestion/s3-events.
+// SNS subscriptions pass the webhook secret as basic auth: https://sns:<secret>@host/knowledge-ingestion/s3-events
+// The file backend reads notifications dropped into a local directory, as a stand-in for SQS.
@@ -0,0 +1,4 @@
+export const tenancyConfig = {
+  headerName: (process.env.TENANT_HEADER || 'x-tenant-id').toLowerCase(), // Carries the location/account ID
+  s3Prefix: process.env.TENANT_S3_PREFIX || 'tenants', // Uploads land under <prefix>/<tenantId>/
+};
@@ -0,0 +1,24 @@
+export const uploadConfig = {
+  expirySeconds: parseInt(process.env.UPLOAD_URL_EXPIRY_SECONDS || '300', 10), // How long a presigned upload stays valid
+  maxFileSizeBytes:
+    parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB || '50', 10) * 1024 * 1024,
+  allowedContentTypes: (process.env.UPLOAD_ALLOWED_CONTENT_TYPES || '') // Comma-separated; empty allows every parseable type
+    .split(',')
+    .map((type) => type.trim())
+    .filter(Boolean),
+  multipartPartSizeBytes:
+    parseInt(process.env.UPLOAD_MULTIPART_PART_SIZE_MB || '16', 10) *
+    1024 *
+    1024, // S3 requires at least 5 MB for all but the last part
+  multipartMaxFileSizeBytes:
+    parseInt(process.env.UPLOAD_MULTIPART_MAX_FILE_SIZE_MB || '5120', 10) *
+    1024 *
+    1024,
+  multipartPartUrlExpirySeconds: parseInt(
+    process.env.UPLOAD_MULTIPART_PART_URL_EXPIRY_SECONDS || '3600',
+    10,
+  ),
+};
+
+// Single POST uploads are capped at maxFileSizeBytes; larger files go through the
+// multipart endpoints, whose parts are signed individually
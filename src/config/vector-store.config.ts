@@ -0,0 +1,7 @@
+export const vectorStoreConfig = {
+  backend: process.env.VECTOR_STORE_BACKEND || 'pinecone', // 'pinecone', 'memory' or 'file'
+  directory: process.env.VECTOR_STORE_DIR || '.data/vectors', // Used by the file backend, one file per namespace
+};
+
+// The memory and file backends search exhaustively, which suits development, tests and
+// small single-instance deployments. They use the same metric a new Pinecone index would.
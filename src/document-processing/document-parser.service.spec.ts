@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as ExcelJS from 'exceljs';
+import { DocumentParserService } from './document-parser.service';
+import { OcrEngine } from './ocr/ocr-engine.interface';
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, '__fixtures__', name));
+
+describe('DocumentParserService', () => {
+  const parser = new DocumentParserService();
+
+  describe('parseContent', () => {
+    it('should extract text from a binary PDF buffer', async () => {
+      const { content, metadata } = await parser.parseContent(
+        fixture('sample.pdf'),
+        'manual.pdf',
+        'application/pdf',
+      );
+
+      expect(content).toContain('The widget ships with a five year warranty.');
+      expect(content).toContain('Mount the widget on a flat surface');
+      expect(metadata.pageCount).toBe(2);
+    });
+
+    it('should detect a PDF by its magic bytes regardless of name and type', async () => {
+      const { content } = await parser.parseContent(
+        fixture('sample.pdf'),
+        'upload.bin',
+        'application/octet-stream',
+      );
+
+      expect(content).toContain('Acme Widget Manual');
+    });
+
+    it('should parse a PDF held in a slice of a larger buffer', async () => {
+      const pdf = fixture('sample.pdf');
+      const pooled = Buffer.alloc(pdf.length + 16);
+      pdf.copy(pooled, 16);
+
+      const { content } = await parser.parseContent(
+        pooled.subarray(16),
+        'manual.pdf',
+      );
+
+      expect(content).toContain('Acme Widget Manual');
+    });
+
+    it('should decode text formats as UTF-8 and strip the BOM', async () => {
+      const csv = Buffer.concat([
+        Buffer.from([0xef, 0xbb, 0xbf]),
+        Buffer.from('name,city\nJosé,São Paulo\n'),
+      ]);
+
+      const { content, metadata } = await parser.parseContent(
+        csv,
+        'contacts.csv',
+      );
+
+      expect(content).toBe('{"name":"José","city":"São Paulo"}');
+      expect(metadata.fields).toEqual(['name', 'city']);
+    });
+
+    it('should reject unknown binary content', async () => {
+      await expect(
+        parser.parseContent(Buffer.from([0x00, 0x01, 0x02, 0xff]), 'blob.bin'),
+      ).rejects.toThrow('Unsupported file type');
+    });
+  });
+
+  describe('PDF structure', () => {
+    it('should return page spans and strip repeated headers and footers', async () => {
+      const { content, pages } = await parser.parseContent(
+        fixture('manual.pdf'),
+        'manual.pdf',
+      );
+
+      expect(content).not.toContain('ACME Corp Confidential');
+      expect(content).not.toMatch(/Page \d of 3/);
+      expect(pages.map((page) => page.pageNumber)).toEqual([1, 2, 3]);
+      const warranty = content.indexOf('five year warranty');
+      expect(warranty).toBeGreaterThanOrEqual(pages[2].charStart);
+      expect(warranty).toBeLessThan(pages[2].charEnd);
+    });
+
+    it('should detect headings by font size and keep table cells apart', async () => {
+      const { content, metadata } = await parser.parseContent(
+        fixture('manual.pdf'),
+        'manual.pdf',
+      );
+
+      expect(metadata.headings).toEqual([
+        'Installation Guide',
+        'Specifications',
+        'Warranty',
+      ]);
+      expect(metadata.tableCount).toBe(1);
+      expect(content).toContain(
+        'Model | Weight | Voltage\nW-100 | 2 kg | 110 V',
+      );
+    });
+  });
+
+  describe('OCR fallback', () => {
+    const recognize = jest.fn();
+    const ocrEngine: OcrEngine = { name: 'fake', recognize };
+    const ocrParser = new DocumentParserService(ocrEngine);
+
+    beforeEach(() => {
+      recognize.mockReset();
+      recognize.mockResolvedValue({
+        text: 'SCANNED CONTRACT\nPayment is due in thirty days.\n',
+        confidence: 87.5,
+        language: 'eng',
+      });
+    });
+
+    it('should OCR the page images of a PDF without a text layer', async () => {
+      const { content, metadata, pages } = await ocrParser.parseContent(
+        fixture('scanned.pdf'),
+        'contract.pdf',
+      );
+
+      const [image] = recognize.mock.calls[0];
+      expect(image.subarray(1, 4).toString()).toBe('PNG');
+      expect(content).toBe('SCANNED CONTRACT\nPayment is due in thirty days.');
+      expect(metadata).toMatchObject({
+        ocrConfidence: 87.5,
+        ocrLanguage: 'eng',
+        ocrPageCount: 1,
+      });
+      expect(pages).toEqual([
+        { pageNumber: 1, charStart: 0, charEnd: content.length },
+      ]);
+    });
+
+    it('should not OCR PDF pages that have enough text', async () => {
+      const { metadata } = await ocrParser.parseContent(
+        fixture('manual.pdf'),
+        'manual.pdf',
+      );
+
+      expect(recognize).not.toHaveBeenCalled();
+      expect(metadata.ocrConfidence).toBeUndefined();
+    });
+
+    it('should OCR image uploads detected by their magic bytes', async () => {
+      const png = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+      const { content, metadata } = await ocrParser.parseContent(
+        png,
+        'scan.bin',
+      );
+
+      expect(recognize).toHaveBeenCalledWith(png);
+      expect(content).toContain('Payment is due in thirty days.');
+      expect(metadata).toMatchObject({
+        format: 'image',
+        ocrConfidence: 87.5,
+        ocrLanguage: 'eng',
+      });
+    });
+
+    it('should reject images when OCR is disabled', async () => {
+      await expect(
+        parser.parseContent(
+          Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex'),
+          'scan.png',
+        ),
+      ).rejects.toThrow('Unsupported file type: .png');
+    });
+  });
+
+  describe('office and web formats', () => {
+    it('should extract DOCX text with headings and links', async () => {
+      const { content, metadata } = await parser.parseContent(
+        fixture('sample.docx'),
+        'guide.docx',
+      );
+
+      expect(content).toBe(
+        'Onboarding Guide\n\nWelcome to the team. Read the onboarding portal first.\n\nFirst Week\n\nSet up your calendar and meet your buddy.',
+      );
+      expect(metadata).toMatchObject({
+        format: 'docx',
+        headings: ['Onboarding Guide', 'First Week'],
+        links: ['https://example.com/onboarding'],
+      });
+    });
+
+    it('should extract XLSX rows per sheet keyed by the header row', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const prices = workbook.addWorksheet('Prices');
+      prices.addRow(['SKU', 'Price']);
+      prices.addRow(['WID-001', 19.99]);
+      workbook.addWorksheet('Notes').addRow(['Note']);
+      const data = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const { content, metadata } = await parser.parseContent(
+        data,
+        'export', // No extension: detected from the archive contents
+      );
+
+      expect(content).toBe(
+        'Sheet: Prices\n{"SKU":"WID-001","Price":"19.99"}\n\nSheet: Notes',
+      );
+      expect(metadata).toMatchObject({
+        format: 'xlsx',
+        sheetNames: ['Prices', 'Notes'],
+        rowCount: 1,
+      });
+    });
+
+    it('should extract PPTX slides in order with notes and links', async () => {
+      const { content, metadata } = await parser.parseContent(
+        fixture('sample.pptx'),
+        'deck.pptx',
+      );
+
+      expect(content).toBe(
+        [
+          'Slide 1: Quarterly Pricing',
+          'Starter plan is 97 dollars',
+          'Pro plan is 297 dollars',
+          'Notes: Mention the annual discount.',
+          '',
+          'Slide 2: Next Steps',
+          'Book a demo & start a trial',
+        ].join('\n'),
+      );
+      expect(metadata).toMatchObject({
+        slideCount: 2,
+        headings: ['Quarterly Pricing', 'Next Steps'],
+        links: ['https://example.com/demo'],
+      });
+    });
+
+    it('should extract readable HTML text without scripts or markup', async () => {
+      const html = Buffer.from(
+        '<!DOCTYPE html><html><head><title>Help Center</title><script>track()</script></head>' +
+          '<body><h1>Returns</h1><p>Send items back within <b>30 days</b>.</p>' +
+          '<ul><li>Keep the receipt</li><li><a href="https://example.com/rma">Start a return</a></li></ul></body></html>',
+      );
+
+      const { content, metadata } = await parser.parseContent(html, 'page.bin');
+
+      expect(content).toBe(
+        'Returns\n\nSend items back within 30 days.\n\nKeep the receipt\n\nStart a return',
+      );
+      expect(metadata).toMatchObject({
+        format: 'html',
+        title: 'Help Center',
+        headings: ['Returns'],
+        links: ['https://example.com/rma'],
+      });
+    });
+
+    it('should keep only the main content of a web page', async () => {
+      const html = Buffer.from(
+        '<html><head><title>Returns | Acme</title></head><body>' +
+          '<header><a href="https://acme.test/">Acme</a></header>' +
+          '<nav><h2>Menu</h2><a href="https://acme.test/pricing">Pricing</a></nav>' +
+          '<main><article><header><h1>Returns</h1></header><p>Send items back within 30 days.</p></article>' +
+          '<aside role="complementary">Related: shipping</aside></main>' +
+          '<footer>© Acme</footer></body></html>',
+      );
+
+      const { content, metadata } = await parser.parseContent(
+        html,
+        'page.html',
+      );
+
+      expect(content).toBe('Returns\n\nSend items back within 30 days.');
+      expect(metadata).toMatchObject({
+        title: 'Returns | Acme',
+        headings: ['Returns'],
+        links: [],
+      });
+    });
+
+    it('should strip Markdown syntax and collect headings and links', async () => {
+      const markdown = Buffer.from(
+        [
+          '# Pricing',
+          '',
+          'The **starter** plan is [listed here](https://example.com/pricing).',
+          '',
+          'FAQ',
+          '---',
+          '- Cancel *anytime*',
+          '```',
+          'curl https://api.example.com',
+          '```',
+        ].join('\n'),
+      );
+
+      const { content, metadata } = await parser.parseContent(
+        markdown,
+        'pricing.md',
+      );
+
+      expect(content).toBe(
+        'Pricing\n\nThe starter plan is listed here.\n\nFAQ\n\nCancel anytime\ncurl https://api.example.com',
+      );
+      expect(metadata).toMatchObject({
+        format: 'markdown',
+        headings: ['Pricing', 'FAQ'],
+        links: ['https://example.com/pricing'],
+      });
+    });
+  });
+
+  describe('parseStream', () => {
+    const collect = async (lines: AsyncIterable<string>) => {
+      const collected: string[] = [];
+      for await (const line of lines) {
+        collected.push(line);
+      }
+      return collected;
+    };
+
+    // Small chunks split multi-byte characters, as network reads do
+    const streamOf = (data: Buffer) =>
+      Readable.from(
+        Array.from({ length: Math.ceil(data.length / 5) }, (_, i) =>
+          data.subarray(i * 5, i * 5 + 5),
+        ),
+      );
+
+    it('should stream CSV rows serialized as parseContent does', async () => {
+      const csv = Buffer.concat([
+        Buffer.from([0xef, 0xbb, 0xbf]),
+        Buffer.from('name,city\nJosé,São Paulo\n\nAna,"Rio, RJ"\n'),
+      ]);
+
+      const { lines, metadata } = parser.parseStream(
+        streamOf(csv),
+        'contacts.csv',
+      );
+      const buffered = await parser.parseContent(csv, 'contacts.csv');
+
+      expect((await collect(lines)).join('\n')).toBe(buffered.content);
+      expect(metadata).toMatchObject({ source: 'contacts.csv', format: 'csv' });
+    });
+
+    it('should stream JSONL records one per line, keeping invalid lines', async () => {
+      const jsonl = Buffer.from(
+        '{"q": "Hi?",  "a": 1}\n\nnot json\r\n[1, 2]\n',
+      );
+
+      const { lines } = parser.parseStream(
+        streamOf(jsonl),
+        'faq.data',
+        'application/x-ndjson',
+      );
+
+      expect(await collect(lines)).toEqual([
+        '{"q":"Hi?","a":1}',
+        'not json',
+        '[1,2]',
+      ]);
+      expect(
+        (await parser.parseContent(jsonl, 'faq.jsonl')).metadata,
+      ).toMatchObject({ format: 'jsonl', recordCount: 3, invalidLines: 1 });
+    });
+
+    it('should only stream line-oriented formats', () => {
+      expect(parser.canParseStream('notes.txt')).toBe(true);
+      expect(parser.canParseStream('export', 'text/csv; charset=utf-8')).toBe(
+        true,
+      );
+      expect(parser.canParseStream('manual.pdf')).toBe(false);
+      expect(() => parser.parseStream(Readable.from([]), 'manual.pdf')).toThrow(
+        'Unsupported file type: pdf',
+      );
+    });
+  });
+});
@@ -1,235 +1,157 @@
-import { Injectable, Logger } from '@nestjs/common';
-// Import the libraries we just installed
-import * as pdfParse from 'pdf-parse';
-import * as Papa from 'papaparse';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { Readable } from 'stream';
+import {
+  FormatHandler,
+  FormatParseResult,
+  PageSpan,
+} from './formats/format-handler.interface';
+import { FormatRegistry } from './formats/format-registry';
+import { createDefaultFormatHandlers } from './formats/default-format-handlers';
+import { decodeText, looksLikeText } from './formats/text-decoding';
+import { OCR_ENGINE, OcrEngine } from './ocr/ocr-engine.interface';
+import { ocrConfig } from '../config/ocr.config';
+import {
+  DocumentParseError,
+  DomainError,
+  UnsupportedFileTypeError,
+} from '../common/errors/domain-errors';
+
+export interface ParsedDocument {
+  content: string;
+  metadata: Record<string, any>;
+  pages?: PageSpan[]; // Set for paginated formats such as PDF
+}
+
+export interface StreamingParsedDocument {
+  lines: AsyncIterable<string>; // The content one line at a time, consumed once
+  metadata: Record<string, any>;
+}
 
 @Injectable()
 export class DocumentParserService {
   private readonly logger = new Logger(DocumentParserService.name);
+  private readonly formats: FormatRegistry;
+
+  constructor(@Optional() @Inject(OCR_ENGINE) ocrEngine?: OcrEngine | null) {
+    this.formats = new FormatRegistry(
+      createDefaultFormatHandlers({
+        ocrEngine: ocrEngine ?? undefined,
+        minCharsPerPage: ocrConfig.minCharsPerPage,
+      }),
+    );
+  }
+
+  /**
+   * Add support for a new document format, or replace the handler for an existing one
+   */
+  registerFormat(handler: FormatHandler) {
+    this.formats.register(handler);
+    this.logger.log(`Registered document format: ${handler.format}`);
+  }
+
+  get supportedExtensions(): string[] {
+    return this.formats.extensions;
+  }
 
   /**
-   * Parse document content directly from a string
-   * @param content The string content to parse
-   * @param fileName Original file name (used to determine file type and for metadata)
+   * Parse raw document bytes
+   * @param data The file content exactly as stored
+   * @param fileName Original file name (used as a format hint and for metadata)
+   * @param contentType Optional MIME type reported by the storage backend
    * @returns Parsed content and metadata
    */
-  async parseContentFromString(
-    content: string,
+  async parseContent(
+    data: Buffer,
     fileName: string,
-  ): Promise<{ content: string; metadata: Record<string, any> }> {
-    const fileExtension = path.extname(fileName).toLowerCase();
-    let textContent = '';
-    const metadata: Record<string, any> = { source: fileName };
+    contentType?: string,
+  ): Promise<ParsedDocument> {
+    const handler = this.formats.detect(data, fileName, contentType);
 
     this.logger.log(
-      `Parsing content from string. File type: ${fileExtension}, File name: ${fileName}`,
+      `Parsing ${data.length} bytes. Detected format: ${handler?.format ?? 'unknown'}, File name: ${fileName}, Content type: ${contentType ?? 'n/a'}`,
     );
 
     try {
-      switch (fileExtension) {
-        case '.pdf':
-          try {
-            // For PDFs, content from S3 will likely be a base64 encoded string
-            // We need to convert it to a Buffer for pdf-parse
-            // First, check if the content is base64 encoded
-            let pdfBuffer: Buffer;
-
-            // Try to detect if content is already base64 encoded
-            // This is a simple heuristic - in production, you might need more robust detection
-            if (content.match(/^[\w+/=]+$/)) {
-              // Looks like base64, try to decode it
-              pdfBuffer = Buffer.from(content, 'base64');
-            } else {
-              // Not base64, might be binary data already as a string
-              // Convert to buffer directly
-              pdfBuffer = Buffer.from(content);
-            }
-
-            // Parse the PDF
-            const pdfData = await pdfParse(pdfBuffer);
-            textContent = pdfData.text;
-
-            // Add additional metadata from the PDF
-            metadata.pageCount = pdfData.numpages;
-            metadata.info = pdfData.info;
-
-            this.logger.log(
-              `Successfully parsed PDF content. Extracted ${textContent.length} characters from ${pdfData.numpages} pages.`,
-            );
-          } catch (pdfError) {
-            this.logger.error(
-              `Error parsing PDF content: ${pdfError.message}`,
-              pdfError.stack,
-            );
-            textContent =
-              'Failed to parse PDF content. Error: ' + pdfError.message;
-          }
-          break;
-
-        case '.csv':
-          try {
-            // Parse CSV content using PapaParse
-            const csvData = Papa.parse(content, {
-              header: true,
-              skipEmptyLines: true,
-            });
-
-            // Extract data rows as structured content
-            textContent = csvData.data
-              .map((row) => JSON.stringify(row))
-              .join('\n');
-
-            // Add metadata about the CSV structure
-            metadata.rowCount = csvData.data.length;
-            metadata.fields = csvData.meta.fields;
-            metadata.delimiter = csvData.meta.delimiter;
-
-            if (csvData.errors && csvData.errors.length > 0) {
-              metadata.parseErrors = csvData.errors;
-              this.logger.warn(
-                `CSV parsed with ${csvData.errors.length} errors`,
-                csvData.errors,
-              );
-            }
-
-            this.logger.log(
-              `Successfully parsed CSV with ${csvData.data.length} rows and ${metadata.fields?.length || 0} columns.`,
-            );
-          } catch (csvError) {
-            this.logger.error(
-              `Error parsing CSV content: ${csvError.message}`,
-              csvError.stack,
-            );
-            textContent =
-              'Failed to parse CSV content. Error: ' + csvError.message;
-          }
-          break;
-
-        case '.txt':
-          textContent = content; // For text files, the content is already text
-          break;
-
-        case '.json':
-          try {
-            const jsonData = JSON.parse(content);
-            textContent = JSON.stringify(jsonData); // Or extract specific fields
-            // You might want to flatten the JSON or extract key text fields
-          } catch (jsonError) {
-            this.logger.error(
-              `Error parsing JSON content: ${jsonError.message}`,
-            );
-            textContent = content; // Fallback to raw content
-          }
-          break;
-
-        default:
-          this.logger.warn(
-            `Unsupported file type: ${fileExtension} for file ${fileName}`,
+      let parsed: FormatParseResult;
+
+      if (handler) {
+        parsed = await handler.parse(data, fileName);
+      } else {
+        if (!looksLikeText(data)) {
+          throw new UnsupportedFileTypeError(
+            path.extname(fileName) || contentType || 'unknown',
           );
-          // For unknown types, just use the raw content
-          textContent = content;
+        }
+        this.logger.warn(
+          `Unknown file type for ${fileName}, treating it as plain text`,
+        );
+        parsed = { content: decodeText(data), metadata: {} };
       }
 
-      this.logger.log(
-        `Successfully parsed content from string for ${fileName}`,
-      );
-      return { content: textContent, metadata };
+      this.logger.log(`Successfully parsed ${fileName}`);
+      return {
+        content: parsed.content,
+        metadata: {
+          source: fileName,
+          format: handler?.format ?? 'txt',
+          ...parsed.metadata,
+        },
+        pages: parsed.pages,
+      };
     } catch (error) {
-      this.logger.error(
-        `Error parsing content from string for ${fileName}:`,
-        error,
+      this.logger.error(`Error parsing document ${fileName}:`, error);
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new DocumentParseError(
+        fileName,
+        handler?.format ?? 'txt',
+        error.message,
       );
-      throw error;
     }
   }
 
-  async parseDocument(
-    filePath: string,
-  ): Promise<{ content: string; metadata: Record<string, any> }> {
-    const fileExtension = path.extname(filePath).toLowerCase();
-    const fileName = path.basename(filePath);
-    let textContent = '';
-    const metadata: Record<string, any> = { source: fileName };
-
-    try {
-      const fileBuffer = await fs.readFile(filePath);
-      this.logger.log(`Parsing document: ${filePath}`);
-
-      switch (fileExtension) {
-        case '.pdf':
-          try {
-            const data = await pdfParse(fileBuffer);
-            textContent = data.text;
-            metadata.pageCount = data.numpages;
-            metadata.info = data.info;
-          } catch (pdfError) {
-            this.logger.error(
-              `Error parsing PDF file: ${pdfError.message}`,
-              pdfError.stack,
-            );
-            textContent =
-              'Failed to parse PDF file. Error: ' + pdfError.message;
-          }
-          break;
-
-        case '.csv':
-          try {
-            const csvString = fileBuffer.toString();
-            const csvData = Papa.parse(csvString, {
-              header: true,
-              skipEmptyLines: true,
-            });
-
-            textContent = csvData.data
-              .map((row) => JSON.stringify(row))
-              .join('\n');
-
-            metadata.rowCount = csvData.data.length;
-            metadata.fields = csvData.meta.fields;
-            metadata.delimiter = csvData.meta.delimiter;
-
-            if (csvData.errors && csvData.errors.length > 0) {
-              metadata.parseErrors = csvData.errors;
-              this.logger.warn(
-                `CSV parsed with ${csvData.errors.length} errors`,
-                csvData.errors,
-              );
-            }
-          } catch (csvError) {
-            this.logger.error(
-              `Error parsing CSV file: ${csvError.message}`,
-              csvError.stack,
-            );
-            textContent =
-              'Failed to parse CSV file. Error: ' + csvError.message;
-          }
-          break;
-
-        case '.txt':
-          textContent = fileBuffer.toString();
-          break;
+  /**
+   * Whether a file's format can be parsed as a stream, judging by its name and content type
+   */
+  canParseStream(fileName: string, contentType?: string): boolean {
+    return !!this.formats.detectByName(fileName, contentType)?.parseStream;
+  }
 
-        case '.json':
-          const jsonData = JSON.parse(fileBuffer.toString());
-          textContent = JSON.stringify(jsonData); // Or extract specific fields
-          // You might want to flatten the JSON or extract key text fields
-          break;
+  /**
+   * Parse a line-oriented document without reading it into memory
+   * @param stream The raw file bytes
+   * @param fileName Original file name (used to pick the format and for metadata)
+   * @param contentType Optional MIME type reported by the storage backend
+   * @returns The content as lines, parsed lazily as they are read, and the metadata
+   * @throws UnsupportedFileTypeError if the format cannot be streamed
+   */
+  parseStream(
+    stream: Readable,
+    fileName: string,
+    contentType?: string,
+  ): StreamingParsedDocument {
+    const handler = this.formats.detectByName(fileName, contentType);
+    if (!handler?.parseStream) {
+      throw new UnsupportedFileTypeError(
+        handler?.format ?? (path.extname(fileName) || contentType || 'unknown'),
+      );
+    }
+    this.logger.log(
+      `Streaming ${fileName} as ${handler.format}, Content type: ${contentType ?? 'n/a'}`,
+    );
 
-        default:
-          this.logger.warn(
-            `Unsupported file type: ${fileExtension} for file ${fileName}`,
-          );
-          throw new Error(`Unsupported file type: ${fileExtension}`);
-      }
+    return {
+      lines: handler.parseStream(stream, fileName),
+      metadata: { source: fileName, format: handler.format, streamed: true },
+    };
+  }
 
-      this.logger.log(`Successfully parsed ${fileName}`);
-      return { content: textContent, metadata };
-    } catch (error) {
-      this.logger.error(`Error parsing document ${fileName}:`, error);
-      throw error;
-    }
+  async parseDocument(filePath: string): Promise<ParsedDocument> {
+    const fileBuffer = await fs.readFile(filePath);
+    return this.parseContent(fileBuffer, path.basename(filePath));
   }
 
   // You might want a method to process a directory of documents
@@ -1,9 +1,44 @@
 import { Module } from '@nestjs/common';
 import { DocumentParserService } from './document-parser.service';
 import { EmbeddingService } from './embedding.service';
+import { TextChunkerService } from './text-chunker.service';
+import { EMBEDDING_PROVIDER } from './embedding-providers/embedding-provider.interface';
+import { createEmbeddingProvider } from './embedding-providers/embedding-provider.factory';
+import { embeddingConfig } from '../config/embedding.config';
+import { OCR_ENGINE } from './ocr/ocr-engine.interface';
+import { TesseractOcrEngine } from './ocr/tesseract-ocr.engine';
+import { ocrConfig } from '../config/ocr.config';
+import { SparseEncodingService } from './sparse/sparse-encoding.service';
+import { TERM_STATISTICS_STORE } from './sparse/term-statistics.store';
+import { createTermStatisticsStore } from './sparse/term-statistics.factory';
+import { hybridSearchConfig } from '../config/hybrid-search.config';
 
 @Module({
-  providers: [DocumentParserService, EmbeddingService],
-  exports: [DocumentParserService, EmbeddingService],
+  providers: [
+    DocumentParserService,
+    EmbeddingService,
+    TextChunkerService,
+    SparseEncodingService,
+    {
+      provide: EMBEDDING_PROVIDER,
+      useFactory: () => createEmbeddingProvider(embeddingConfig),
+    },
+    {
+      provide: OCR_ENGINE,
+      useFactory: () =>
+        ocrConfig.enabled ? new TesseractOcrEngine(ocrConfig) : null,
+    },
+    {
+      provide: TERM_STATISTICS_STORE,
+      useFactory: () => createTermStatisticsStore(hybridSearchConfig),
+    },
+  ],
+  exports: [
+    DocumentParserService,
+    EmbeddingService,
+    TextChunkerService,
+    SparseEncodingService,
+    EMBEDDING_PROVIDER,
+  ],
 })
 export class DocumentProcessingModule {}
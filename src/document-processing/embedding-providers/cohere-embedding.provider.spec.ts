@@ -0,0 +1,37 @@
+import { CohereEmbeddingProvider } from './cohere-embedding.provider';
+
+describe('CohereEmbeddingProvider', () => {
+  const provider = new CohereEmbeddingProvider({
+    apiKey: 'test-key',
+    baseUrl: 'https://api.cohere.test/',
+    model: 'embed-english-v3.0',
+    dimension: 2,
+  });
+  let fetch: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetch = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(
+        new Response(JSON.stringify({ embeddings: { float: [[0.6, 0.8]] } })),
+      );
+  });
+
+  afterEach(() => fetch.mockRestore());
+
+  it.each([
+    [undefined, 'search_document'],
+    ['document' as const, 'search_document'],
+    ['query' as const, 'search_query'],
+  ])('should embed %s input as %s', async (inputType, cohereType) => {
+    const vectors = await provider.embed(['refunds'], inputType);
+
+    expect(vectors).toEqual([[0.6, 0.8]]);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.cohere.test/v1/embed');
+    expect(JSON.parse(init.body)).toMatchObject({
+      texts: ['refunds'],
+      input_type: cohereType,
+    });
+  });
+});
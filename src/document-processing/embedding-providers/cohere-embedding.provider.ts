@@ -0,0 +1,60 @@
+import {
+  EmbeddingInputType,
+  EmbeddingProvider,
+} from './embedding-provider.interface';
+import { EmbeddingRequestError } from './embedding-request.error';
+
+export interface CohereEmbeddingOptions {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  dimension: number;
+}
+
+/**
+ * Calls a Cohere-style `/v1/embed` endpoint
+ */
+export class CohereEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'cohere';
+  readonly dimension: number;
+
+  constructor(private readonly options: CohereEmbeddingOptions) {
+    this.dimension = options.dimension;
+  }
+
+  async embed(
+    texts: string[],
+    inputType: EmbeddingInputType = 'document',
+  ): Promise<number[][]> {
+    const response = await fetch(
+      `${this.options.baseUrl.replace(/\/$/, '')}/v1/embed`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.options.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          texts,
+          input_type:
+            inputType === 'query' ? 'search_query' : 'search_document',
+          embedding_types: ['float'],
+        }),
+      },
+    ).catch((error) => {
+      // Network-level failures (DNS, reset connections) are transient
+      throw new EmbeddingRequestError(
+        `Embedding request failed: ${error.message}`,
+      );
+    });
+
+    if (!response.ok) {
+      throw await EmbeddingRequestError.fromResponse(response);
+    }
+
+    const data = await response.json();
+    // Vectors are nested by type when embedding_types is sent, as it always is here
+    return data.embeddings?.float;
+  }
+}
@@ -0,0 +1,30 @@
+import { createEmbeddingProvider } from './embedding-provider.factory';
+
+describe('createEmbeddingProvider', () => {
+  const originalEnv = process.env.NODE_ENV;
+  const config = {
+    provider: '',
+    apiKey: '',
+    baseUrl: '',
+    model: '',
+    dimension: 0,
+  };
+
+  afterEach(() => {
+    process.env.NODE_ENV = originalEnv;
+  });
+
+  it('should refuse to start in production without a configured provider', () => {
+    process.env.NODE_ENV = 'production';
+
+    expect(() => createEmbeddingProvider(config)).toThrow(
+      'No embedding provider configured',
+    );
+  });
+
+  it('should fall back to the hashing provider outside production', () => {
+    process.env.NODE_ENV = 'development';
+
+    expect(createEmbeddingProvider(config).name).toBe('hashing');
+  });
+});
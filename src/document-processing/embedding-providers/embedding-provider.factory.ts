@@ -0,0 +1,101 @@
+import { Logger } from '@nestjs/common';
+import { EmbeddingProvider } from './embedding-provider.interface';
+import { OpenAiEmbeddingProvider } from './openai-embedding.provider';
+import { CohereEmbeddingProvider } from './cohere-embedding.provider';
+import { LocalEmbeddingProvider } from './local-embedding.provider';
+import { HashingEmbeddingProvider } from './hashing-embedding.provider';
+
+export interface EmbeddingProviderConfig {
+  provider: string;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  dimension: number;
+}
+
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'text-embedding-3-small',
+  cohere: 'embed-english-v3.0',
+  local: 'Xenova/all-MiniLM-L6-v2',
+};
+
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  openai: 'https://api.openai.com/v1',
+  cohere: 'https://api.cohere.com',
+};
+
+// Native output size of well-known models, used when EMBEDDING_DIMENSION is not set
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'embed-english-v3.0': 1024,
+  'embed-multilingual-v3.0': 1024,
+  'embed-english-light-v3.0': 384,
+  'embed-multilingual-light-v3.0': 384,
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/bge-small-en-v1.5': 384,
+  'Xenova/bge-base-en-v1.5': 768,
+};
+
+const DEFAULT_HASHING_DIMENSION = 1536;
+
+/**
+ * @throws if the provider is unknown, the dimension of its model is not known,
+ * or no provider is configured in production
+ */
+export function createEmbeddingProvider(
+  config: EmbeddingProviderConfig,
+): EmbeddingProvider {
+  if (!config.provider) {
+    // Hashed vectors carry no meaning, so a deployment must not fall back to them unnoticed
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(
+        'No embedding provider configured. Set EMBEDDING_PROVIDER to openai, cohere or local.',
+      );
+    }
+    new Logger('EmbeddingProvider').warn(
+      'EMBEDDING_PROVIDER is not set; using the hashing provider, which is only fit for tests and local development',
+    );
+    config = { ...config, provider: 'hashing' };
+  }
+
+  const model = config.model || DEFAULT_MODELS[config.provider];
+  const baseUrl = config.baseUrl || DEFAULT_BASE_URLS[config.provider];
+  const dimension = config.dimension || MODEL_DIMENSIONS[model];
+
+  if (config.provider !== 'hashing' && !dimension) {
+    throw new Error(
+      `Unknown dimension for embedding model '${model}'. Set EMBEDDING_DIMENSION.`,
+    );
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiEmbeddingProvider({
+        apiKey: config.apiKey,
+        baseUrl,
+        model,
+        dimension,
+      });
+
+    case 'cohere':
+      return new CohereEmbeddingProvider({
+        apiKey: config.apiKey,
+        baseUrl,
+        model,
+        dimension,
+      });
+
+    case 'local':
+      return new LocalEmbeddingProvider(model, dimension);
+
+    case 'hashing':
+      return new HashingEmbeddingProvider(
+        config.dimension || DEFAULT_HASHING_DIMENSION,
+      );
+
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+  }
+}
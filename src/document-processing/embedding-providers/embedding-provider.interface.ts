@@ -0,0 +1,16 @@
+export const EMBEDDING_PROVIDER = 'EMBEDDING_PROVIDER';
+
+// Some models embed search queries differently from the documents they should find
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Length of every vector this provider returns; drives the vector index dimension
+  readonly dimension: number;
+  /**
+   * Embed a batch of texts
+   * @param inputType Whether the texts are indexed or searched with; defaults to document
+   * @returns One vector per input text, in input order
+   */
+  embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]>;
+}
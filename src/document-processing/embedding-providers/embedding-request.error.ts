@@ -0,0 +1,32 @@
+/**
+ * Raised by HTTP embedding providers so the pipeline can tell rate limits and
+ * transient server failures apart from permanent errors
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = EmbeddingRequestError.name;
+  }
+
+  get retryable(): boolean {
+    return (
+      this.status === undefined || this.status === 429 || this.status >= 500
+    );
+  }
+
+  static async fromResponse(
+    response: Response,
+  ): Promise<EmbeddingRequestError> {
+    const body = await response.text();
+    const retryAfter = parseFloat(response.headers.get('retry-after') ?? '');
+    return new EmbeddingRequestError(
+      `Embedding request failed with status ${response.status}: ${body}`,
+      response.status,
+      Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined,
+    );
+  }
+}
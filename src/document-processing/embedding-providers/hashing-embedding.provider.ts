@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+import { EmbeddingProvider } from './embedding-provider.interface';
+
+/**
+ * Deterministic, offline embeddings built by hashing word unigrams and bigrams
+ * into a fixed number of buckets. Texts that share words get similar vectors,
+ * which is enough to exercise search end to end in tests.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+
+  constructor(readonly dimension: number) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+
+    for (const feature of features) {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimension;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
@@ -0,0 +1,45 @@
+import { Logger } from '@nestjs/common';
+import { EmbeddingProvider } from './embedding-provider.interface';
+
+// Optional dependency, only required when this provider is selected
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+/**
+ * Runs a sentence-transformers model on the CPU through transformers.js (ONNX)
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  private readonly logger = new Logger(LocalEmbeddingProvider.name);
+  private extractor: Promise<any>;
+
+  constructor(
+    private readonly model: string,
+    readonly dimension: number,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  private getExtractor(): Promise<any> {
+    if (!this.extractor) {
+      let transformers: any;
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        transformers = require(TRANSFORMERS_PACKAGE);
+      } catch {
+        throw new Error(
+          `The local embedding provider requires the '${TRANSFORMERS_PACKAGE}' package. Install it or choose another EMBEDDING_PROVIDER.`,
+        );
+      }
+      this.logger.log(`Loading local embedding model: ${this.model}`);
+      this.extractor = transformers.pipeline('feature-extraction', this.model, {
+        dtype: 'fp32',
+        device: 'cpu',
+      });
+    }
+    return this.extractor;
+  }
+}
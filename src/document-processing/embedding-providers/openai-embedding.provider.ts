@@ -0,0 +1,56 @@
+import { EmbeddingProvider } from './embedding-provider.interface';
+import { EmbeddingRequestError } from './embedding-request.error';
+
+export interface OpenAiEmbeddingOptions {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  dimension: number;
+}
+
+/**
+ * Calls any server that implements the OpenAI embeddings API
+ */
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly dimension: number;
+
+  constructor(private readonly options: OpenAiEmbeddingOptions) {
+    this.dimension = options.dimension;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(
+      `${this.options.baseUrl.replace(/\/$/, '')}/embeddings`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.options.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          input: texts,
+          // Only the text-embedding-3 family accepts a reduced dimension
+          ...(this.options.model.startsWith('text-embedding-3')
+            ? { dimensions: this.dimension }
+            : {}),
+        }),
+      },
+    ).catch((error) => {
+      // Network-level failures (DNS, reset connections) are transient
+      throw new EmbeddingRequestError(
+        `Embedding request failed: ${error.message}`,
+      );
+    });
+
+    if (!response.ok) {
+      throw await EmbeddingRequestError.fromResponse(response);
+    }
+
+    const data = await response.json();
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
@@ -0,0 +1,69 @@
+import { EmbeddingService } from './embedding.service';
+import { TextChunkerService } from './text-chunker.service';
+import { HashingEmbeddingProvider } from './embedding-providers/hashing-embedding.provider';
+import { EmbeddingProvider } from './embedding-providers/embedding-provider.interface';
+
+describe('EmbeddingService', () => {
+  const service = new EmbeddingService(
+    new TextChunkerService(),
+    new HashingEmbeddingProvider(16),
+  );
+
+  describe('getEmbeddingsForDocuments', () => {
+    it('should tag chunks with the pages they span', async () => {
+      const page1 = 'alpha beta gamma delta';
+      const page2 = 'epsilon zeta eta theta';
+      const content = `${page1}\n\n${page2}`;
+
+      const { vectors, failures } = await service.getEmbeddingsForDocuments(
+        [
+          {
+            id: 'uploads/manual.pdf',
+            content,
+            metadata: {},
+            pages: [
+              { pageNumber: 1, charStart: 0, charEnd: page1.length },
+              {
+                pageNumber: 2,
+                charStart: page1.length + 2,
+                charEnd: content.length,
+              },
+            ],
+          },
+        ],
+        { strategy: 'fixed', chunkSize: 3, chunkOverlap: 0 },
+      );
+
+      expect(failures).toEqual([]);
+      expect(
+        vectors.map(({ metadata }) => [
+          metadata.text,
+          metadata.page_start,
+          metadata.page_end,
+        ]),
+      ).toEqual([
+        ['alpha beta gamma', 1, 1],
+        ['delta\n\nepsilon zeta', 1, 2],
+        ['eta theta', 2, 2],
+      ]);
+    });
+  });
+
+  describe('getEmbedding', () => {
+    it('should embed the text as a query and chunks as documents', async () => {
+      const provider: EmbeddingProvider = new HashingEmbeddingProvider(16);
+      const embed = jest.spyOn(provider, 'embed');
+      const queries = new EmbeddingService(new TextChunkerService(), provider);
+
+      await queries.getEmbedding('How long do refunds take?');
+      await queries.getEmbeddingsForDocuments([
+        { id: 'uploads/refunds.txt', content: 'Refunds', metadata: {} },
+      ]);
+
+      expect(embed.mock.calls.map(([, inputType]) => inputType)).toEqual([
+        'query',
+        'document',
+      ]);
+    });
+  });
+});
@@ -1,78 +1,340 @@
-import { Injectable, Logger } from '@nestjs/common';
-// Example: Import an embedding client like OpenAI
-// import OpenAI from 'openai';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import * as path from 'path';
+import {
+  ChunkOptions,
+  ChunkStrategy,
+  TextChunk,
+  TextChunkerService,
+} from './text-chunker.service';
+import {
+  EMBEDDING_PROVIDER,
+  EmbeddingInputType,
+  EmbeddingProvider,
+} from './embedding-providers/embedding-provider.interface';
+import { EmbeddingRequestError } from './embedding-providers/embedding-request.error';
+import { embeddingPipelineConfig } from '../config/embedding.config';
+import { withRetry } from '../common/utils/retry';
+import { TokenBucket } from '../common/utils/token-bucket';
+import { mapWithConcurrency } from '../common/utils/concurrency';
+import { PageSpan } from './formats/format-handler.interface';
+import { EmbeddingProviderError } from '../common/errors/domain-errors';
+import { sha256 } from '../common/utils/content-hash';
+import { SparseValues } from './sparse/bm25';
+
+export interface EmbeddedVector {
+  id: string;
+  values: number[];
+  sparseValues?: SparseValues; // BM25 terms, when hybrid search is enabled
+  metadata: Record<string, any>;
+}
+
+export interface EmbeddingBatchFailure {
+  batchIndex: number;
+  ids: string[]; // Chunk IDs in the batch that could not be embedded
+  error: string;
+}
+
+export interface DocumentEmbeddingResult {
+  vectors: EmbeddedVector[];
+  failures: EmbeddingBatchFailure[];
+}
+
+export interface PreparedChunk {
+  id: string;
+  text: string;
+  metadata: Record<string, any>;
+  contentHash: string; // Of the text and the provider that would embed it
+  metadataHash: string;
+}
 
 @Injectable()
 export class EmbeddingService {
   private readonly logger = new Logger(EmbeddingService.name);
-  // private openai: OpenAI;
+  // Shared by every caller so concurrent uploads stay within one provider budget
+  private readonly tokenBucket = new TokenBucket(
+    embeddingPipelineConfig.tokensPerMinute,
+  );
 
-  constructor() {
-    // Initialize your embedding model client here
-    // this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  constructor(
+    private readonly textChunker: TextChunkerService,
+    @Inject(EMBEDDING_PROVIDER)
+    private readonly embeddingProvider: EmbeddingProvider,
+  ) {
     this.logger.log(
-      'EmbeddingService initialized. Ensure your embedding model client is configured.',
+      `EmbeddingService initialized with provider '${embeddingProvider.name}' (dimension: ${embeddingProvider.dimension})`,
     );
   }
 
+  get dimension(): number {
+    return this.embeddingProvider.dimension;
+  }
+
+  /**
+   * Embed a search query, as the provider embeds queries rather than documents
+   */
   async getEmbedding(text: string): Promise<number[]> {
     this.logger.log(
       `Generating embedding for text snippet (length: ${text.length})`,
     );
-    // Placeholder: Replace with actual embedding generation logic
-    // Consider chunking text if it's too long for your model
     if (!text || text.trim().length === 0) {
       this.logger.warn('Cannot generate embedding for empty text.');
       return [];
     }
     try {
-      // Example with OpenAI (ensure you have the 'openai' package installed and configured):
-      // const response = await this.openai.embeddings.create({
-      //   model: 'text-embedding-ada-002', // Or your preferred model
-      //   input: text,
-      // });
-      // const embedding = response.data[0].embedding;
-      // this.logger.log(`Successfully generated embedding (dimension: ${embedding.length})`);
-      // return embedding;
-
-      // Placeholder implementation:
-      this.logger.warn(
-        'Using placeholder embedding generation. Implement with a real embedding model.',
-      );
-      // This is a dummy embedding, replace with actual model output
-      // The dimension (e.g., 1536 for text-embedding-ada-002) must match your Pinecone index
-      const placeholderDimension = 1536; // Adjust to your model's dimension
-      return Array(placeholderDimension)
-        .fill(0)
-        .map(() => Math.random());
+      const [embedding] = await this.embedBatch([text], 'query');
+      return embedding;
     } catch (error) {
       this.logger.error('Error generating embedding:', error);
       throw error;
     }
   }
 
+  /**
+   * Chunk each document and embed the chunks in batches
+   * @param documents Parsed documents; the ID is used as the prefix for chunk IDs.
+   * Documents with page spans get `page_start`/`page_end` on every chunk
+   * @param chunkOptions Overrides for the configured chunking strategy and sizes
+   * @returns One vector per chunk, with IDs of the form `<documentId>#chunk-<n>`,
+   * plus the batches that still failed after retries
+   */
   async getEmbeddingsForDocuments(
     documents: Array<{
       id: string;
       content: string;
       metadata: Record<string, any>;
+      pages?: PageSpan[];
     }>,
-  ): Promise<
-    Array<{ id: string; values: number[]; metadata: Record<string, any> }>
-  > {
-    const embeddedDocs = [];
-    for (const doc of documents) {
-      // Text chunking might be necessary here for large documents
-      // For simplicity, we embed the whole content.
-      const embedding = await this.getEmbedding(doc.content);
-      if (embedding && embedding.length > 0) {
-        embeddedDocs.push({
-          id: doc.id, // Ensure this ID is unique for Pinecone
-          values: embedding,
-          metadata: doc.metadata,
+    chunkOptions: ChunkOptions = {},
+  ): Promise<DocumentEmbeddingResult> {
+    return this.embedChunks(
+      documents.flatMap((doc) => this.prepareChunks(doc, chunkOptions)),
+    );
+  }
+
+  /**
+   * Chunk a document without embedding it, so callers can decide which chunks need embedding
+   * @param doc A parsed document; the ID is used as the prefix for chunk IDs
+   * @param chunkOptions Overrides for the configured chunking strategy and sizes
+   * @returns The chunks getEmbeddingsForDocuments would embed, with their hashes
+   */
+  prepareChunks(
+    doc: {
+      id: string;
+      content: string;
+      metadata: Record<string, any>;
+      pages?: PageSpan[];
+    },
+    chunkOptions: ChunkOptions = {},
+  ): PreparedChunk[] {
+    const chunks = this.textChunker.chunk(doc.content, {
+      ...chunkOptions,
+      strategy: chunkOptions.strategy ?? this.defaultStrategyFor(doc),
+    });
+    this.logger.log(`Prepared ${chunks.length} chunks for ${doc.id}`);
+    return chunks.map((chunk) => this.toPreparedChunk(doc, chunk));
+  }
+
+  /**
+   * Chunk a document that arrives line by line, without embedding it
+   * @param document The streamed document; the ID is used as the prefix for chunk IDs
+   * @param chunkOptions Overrides for the configured chunking strategy and sizes
+   * @returns Up to batchSize × concurrency chunks per iteration, enough to keep
+   * the provider busy, with the same IDs prepareChunks would give them
+   */
+  async *prepareChunkStream(
+    document: {
+      id: string;
+      lines: AsyncIterable<string>;
+      metadata: Record<string, any>;
+    },
+    chunkOptions: ChunkOptions = {},
+  ): AsyncGenerator<PreparedChunk[]> {
+    const groupSize =
+      Math.max(embeddingPipelineConfig.batchSize, 1) *
+      Math.max(embeddingPipelineConfig.concurrency, 1);
+    const chunks = this.textChunker.chunkStream(document.lines, {
+      ...chunkOptions,
+      strategy: chunkOptions.strategy ?? this.defaultStrategyFor(document),
+    });
+
+    let group: PreparedChunk[] = [];
+    for await (const chunk of chunks) {
+      group.push(this.toPreparedChunk(document, chunk));
+      if (group.length >= groupSize) {
+        yield group;
+        group = [];
+      }
+    }
+    if (group.length > 0) {
+      yield group;
+    }
+  }
+
+  private toPreparedChunk(
+    doc: { id: string; metadata: Record<string, any>; pages?: PageSpan[] },
+    chunk: TextChunk,
+  ): PreparedChunk {
+    const metadata = {
+      ...doc.metadata,
+      document_id: doc.id,
+      chunk_index: chunk.index,
+      char_start: chunk.charStart,
+      char_end: chunk.charEnd,
+      text: chunk.text,
+      ...this.pageRange(doc.pages, chunk.charStart, chunk.charEnd),
+    };
+    const { name, dimension } = this.embeddingProvider;
+    return {
+      id: `${doc.id}#chunk-${chunk.index}`, // Stable across re-ingestion of the same document
+      text: chunk.text,
+      metadata,
+      contentHash: sha256(`${name}:${dimension}\n${chunk.text}`),
+      metadataHash: sha256(JSON.stringify(metadata)),
+    };
+  }
+
+  /**
+   * Embed prepared chunks in batches, several batches in flight at once
+   */
+  async embedChunks(
+    pending: PreparedChunk[],
+  ): Promise<DocumentEmbeddingResult> {
+    const batchSize = Math.max(embeddingPipelineConfig.batchSize, 1);
+    const batches: PreparedChunk[][] = [];
+    for (let i = 0; i < pending.length; i += batchSize) {
+      batches.push(pending.slice(i, i + batchSize));
+    }
+
+    this.logger.log(
+      `Embedding ${pending.length} chunks in ${batches.length} batches (concurrency: ${embeddingPipelineConfig.concurrency})`,
+    );
+
+    const result: DocumentEmbeddingResult = { vectors: [], failures: [] };
+    const batchResults = await mapWithConcurrency(
+      batches,
+      embeddingPipelineConfig.concurrency,
+      async (batch, batchIndex) => {
+        try {
+          const embeddings = await this.embedBatch(
+            batch.map((item) => item.text),
+          );
+          return { batch, batchIndex, embeddings };
+        } catch (error) {
+          this.logger.error(
+            `Embedding batch ${batchIndex} (${batch.length} chunks) failed: ${error.message}`,
+          );
+          return { batch, batchIndex, error };
+        }
+      },
+    );
+
+    for (const { batch, batchIndex, embeddings, error } of batchResults) {
+      if (error) {
+        result.failures.push({
+          batchIndex,
+          ids: batch.map((item) => item.id),
+          error: error.message,
         });
+        continue;
       }
+      batch.forEach((item, i) =>
+        result.vectors.push({
+          id: item.id,
+          values: embeddings[i],
+          metadata: item.metadata,
+        }),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * The first and last page a chunk's characters fall on
+   */
+  private pageRange(
+    pages: PageSpan[] | undefined,
+    charStart: number,
+    charEnd: number,
+  ): { page_start?: number; page_end?: number } {
+    const overlapping = (pages ?? []).filter(
+      (page) => page.charStart < charEnd && page.charEnd > charStart,
+    );
+    if (overlapping.length === 0) {
+      return {};
     }
-    return embeddedDocs;
+    return {
+      page_start: overlapping[0].pageNumber,
+      page_end: overlapping[overlapping.length - 1].pageNumber,
+    };
+  }
+
+  /**
+   * Embed one provider request worth of texts, throttled to the configured
+   * token budget and retried with backoff on rate limits and transient errors
+   * @param inputType query for search queries, document for chunks being indexed
+   * @throws EmbeddingProviderError once retries are exhausted or the response is malformed
+   */
+  private async embedBatch(
+    texts: string[],
+    inputType: EmbeddingInputType = 'document',
+  ): Promise<number[][]> {
+    const provider = this.embeddingProvider.name;
+    const tokens = texts.reduce(
+      (sum, text) => sum + this.textChunker.countTokens(text),
+      0,
+    );
+
+    const embeddings = await withRetry(
+      async () => {
+        await this.tokenBucket.acquire(tokens);
+        return this.embeddingProvider.embed(texts, inputType);
+      },
+      {
+        maxRetries: embeddingPipelineConfig.maxRetries,
+        baseDelayMs: embeddingPipelineConfig.retryBaseDelayMs,
+        maxDelayMs: embeddingPipelineConfig.retryMaxDelayMs,
+        isRetryable: (error) =>
+          error instanceof EmbeddingRequestError && error.retryable,
+        retryAfterMs: (error) => error.retryAfterMs,
+        onRetry: (error, attempt, delayMs) =>
+          this.logger.warn(
+            `Embedding request failed (${error.message}), retry ${attempt} in ${delayMs}ms`,
+          ),
+      },
+    ).catch((error) => {
+      throw new EmbeddingProviderError(
+        provider,
+        error.message,
+        error instanceof EmbeddingRequestError ? error.status : undefined,
+      );
+    });
+
+    if (embeddings?.length !== texts.length) {
+      throw new EmbeddingProviderError(
+        provider,
+        `returned ${embeddings?.length} vectors for ${texts.length} texts`,
+      );
+    }
+    const malformed = embeddings.findIndex(
+      (embedding) => embedding?.length !== this.embeddingProvider.dimension,
+    );
+    if (malformed !== -1) {
+      throw new EmbeddingProviderError(
+        provider,
+        `returned dimension ${embeddings[malformed]?.length}, expected ${this.embeddingProvider.dimension}`,
+      );
+    }
+    return embeddings;
+  }
+
+  private defaultStrategyFor(doc: {
+    metadata: Record<string, any>;
+  }): ChunkStrategy | undefined {
+    // CSV rows are serialized one per line, so group whole rows rather than cutting through them
+    const source: string = doc.metadata?.source ?? '';
+    const format = doc.metadata?.doc_type ?? doc.metadata?.format;
+    return format === 'csv' || path.extname(source).toLowerCase() === '.csv'
+      ? 'csv-rows'
+      : undefined;
   }
 }
@@ -0,0 +1,38 @@
+import { FormatHandler } from './format-handler.interface';
+import { PdfFormatHandler } from './pdf.handler';
+import { DocxFormatHandler } from './docx.handler';
+import { XlsxFormatHandler } from './xlsx.handler';
+import { PptxFormatHandler } from './pptx.handler';
+import { HtmlFormatHandler } from './html.handler';
+import { CsvFormatHandler } from './csv.handler';
+import { JsonFormatHandler } from './json.handler';
+import { JsonlFormatHandler } from './jsonl.handler';
+import { MarkdownFormatHandler } from './markdown.handler';
+import { TextFormatHandler } from './text.handler';
+import { ImageFormatHandler } from './image.handler';
+import { OcrEngine } from '../ocr/ocr-engine.interface';
+
+export interface DefaultFormatOptions {
+  ocrEngine?: OcrEngine; // Images are only supported when OCR is available
+  minCharsPerPage?: number; // PDF pages with less extracted text are OCR'd
+}
+
+// Handlers that can sniff their format from content come first
+export function createDefaultFormatHandlers(
+  options: DefaultFormatOptions = {},
+): FormatHandler[] {
+  const { ocrEngine, minCharsPerPage } = options;
+  return [
+    new PdfFormatHandler(ocrEngine, minCharsPerPage),
+    ...(ocrEngine ? [new ImageFormatHandler(ocrEngine)] : []),
+    new DocxFormatHandler(),
+    new XlsxFormatHandler(),
+    new PptxFormatHandler(),
+    new HtmlFormatHandler(),
+    new CsvFormatHandler(),
+    new JsonFormatHandler(),
+    new JsonlFormatHandler(),
+    new MarkdownFormatHandler(),
+    new TextFormatHandler(),
+  ];
+}
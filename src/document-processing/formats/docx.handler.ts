@@ -0,0 +1,36 @@
+import { Logger } from '@nestjs/common';
+import * as mammoth from 'mammoth';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { extractHtml } from './html-extraction';
+import { isOoxmlPackage } from './ooxml';
+
+export class DocxFormatHandler implements FormatHandler {
+  readonly format = 'docx';
+  readonly extensions = ['.docx'];
+  readonly contentTypes = [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ];
+  private readonly logger = new Logger(DocxFormatHandler.name);
+
+  sniff(data: Buffer): boolean {
+    return isOoxmlPackage(data, 'word/document.xml');
+  }
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    // Going through HTML keeps Word heading styles, tables and hyperlinks
+    const { value: html, messages } = await mammoth.convertToHtml({
+      buffer: data,
+    });
+    if (messages.length > 0) {
+      this.logger.warn(
+        `DOCX converted with ${messages.length} warnings: ${messages
+          .slice(0, 5)
+          .map((message) => message.message)
+          .join('; ')}`,
+      );
+    }
+
+    const { text, headings, links } = extractHtml(html);
+    return { content: text, metadata: { headings, links } };
+  }
+}
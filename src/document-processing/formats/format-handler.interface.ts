@@ -0,0 +1,29 @@
+import { Readable } from 'stream';
+
+export interface PageSpan {
+  pageNumber: number; // 1-based
+  charStart: number; // Offset into the parsed content, inclusive
+  charEnd: number; // Offset into the parsed content, exclusive
+}
+
+export interface FormatParseResult {
+  content: string;
+  metadata: Record<string, any>; // Merged into the document metadata
+  pages?: PageSpan[]; // For paginated formats, where each page sits in the content
+}
+
+/**
+ * Parses one document format. Register new formats with
+ * DocumentParserService.registerFormat instead of editing the parser.
+ */
+export interface FormatHandler {
+  readonly format: string;
+  readonly extensions: string[]; // Lower-case, with the leading dot
+  readonly contentTypes: string[];
+  // Recognize the format from its bytes alone; the strongest detection signal
+  sniff?(data: Buffer): boolean;
+  parse(data: Buffer, fileName: string): Promise<FormatParseResult>;
+  // For line-oriented formats: yield the content one line at a time without
+  // holding the file in memory. Joined with '\n', the lines make up the content.
+  parseStream?(stream: Readable, fileName: string): AsyncIterable<string>;
+}
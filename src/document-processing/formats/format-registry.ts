@@ -0,0 +1,66 @@
+import * as path from 'path';
+import { FormatHandler } from './format-handler.interface';
+
+export class FormatRegistry {
+  private readonly handlers: FormatHandler[] = [];
+
+  constructor(handlers: FormatHandler[] = []) {
+    handlers.forEach((handler) => this.register(handler));
+  }
+
+  /**
+   * Add a handler. A handler registered for a format that already exists replaces it.
+   */
+  register(handler: FormatHandler) {
+    const existing = this.handlers.findIndex(
+      (h) => h.format === handler.format,
+    );
+    if (existing === -1) {
+      this.handlers.push(handler);
+    } else {
+      this.handlers[existing] = handler;
+    }
+  }
+
+  get formats(): string[] {
+    return this.handlers.map((handler) => handler.format);
+  }
+
+  get extensions(): string[] {
+    return this.handlers.flatMap((handler) => handler.extensions);
+  }
+
+  /**
+   * Pick a handler from the file's content, then its extension, then the
+   * reported content type. Storage backends often report a generic type such
+   * as application/octet-stream, so the content type is the weakest signal.
+   */
+  detect(
+    data: Buffer,
+    fileName: string,
+    contentType?: string,
+  ): FormatHandler | undefined {
+    const sniffed = this.handlers.find((handler) => handler.sniff?.(data));
+    return sniffed ?? this.detectByName(fileName, contentType);
+  }
+
+  /**
+   * Pick a handler without looking at the content, for files that are not in memory
+   */
+  detectByName(
+    fileName: string,
+    contentType?: string,
+  ): FormatHandler | undefined {
+    const extension = path.extname(fileName).toLowerCase();
+    const byExtension = this.handlers.find((handler) =>
+      handler.extensions.includes(extension),
+    );
+    if (byExtension) {
+      return byExtension;
+    }
+    const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+    return this.handlers.find((handler) =>
+      handler.contentTypes.includes(mimeType),
+    );
+  }
+}
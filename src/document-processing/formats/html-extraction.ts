@@ -0,0 +1,135 @@
+import * as cheerio from 'cheerio';
+import { normalizeWhitespace } from './text-decoding';
+
+export interface ExtractedHtml {
+  text: string;
+  title?: string;
+  headings: string[];
+  links: string[];
+}
+
+// Never part of the readable content
+const SKIPPED_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'head',
+]);
+
+// Site chrome rather than content, unless part of an article or section
+const PAGE_CHROME_TAGS = new Set(['header', 'footer', 'aside']);
+const PAGE_CHROME_ROLES = new Set([
+  'navigation',
+  'banner',
+  'contentinfo',
+  'complementary',
+  'search',
+]);
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'br',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'td',
+  'th',
+  'tr',
+  'ul',
+]);
+
+/**
+ * Turn an HTML document into readable text, keeping block boundaries as line
+ * breaks, and collect its title, headings and outbound links. For web pages
+ * only the main content is kept: the <main> element, or the only <article>,
+ * if there is one, and never navigation, banners or sidebars.
+ */
+export function extractHtml(html: string): ExtractedHtml {
+  const $ = cheerio.load(html);
+  const parts: string[] = [];
+  const main = $('main, [role="main"]').first();
+  const articles = $('article');
+  const content: cheerio.Cheerio<any> = main.length
+    ? main
+    : articles.length === 1
+      ? articles
+      : $.root();
+  const isChrome = (node: any, tag: string) =>
+    tag === 'nav' ||
+    PAGE_CHROME_ROLES.has(node.attribs?.role) ||
+    (PAGE_CHROME_TAGS.has(tag) &&
+      $(node).parents('article, section, main').length === 0);
+  const inContent = (el: any) =>
+    ![el, ...$(el).parents().get()].some((node: any) =>
+      isChrome(node, node.name?.toLowerCase()),
+    );
+
+  const walk = (node: any) => {
+    if (node.type === 'text') {
+      parts.push(node.data);
+      return;
+    }
+    if (node.type !== 'tag' && node.type !== 'root') {
+      return;
+    }
+    const tag = node.name?.toLowerCase();
+    if (SKIPPED_TAGS.has(tag) || (tag && isChrome(node, tag))) {
+      return;
+    }
+    const block = BLOCK_TAGS.has(tag);
+    if (block) parts.push('\n');
+    if (tag === 'td' || tag === 'th') parts.push(' | ');
+    (node.children ?? []).forEach(walk);
+    if (block) parts.push('\n');
+  };
+  walk(content[0]);
+
+  const headings = content
+    .find('h1, h2, h3, h4, h5, h6')
+    .filter((_, el) => inContent(el))
+    .map((_, el) => normalizeWhitespace($(el).text()))
+    .get()
+    .filter((heading) => heading.length > 0);
+
+  const links = [
+    ...new Set(
+      content
+        .find('a[href]')
+        .filter((_, el) => inContent(el))
+        .map((_, el) => $(el).attr('href')?.trim())
+        .get()
+        .filter((href) => /^(https?:|mailto:)/i.test(href)),
+    ),
+  ];
+
+  const title = normalizeWhitespace($('title').first().text()) || undefined;
+
+  return { text: normalizeWhitespace(parts.join('')), title, headings, links };
+}
@@ -0,0 +1,22 @@
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { decodeText } from './text-decoding';
+import { extractHtml } from './html-extraction';
+
+export class HtmlFormatHandler implements FormatHandler {
+  readonly format = 'html';
+  readonly extensions = ['.html', '.htm', '.xhtml'];
+  readonly contentTypes = ['text/html', 'application/xhtml+xml'];
+
+  sniff(data: Buffer): boolean {
+    const head = decodeText(data.subarray(0, 512)).trimStart().toLowerCase();
+    return head.startsWith('<!doctype html') || head.startsWith('<html');
+  }
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const { text, title, headings, links } = extractHtml(decodeText(data));
+    return {
+      content: text,
+      metadata: { ...(title ? { title } : {}), headings, links },
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { Logger } from '@nestjs/common';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { OcrEngine } from '../ocr/ocr-engine.interface';
+import { ocrMetadata, ocrTextToLines } from '../ocr/ocr-results';
+
+const MAGIC_NUMBERS = [
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), // PNG
+  Buffer.from([0xff, 0xd8, 0xff]), // JPEG
+  Buffer.from([0x49, 0x49, 0x2a, 0x00]), // TIFF, little-endian
+  Buffer.from([0x4d, 0x4d, 0x00, 0x2a]), // TIFF, big-endian
+];
+
+/**
+ * Scanned pages and photos, read through OCR
+ */
+export class ImageFormatHandler implements FormatHandler {
+  readonly format = 'image';
+  readonly extensions = ['.png', '.jpg', '.jpeg', '.tif', '.tiff'];
+  readonly contentTypes = ['image/png', 'image/jpeg', 'image/tiff'];
+  private readonly logger = new Logger(ImageFormatHandler.name);
+
+  constructor(private readonly ocrEngine: OcrEngine) {}
+
+  sniff(data: Buffer): boolean {
+    return MAGIC_NUMBERS.some((magic) =>
+      data.subarray(0, magic.length).equals(magic),
+    );
+  }
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const result = await this.ocrEngine.recognize(data);
+    const content = ocrTextToLines(result.text)
+      .map((line) => line.text)
+      .join('\n');
+
+    this.logger.log(
+      `Recognized ${content.length} characters with ${this.ocrEngine.name} (confidence: ${result.confidence})`,
+    );
+    return { content, metadata: ocrMetadata([result]) };
+  }
+}
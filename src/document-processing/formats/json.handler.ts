@@ -0,0 +1,22 @@
+import { Logger } from '@nestjs/common';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { decodeText } from './text-decoding';
+
+export class JsonFormatHandler implements FormatHandler {
+  readonly format = 'json';
+  readonly extensions = ['.json'];
+  readonly contentTypes = ['application/json'];
+  private readonly logger = new Logger(JsonFormatHandler.name);
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const content = decodeText(data);
+    try {
+      const jsonData = JSON.parse(content);
+      // You might want to flatten the JSON or extract key text fields
+      return { content: JSON.stringify(jsonData), metadata: {} };
+    } catch (jsonError) {
+      this.logger.error(`Error parsing JSON content: ${jsonError.message}`);
+      return { content, metadata: {} }; // Fallback to raw content
+    }
+  }
+}
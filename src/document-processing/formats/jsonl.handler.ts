@@ -0,0 +1,50 @@
+import { Readable } from 'stream';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { decodeText, readLines } from './text-decoding';
+
+/**
+ * JSON Lines: one JSON value per line, each kept on its own line so the
+ * records can be chunked and streamed like CSV rows
+ */
+export class JsonlFormatHandler implements FormatHandler {
+  readonly format = 'jsonl';
+  readonly extensions = ['.jsonl', '.ndjson'];
+  readonly contentTypes = [
+    'application/x-ndjson',
+    'application/jsonl',
+    'application/x-jsonlines',
+  ];
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const records = decodeText(data)
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0)
+      .map((line) => this.normalizeRecord(line));
+
+    const invalidLines = records.filter((record) => !record.valid).length;
+    return {
+      content: records.map((record) => record.text).join('\n'),
+      metadata: {
+        recordCount: records.length,
+        ...(invalidLines > 0 ? { invalidLines } : {}),
+      },
+    };
+  }
+
+  async *parseStream(stream: Readable): AsyncGenerator<string> {
+    for await (const line of readLines(stream)) {
+      if (line.trim().length > 0) {
+        yield this.normalizeRecord(line).text;
+      }
+    }
+  }
+
+  // Re-serialize compactly; lines that are not valid JSON are kept as they are
+  private normalizeRecord(line: string): { text: string; valid: boolean } {
+    try {
+      return { text: JSON.stringify(JSON.parse(line)), valid: true };
+    } catch {
+      return { text: line.trim(), valid: false };
+    }
+  }
+}
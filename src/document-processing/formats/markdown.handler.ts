@@ -0,0 +1,86 @@
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { decodeText, normalizeWhitespace } from './text-decoding';
+
+const LINK_PATTERN = /!?\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Strips Markdown syntax down to the readable text while keeping headings on
+ * their own lines, and collects headings and links as metadata
+ */
+export class MarkdownFormatHandler implements FormatHandler {
+  readonly format = 'markdown';
+  readonly extensions = ['.md', '.markdown', '.mdx'];
+  readonly contentTypes = ['text/markdown', 'text/x-markdown'];
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const lines = decodeText(data).replace(/\r\n?/g, '\n').split('\n');
+    const headings: string[] = [];
+    const links = new Set<string>();
+    const output: string[] = [];
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence; // Keep code, drop the fence markers
+        continue;
+      }
+      if (inFence) {
+        output.push(line);
+        continue;
+      }
+
+      const atx = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+      // Setext headings are underlined on the following line
+      const setext =
+        line.trim().length > 0 &&
+        /^\s{0,3}(=+|-+)\s*$/.test(lines[i + 1] ?? '');
+      if (atx || setext) {
+        const heading = this.stripInline(atx ? atx[1] : line, links);
+        headings.push(heading);
+        output.push('', heading, '');
+        if (setext) i++;
+        continue;
+      }
+
+      if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+        output.push(''); // Thematic break
+        continue;
+      }
+
+      output.push(
+        this.stripInline(
+          line
+            .replace(/^\s{0,3}>\s?/, '') // Blockquote marker
+            .replace(/^(\s*)([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '$1'), // List markers and task boxes
+          links,
+        ),
+      );
+    }
+
+    return {
+      content: normalizeWhitespace(output.join('\n')),
+      metadata: { headings, links: [...links] },
+    };
+  }
+
+  private stripInline(text: string, links: Set<string>): string {
+    return text
+      .replace(LINK_PATTERN, (_, label: string, href: string) => {
+        if (/^(https?:|mailto:)/i.test(href)) {
+          links.add(href);
+        }
+        return label;
+      })
+      .replace(/<(https?:\/\/[^>]+)>/g, (_, href: string) => {
+        links.add(href);
+        return href;
+      })
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/<\/?[a-z][^>]*>/gi, ''); // Inline HTML tags
+  }
+}
@@ -0,0 +1,13 @@
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * Office Open XML files (DOCX, XLSX, PPTX) are zip archives. Entry names are
+ * stored uncompressed, so the archive's main part identifies the format
+ * without unzipping it.
+ */
+export function isOoxmlPackage(data: Buffer, mainPart: string): boolean {
+  return (
+    data.subarray(0, 4).equals(ZIP_MAGIC) &&
+    data.includes(Buffer.from(mainPart))
+  );
+}
@@ -0,0 +1,206 @@
+import { PageSpan } from './format-handler.interface';
+
+/**
+ * A text run as reported by pdf.js getTextContent
+ */
+export interface PdfTextItem {
+  str: string;
+  transform: number[]; // [scaleX, skewY, skewX, scaleY, x, y]
+  width: number;
+}
+
+export interface PdfLine {
+  text: string;
+  fontSize: number;
+  cells: number; // More than one when the line has column-sized gaps
+}
+
+export interface PdfLayout {
+  content: string;
+  pages: PageSpan[];
+  headings: string[];
+  tableCount: number;
+  strippedLines: string[]; // Repeated headers and footers that were removed
+}
+
+// Items whose baselines differ by less than this fraction of the font size share a line
+const SAME_LINE_TOLERANCE = 0.4;
+// A horizontal gap wider than this many font sizes separates table cells
+const CELL_GAP = 1.5;
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+// Lines repeated at the top or bottom of at least this share of pages are running headers or footers
+const BOILERPLATE_PAGE_SHARE = 0.6;
+const MIN_PAGES_FOR_BOILERPLATE = 3;
+const BOILERPLATE_EDGE_LINES = 2;
+
+/**
+ * Group a page's text runs into visual lines, top to bottom
+ */
+export function buildLines(items: PdfTextItem[]): PdfLine[] {
+  const runs = items
+    .filter((item) => item.str.length > 0)
+    .map((item) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      fontSize: Math.hypot(item.transform[2], item.transform[3]) || 1,
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const groups: Array<typeof runs> = [];
+  for (const run of runs) {
+    const group = groups[groups.length - 1];
+    if (
+      group &&
+      Math.abs(group[0].y - run.y) < group[0].fontSize * SAME_LINE_TOLERANCE
+    ) {
+      group.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+
+  return groups
+    .map((group) => {
+      group.sort((a, b) => a.x - b.x);
+      const fontSize = Math.max(...group.map((run) => run.fontSize));
+      let text = '';
+      let cells = 1;
+      let end: number | null = null;
+      for (const run of group) {
+        if (end !== null) {
+          const gap = run.x - end;
+          if (gap > fontSize * CELL_GAP) {
+            text += ' | ';
+            cells++;
+          } else if (gap > fontSize * 0.15 && !/\s$/.test(text)) {
+            text += ' ';
+          }
+        }
+        text += run.text;
+        end = run.x + run.width;
+      }
+      return { text: text.replace(/\s+/g, ' ').trim(), fontSize, cells };
+    })
+    .filter((line) => line.text.length > 0);
+}
+
+/**
+ * Turn per-page lines into document text, dropping running headers and
+ * footers, setting headings apart and recording where each page starts
+ */
+export function assemblePages(pages: PdfLine[][]): PdfLayout {
+  const boilerplate = findBoilerplate(pages);
+  const bodySize = dominantFontSize(pages);
+
+  const headings: string[] = [];
+  const strippedLines = new Set<string>();
+  const spans: PageSpan[] = [];
+  let content = '';
+  let tableCount = 0;
+
+  pages.forEach((lines, pageIndex) => {
+    const kept = lines.filter((line, lineIndex) => {
+      const atEdge =
+        lineIndex < BOILERPLATE_EDGE_LINES ||
+        lineIndex >= lines.length - BOILERPLATE_EDGE_LINES;
+      if (atEdge && boilerplate.has(normalizeBoilerplate(line.text))) {
+        strippedLines.add(line.text);
+        return false;
+      }
+      return true;
+    });
+
+    const blocks: string[] = [];
+    let inTable = false;
+    for (const line of kept) {
+      const isHeading =
+        line.fontSize >= bodySize * HEADING_SIZE_RATIO &&
+        line.cells === 1 &&
+        line.text.length <= MAX_HEADING_LENGTH &&
+        !/[.,;:]$/.test(line.text);
+      const isTableRow = line.cells > 1;
+
+      if (isHeading) {
+        headings.push(line.text);
+        blocks.push(`\n${line.text}\n`);
+      } else {
+        if (isTableRow && !inTable) {
+          tableCount++;
+        }
+        blocks.push(line.text);
+      }
+      inTable = isTableRow;
+    }
+
+    const pageText = blocks
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    if (content.length > 0) {
+      content += '\n\n';
+    }
+    const charStart = content.length;
+    content += pageText;
+    spans.push({
+      pageNumber: pageIndex + 1,
+      charStart,
+      charEnd: content.length,
+    });
+  });
+
+  return {
+    content,
+    pages: spans,
+    headings,
+    tableCount,
+    strippedLines: [...strippedLines],
+  };
+}
+
+function findBoilerplate(pages: PdfLine[][]): Set<string> {
+  if (pages.length < MIN_PAGES_FOR_BOILERPLATE) {
+    return new Set();
+  }
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set(
+      [
+        ...lines.slice(0, BOILERPLATE_EDGE_LINES),
+        ...lines.slice(-BOILERPLATE_EDGE_LINES),
+      ].map((line) => normalizeBoilerplate(line.text)),
+    );
+    edges.forEach((text) => counts.set(text, (counts.get(text) ?? 0) + 1));
+  }
+  const threshold = Math.max(2, pages.length * BOILERPLATE_PAGE_SHARE);
+  return new Set(
+    [...counts].filter(([, count]) => count >= threshold).map(([text]) => text),
+  );
+}
+
+// Page numbers change from page to page, so compare headers and footers without digits
+function normalizeBoilerplate(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+function dominantFontSize(pages: PdfLine[][]): number {
+  const weights = new Map<number, number>();
+  for (const line of pages.flat()) {
+    if (line.fontSize <= 0) {
+      continue; // OCR'd lines carry no font size
+    }
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best || 1;
+}
@@ -0,0 +1,132 @@
+import { Logger } from '@nestjs/common';
+import * as pdfParse from 'pdf-parse';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { PdfLine, assemblePages, buildLines } from './pdf-layout';
+import { OcrEngine, OcrResult } from '../ocr/ocr-engine.interface';
+import { extractPageImages } from '../ocr/pdf-page-images';
+import { ocrMetadata, ocrTextToLines } from '../ocr/ocr-results';
+
+const PDF_MAGIC = Buffer.from('%PDF-');
+
+export class PdfFormatHandler implements FormatHandler {
+  readonly format = 'pdf';
+  readonly extensions = ['.pdf'];
+  readonly contentTypes = ['application/pdf'];
+  private readonly logger = new Logger(PdfFormatHandler.name);
+
+  /**
+   * @param ocrEngine Used for pages whose text layer is missing, as in scans
+   * @param minCharsPerPage Pages with fewer extracted characters are OCR'd
+   */
+  constructor(
+    private readonly ocrEngine?: OcrEngine,
+    private readonly minCharsPerPage = 0,
+  ) {}
+
+  sniff(data: Buffer): boolean {
+    return data.subarray(0, 1024).includes(PDF_MAGIC); // The header may follow a few junk bytes
+  }
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const pageLines = new Map<number, PdfLine[]>();
+    const ocrResults: OcrResult[] = [];
+
+    try {
+      // pdf.js reads the underlying ArrayBuffer from offset 0, which breaks on
+      // pooled Buffers that are a slice of a larger allocation, so pass a copy
+      const pdfData = await pdfParse(new Uint8Array(data), {
+        // Keep each page's positioned text so page boundaries and layout survive
+        pagerender: async (pageData) => {
+          const pageNumber = pageData.pageIndex + 1;
+          const textContent = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false,
+          });
+          let lines = buildLines(textContent.items);
+
+          if (this.needsOcr(lines)) {
+            const ocr = await this.ocrPage(pageData, pageNumber);
+            if (ocr && ocr.text.trim().length > charCount(lines)) {
+              ocrResults.push(ocr);
+              lines = ocrTextToLines(ocr.text);
+            }
+          }
+
+          pageLines.set(pageNumber, lines);
+          return lines.map((line) => line.text).join('\n');
+        },
+      });
+
+      // Pages pdf.js failed to render stay in place as empty pages
+      const pages = Array.from(
+        { length: pdfData.numpages },
+        (_, i) => pageLines.get(i + 1) ?? [],
+      );
+      const layout = assemblePages(pages);
+
+      this.logger.log(
+        `Successfully parsed PDF content. Extracted ${layout.content.length} characters from ${pdfData.numpages} pages (${layout.headings.length} headings, ${layout.tableCount} tables, ${layout.strippedLines.length} repeated header/footer lines removed, ${ocrResults.length} pages OCR'd).`,
+      );
+      // Add additional metadata from the PDF
+      return {
+        content: layout.content,
+        metadata: {
+          pageCount: pdfData.numpages,
+          info: pdfData.info,
+          headings: layout.headings,
+          tableCount: layout.tableCount,
+          ...(ocrResults.length > 0
+            ? { ...ocrMetadata(ocrResults), ocrPageCount: ocrResults.length }
+            : {}),
+        },
+        pages: layout.pages,
+      };
+    } catch (pdfError) {
+      this.logger.error(
+        `Error parsing PDF content: ${pdfError.message}`,
+        pdfError.stack,
+      );
+      throw new Error(`Failed to parse PDF content: ${pdfError.message}`);
+    }
+  }
+
+  private needsOcr(lines: PdfLine[]): boolean {
+    return !!this.ocrEngine && charCount(lines) < this.minCharsPerPage;
+  }
+
+  /**
+   * OCR the images painted on a page and join their text, or return null when
+   * the page has no images or OCR fails; the extracted text layer is kept then
+   */
+  private async ocrPage(
+    pageData: any,
+    pageNumber: number,
+  ): Promise<OcrResult | null> {
+    try {
+      const images = await extractPageImages(pageData);
+      if (images.length === 0) {
+        return null;
+      }
+      this.logger.log(
+        `Page ${pageNumber} has little extractable text, running OCR on ${images.length} images`,
+      );
+      const results: OcrResult[] = [];
+      for (const image of images) {
+        results.push(await this.ocrEngine.recognize(image));
+      }
+      const { ocrConfidence, ocrLanguage } = ocrMetadata(results);
+      return {
+        text: results.map((result) => result.text.trim()).join('\n'),
+        confidence: ocrConfidence,
+        language: ocrLanguage,
+      };
+    } catch (error) {
+      this.logger.warn(`OCR failed for page ${pageNumber}: ${error.message}`);
+      return null;
+    }
+  }
+}
+
+function charCount(lines: PdfLine[]): number {
+  return lines.reduce((sum, line) => sum + line.text.length, 0);
+}
@@ -0,0 +1,95 @@
+import * as JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { isOoxmlPackage } from './ooxml';
+import { normalizeWhitespace } from './text-decoding';
+
+const SLIDE_PATH = /^ppt\/slides\/slide(\d+)\.xml$/;
+
+/**
+ * Each slide becomes a `Slide <n>: <title>` line followed by its text and
+ * speaker notes, in presentation order
+ */
+export class PptxFormatHandler implements FormatHandler {
+  readonly format = 'pptx';
+  readonly extensions = ['.pptx'];
+  readonly contentTypes = [
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ];
+
+  sniff(data: Buffer): boolean {
+    return isOoxmlPackage(data, 'ppt/presentation.xml');
+  }
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const zip = await JSZip.loadAsync(data);
+    const slideNumbers = Object.keys(zip.files)
+      .map((name) => name.match(SLIDE_PATH))
+      .filter(Boolean)
+      .map((match) => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+
+    const sections: string[] = [];
+    const headings: string[] = [];
+    const links = new Set<string>();
+
+    for (const slideNumber of slideNumbers) {
+      const paragraphs = this.paragraphs(
+        await zip.file(`ppt/slides/slide${slideNumber}.xml`).async('string'),
+      );
+      const notes = await zip
+        .file(`ppt/notesSlides/notesSlide${slideNumber}.xml`)
+        ?.async('string');
+      const rels = await zip
+        .file(`ppt/slides/_rels/slide${slideNumber}.xml.rels`)
+        ?.async('string');
+      if (rels) {
+        this.externalLinks(rels).forEach((link) => links.add(link));
+      }
+
+      // The first paragraph is the title placeholder on almost every layout
+      const title = paragraphs[0] ?? '';
+      headings.push(title);
+      const lines = [`Slide ${slideNumber}: ${title}`, ...paragraphs.slice(1)];
+      const noteParagraphs = notes
+        ? this.paragraphs(notes).filter((p) => !/^\d+$/.test(p)) // Drop the slide number placeholder
+        : [];
+      if (noteParagraphs.length > 0) {
+        lines.push(`Notes: ${noteParagraphs.join(' ')}`);
+      }
+      sections.push(lines.join('\n'));
+    }
+
+    return {
+      content: normalizeWhitespace(sections.join('\n\n')),
+      metadata: {
+        slideCount: slideNumbers.length,
+        headings: headings.filter((heading) => heading),
+        links: [...links],
+      },
+    };
+  }
+
+  private paragraphs(xml: string): string[] {
+    const $ = cheerio.load(xml, { xml: true });
+    return $('a\\:p')
+      .map((_, p) =>
+        $(p)
+          .find('a\\:t')
+          .map((__, t) => $(t).text())
+          .get()
+          .join(''),
+      )
+      .get()
+      .map((text) => text.trim())
+      .filter((text) => text.length > 0);
+  }
+
+  private externalLinks(relsXml: string): string[] {
+    const $ = cheerio.load(relsXml, { xml: true });
+    return $('Relationship[TargetMode="External"]')
+      .map((_, rel) => $(rel).attr('Target'))
+      .get()
+      .filter((target) => /^(https?:|mailto:)/i.test(target));
+  }
+}
@@ -0,0 +1,62 @@
+import { Readable } from 'stream';
+import * as readline from 'readline';
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+export function decodeText(data: Buffer): string {
+  const body = data.subarray(0, 3).equals(UTF8_BOM) ? data.subarray(3) : data;
+  return body.toString('utf-8');
+}
+
+/**
+ * Decode a UTF-8 byte stream line by line, dropping a leading byte order mark
+ */
+export async function* readLines(stream: Readable): AsyncGenerator<string> {
+  const lines = readline.createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  });
+  let first = true;
+  for await (const line of lines) {
+    yield first ? line.replace(/^\uFEFF/, '') : line;
+    first = false;
+  }
+}
+
+/**
+ * Decode a UTF-8 byte stream into a stream of strings, dropping a leading byte order mark
+ */
+export function decodeTextStream(stream: Readable): Readable {
+  stream.setEncoding('utf-8'); // Never splits a multi-byte character across chunks
+  return Readable.from(
+    (async function* () {
+      let first = true;
+      for await (const chunk of stream) {
+        yield first ? (chunk as string).replace(/^\uFEFF/, '') : chunk;
+        first = false;
+      }
+    })(),
+  );
+}
+
+export function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return false;
+  }
+  // Invalid UTF-8 decodes to replacement characters; tolerate a few from a cut-off sample
+  const replacements = (sample.toString('utf-8').match(/�/g) ?? []).length;
+  return replacements <= 2;
+}
+
+/**
+ * Collapse runs of spaces and blank lines left behind by markup extraction
+ */
+export function normalizeWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
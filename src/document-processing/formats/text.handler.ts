@@ -0,0 +1,17 @@
+import { Readable } from 'stream';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { decodeText, readLines } from './text-decoding';
+
+export class TextFormatHandler implements FormatHandler {
+  readonly format = 'txt';
+  readonly extensions = ['.txt'];
+  readonly contentTypes = ['text/plain'];
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    return { content: decodeText(data), metadata: {} }; // For text files, the content is already text
+  }
+
+  parseStream(stream: Readable): AsyncIterable<string> {
+    return readLines(stream);
+  }
+}
@@ -0,0 +1,69 @@
+import { Logger } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { FormatHandler, FormatParseResult } from './format-handler.interface';
+import { isOoxmlPackage } from './ooxml';
+
+/**
+ * Each sheet becomes a `Sheet: <name>` line followed by one JSON object per
+ * row, keyed by the sheet's header row, mirroring how CSV files are embedded
+ */
+export class XlsxFormatHandler implements FormatHandler {
+  readonly format = 'xlsx';
+  readonly extensions = ['.xlsx'];
+  readonly contentTypes = [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ];
+  private readonly logger = new Logger(XlsxFormatHandler.name);
+
+  sniff(data: Buffer): boolean {
+    return isOoxmlPackage(data, 'xl/workbook.xml');
+  }
+
+  async parse(data: Buffer): Promise<FormatParseResult> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(data);
+
+    const sections: string[] = [];
+    const sheetNames: string[] = [];
+    let rowCount = 0;
+
+    workbook.eachSheet((sheet) => {
+      sheetNames.push(sheet.name);
+      const rows: string[][] = [];
+      sheet.eachRow((row) => {
+        const cells: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, column) => {
+          cells[column - 1] = cell.text?.trim() ?? '';
+        });
+        if (cells.some((cell) => cell)) {
+          rows.push(cells);
+        }
+      });
+      if (rows.length === 0) {
+        return;
+      }
+
+      const [header, ...body] = rows;
+      const fields = header.map((name, i) => name || `column_${i + 1}`);
+      const lines = body.map((cells) =>
+        JSON.stringify(
+          Object.fromEntries(
+            fields
+              .map((field, i) => [field, cells[i] ?? ''])
+              .filter(([, value]) => value !== ''),
+          ),
+        ),
+      );
+      rowCount += body.length;
+      sections.push([`Sheet: ${sheet.name}`, ...lines].join('\n'));
+    });
+
+    this.logger.log(
+      `Successfully parsed workbook with ${sheetNames.length} sheets and ${rowCount} rows.`,
+    );
+    return {
+      content: sections.join('\n\n'),
+      metadata: { sheetNames, sheetCount: sheetNames.length, rowCount },
+    };
+  }
+}
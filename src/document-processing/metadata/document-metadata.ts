@@ -0,0 +1,115 @@
+// Vector stores only accept these as metadata values; Pinecone has no nested objects
+export type MetadataValue = string | number | boolean | string[];
+
+export type FlatMetadata = Record<string, MetadataValue>;
+
+/**
+ * What a document is tagged with when it is ingested, on top of what is parsed from it
+ */
+export interface DocumentAttributes {
+  tags?: string[];
+  language?: string; // ISO 639-1, e.g. en
+  labels?: Record<string, string>; // Custom key/value pairs, stored as label_<key>
+  collectionId?: string; // The collection the document belongs to
+}
+
+export const LABEL_PREFIX = 'label_';
+
+// Letters and digits, optionally joined by spaces and the punctuation of category paths
+export const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _.:/-]{0,49}$/u;
+export const LANGUAGE_PATTERN = /^[a-z]{2}$/; // ISO 639-1
+
+// Pinecone allows 40 KB of metadata per vector, and the chunk text needs most of it
+const MAX_LIST_LENGTH = 100;
+const MAX_DEPTH = 3;
+
+/**
+ * The document-level fields every chunk of a document is stored with, and
+ * filtered and faceted by
+ * @param docType The detected format, e.g. pdf or csv
+ * @param document When the document was first ingested, by whom and how it is tagged
+ */
+export function documentMetadata(
+  docType: string,
+  document: {
+    createdAt: string;
+    uploadedBy?: string;
+    attributes?: DocumentAttributes;
+  },
+): FlatMetadata {
+  const { tags, language, labels, collectionId } = document.attributes ?? {};
+  const metadata: FlatMetadata = {
+    doc_type: docType,
+    created_at: Math.floor(Date.parse(document.createdAt) / 1000), // Epoch seconds, for range filters
+  };
+  if (tags?.length) {
+    metadata.tags = normalizeTags(tags);
+  }
+  if (language) {
+    metadata.language = language.toLowerCase();
+  }
+  if (collectionId) {
+    metadata.collection_id = collectionId;
+  }
+  if (document.uploadedBy) {
+    metadata.uploaded_by = document.uploadedBy;
+  }
+  for (const [key, value] of Object.entries(labels ?? {})) {
+    metadata[`${LABEL_PREFIX}${key}`] = value;
+  }
+  return metadata;
+}
+
+/**
+ * Tags match case-insensitively, so they are stored lowercase and without duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()))];
+}
+
+/**
+ * Flatten what a parser reports into values a vector store accepts: nested
+ * objects become prefixed keys (pdf `info.Title` becomes `info_title`), lists
+ * of anything but strings are replaced by their length (`parse_errors_count`)
+ * and empty values are dropped. Keys are converted to snake_case.
+ */
+export function flattenMetadata(
+  raw: Record<string, any>,
+  prefix = '',
+  depth = 0,
+): FlatMetadata {
+  const flat: FlatMetadata = {};
+  for (const [name, value] of Object.entries(raw ?? {})) {
+    const key = `${prefix}${snakeCase(name)}`;
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      if (value.every((element) => typeof element === 'string')) {
+        flat[key] = value.slice(0, MAX_LIST_LENGTH);
+      } else {
+        flat[`${key}_count`] = value.length;
+      }
+    } else if (typeof value === 'object') {
+      if (depth + 1 < MAX_DEPTH) {
+        Object.assign(flat, flattenMetadata(value, `${key}_`, depth + 1));
+      }
+    } else if (typeof value === 'number') {
+      if (Number.isFinite(value)) {
+        flat[key] = value;
+      }
+    } else if (typeof value === 'string' || typeof value === 'boolean') {
+      flat[key] = value;
+    }
+  }
+  return flat;
+}
+
+function snakeCase(name: string): string {
+  return name
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2') // PDFFormat -> PDF_Format
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2') // pageCount -> page_Count
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+}
@@ -0,0 +1,15 @@
+export const OCR_ENGINE = 'OCR_ENGINE';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // Mean word confidence, 0-100
+  language: string; // The language codes the text was recognized with
+}
+
+export interface OcrEngine {
+  readonly name: string;
+  /**
+   * Recognize the text in an encoded image (PNG, JPEG or TIFF)
+   */
+  recognize(image: Buffer): Promise<OcrResult>;
+}
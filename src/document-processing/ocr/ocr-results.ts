@@ -0,0 +1,38 @@
+import { PdfLine } from '../formats/pdf-layout';
+import { OcrResult } from './ocr-engine.interface';
+
+/**
+ * Summarize OCR results for document metadata, weighting each result's
+ * confidence by the amount of text it recognized
+ */
+export function ocrMetadata(results: OcrResult[]): {
+  ocrConfidence: number;
+  ocrLanguage: string;
+} {
+  let weighted = 0;
+  let totalChars = 0;
+  for (const { text, confidence } of results) {
+    const chars = Math.max(text.trim().length, 1);
+    weighted += confidence * chars;
+    totalChars += chars;
+  }
+  return {
+    ocrConfidence:
+      totalChars > 0 ? Math.round((weighted / totalChars) * 10) / 10 : 0,
+    ocrLanguage: [...new Set(results.map((result) => result.language))].join(
+      '+',
+    ),
+  };
+}
+
+/**
+ * Turn OCR output into layout lines. OCR gives no font sizes, so these lines
+ * never count as headings and do not skew the page's body font size.
+ */
+export function ocrTextToLines(text: string): PdfLine[] {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .map((line) => ({ text: line, fontSize: 0, cells: 1 }));
+}
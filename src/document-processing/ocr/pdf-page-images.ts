@@ -0,0 +1,39 @@
+import { RawImage, encodePng } from './png-encoder';
+
+// pdf.js OPS codes for painting images; args[0] is an object ID or the inline image itself
+const PAINT_IMAGE_XOBJECT = 85;
+const PAINT_INLINE_IMAGE_XOBJECT = 86;
+
+// Skip icons, bullets and rules that cannot hold a line of text
+const MIN_IMAGE_SIDE = 32;
+
+/**
+ * Collect the images painted on a pdf.js page as PNGs, largest first.
+ * pdf.js decodes JPEG, JBIG2 and CCITT scans itself when running in Node,
+ * so this works without a canvas.
+ */
+export async function extractPageImages(page: any): Promise<Buffer[]> {
+  const operatorList = await page.getOperatorList();
+  const images: RawImage[] = [];
+
+  operatorList.fnArray.forEach((fn: number, i: number) => {
+    const args = operatorList.argsArray[i];
+    let image: RawImage | undefined;
+    if (fn === PAINT_IMAGE_XOBJECT) {
+      image = page.objs.get(args[0]);
+    } else if (fn === PAINT_INLINE_IMAGE_XOBJECT) {
+      image = args[0];
+    }
+    if (
+      image?.data &&
+      image.width >= MIN_IMAGE_SIDE &&
+      image.height >= MIN_IMAGE_SIDE
+    ) {
+      images.push(image);
+    }
+  });
+
+  return images
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .map((image) => encodePng(image));
+}
@@ -0,0 +1,90 @@
+import * as zlib from 'zlib';
+
+/**
+ * Decoded pixels as pdf.js hands them out for image XObjects
+ */
+export interface RawImage {
+  width: number;
+  height: number;
+  kind: RawImageKind;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+// pdf.js ImageKind values
+export enum RawImageKind {
+  Grayscale1Bpp = 1, // Rows padded to whole bytes, set bits are white
+  Rgb24Bpp = 2,
+  Rgba32Bpp = 3,
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// [bit depth, PNG color type, bytes per row] for each pixel layout
+const LAYOUTS: Record<
+  RawImageKind,
+  (width: number) => [number, number, number]
+> = {
+  [RawImageKind.Grayscale1Bpp]: (width) => [1, 0, Math.ceil(width / 8)],
+  [RawImageKind.Rgb24Bpp]: (width) => [8, 2, width * 3],
+  [RawImageKind.Rgba32Bpp]: (width) => [8, 6, width * 4],
+};
+
+/**
+ * Encode raw pixels as a PNG so they can be passed to an OCR engine
+ */
+export function encodePng(image: RawImage): Buffer {
+  const layout = LAYOUTS[image.kind];
+  if (!layout) {
+    throw new Error(`Unsupported image kind: ${image.kind}`);
+  }
+  const [bitDepth, colorType, rowBytes] = layout(image.width);
+
+  // Every scanline is prefixed with filter type 0 (none)
+  const scanlines = Buffer.alloc((rowBytes + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    const row = image.data.subarray(y * rowBytes, (y + 1) * rowBytes);
+    scanlines.set(row, y * (rowBytes + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header.writeUInt8(bitDepth, 8);
+  header.writeUInt8(colorType, 9);
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(scanlines)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,58 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import * as fs from 'fs';
+import { OEM, Worker, createWorker } from 'tesseract.js';
+import { OcrEngine, OcrResult } from './ocr-engine.interface';
+
+export interface TesseractOcrOptions {
+  languages: string;
+  langPath?: string;
+  cachePath?: string;
+}
+
+/**
+ * Runs Tesseract on the CPU in a tesseract.js worker, started on first use
+ */
+export class TesseractOcrEngine implements OcrEngine, OnModuleDestroy {
+  readonly name = 'tesseract';
+  private readonly logger = new Logger(TesseractOcrEngine.name);
+  private worker: Promise<Worker> | null = null;
+
+  constructor(private readonly options: TesseractOcrOptions) {}
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return {
+      text: data.text,
+      confidence: data.confidence,
+      language: this.options.languages,
+    };
+  }
+
+  async onModuleDestroy() {
+    const worker = this.worker;
+    this.worker = null;
+    await (await worker?.catch(() => null))?.terminate();
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const { languages, langPath, cachePath } = this.options;
+      this.logger.log(`Starting tesseract worker for languages: ${languages}`);
+      if (cachePath) {
+        fs.mkdirSync(cachePath, { recursive: true });
+      }
+      this.worker = createWorker(languages, OEM.LSTM_ONLY, {
+        langPath: langPath || undefined,
+        cachePath: cachePath || undefined,
+      }).catch((error) => {
+        // Let the next document try again, e.g. after a failed language data download
+        this.worker = null;
+        throw new Error(
+          `Failed to start OCR worker: ${error.message ?? error}`,
+        );
+      });
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,117 @@
+import { TermStatistics } from './term-statistics.store';
+
+export interface SparseValues {
+  indices: number[];
+  values: number[];
+}
+
+export interface Bm25Parameters {
+  k1: number;
+  b: number;
+}
+
+// Words too common to tell chunks apart
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by for from has have if in into is it its of on or ' +
+    'that the their there these they this to was were will with'
+  ).split(' '),
+);
+
+// Letters and digits, optionally joined by the punctuation of SKUs, invoice numbers and phone numbers
+const COMPOUND_TOKEN = /[\p{L}\p{N}]+(?:[-_./:#][\p{L}\p{N}]+)*/gu;
+const WORD_TOKEN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split text into lowercase terms. Compound tokens such as `AB-1234/X` are
+ * kept whole, so exact identifiers match, and also split into their parts.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [token] of text
+    .normalize('NFKC')
+    .toLowerCase()
+    .matchAll(COMPOUND_TOKEN)) {
+    const parts = token.match(WORD_TOKEN);
+    if (parts.length > 1) {
+      terms.push(token);
+    }
+    terms.push(...parts.filter((part) => !STOP_WORDS.has(part)));
+  }
+  return terms;
+}
+
+/**
+ * The sparse vector dimension of a term: a 32-bit FNV-1a hash, so no
+ * vocabulary has to be shared between ingestion and queries
+ */
+export function termIndex(term: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of Buffer.from(term, 'utf-8')) {
+    hash = Math.imul(hash ^ byte, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Count the occurrences of each term index
+ */
+export function termFrequencies(terms: string[]): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const term of terms) {
+    const index = termIndex(term);
+    frequencies.set(index, (frequencies.get(index) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * Encode a chunk with the BM25 term frequency component. The dot product with
+ * an encoded query is then the chunk's BM25 score for that query.
+ * @param averageLength The mean number of terms per chunk in the tenant's index
+ */
+export function encodeDocument(
+  terms: string[],
+  averageLength: number,
+  { k1, b }: Bm25Parameters,
+): SparseValues {
+  const lengthNorm = 1 - b + (b * terms.length) / Math.max(averageLength, 1);
+  const sparse: SparseValues = { indices: [], values: [] };
+  for (const [index, frequency] of termFrequencies(terms)) {
+    sparse.indices.push(index);
+    sparse.values.push((frequency * (k1 + 1)) / (frequency + k1 * lengthNorm));
+  }
+  return sparse;
+}
+
+/**
+ * Encode a query with the inverse document frequency of each term, normalized
+ * to sum to 1 so sparse scores stay on a scale comparable to dense ones.
+ * Terms no chunk contains are left out; they cannot match anything.
+ * @returns undefined if none of the terms occur in the index
+ */
+export function encodeQuery(
+  terms: string[],
+  statistics: TermStatistics,
+): SparseValues | undefined {
+  const { documentCount, documentFrequency } = statistics;
+  const sparse: SparseValues = { indices: [], values: [] };
+  for (const index of new Set(terms.map(termIndex))) {
+    const frequency = documentFrequency[index] ?? 0;
+    if (frequency > 0) {
+      sparse.indices.push(index);
+      sparse.values.push(
+        Math.log(
+          1 +
+            (Math.max(documentCount - frequency, 0) + 0.5) / (frequency + 0.5),
+        ),
+      );
+    }
+  }
+  const total = sparse.values.reduce((sum, value) => sum + value, 0);
+  if (sparse.indices.length === 0 || total === 0) {
+    return undefined;
+  }
+  sparse.values = sparse.values.map((value) => value / total);
+  return sparse;
+}
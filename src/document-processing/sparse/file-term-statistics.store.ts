@@ -0,0 +1,64 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChunkTerms, TermStatistics } from './term-statistics.store';
+import { InMemoryTermStatisticsStore } from './in-memory-term-statistics.store';
+
+/**
+ * Statistics persisted to one JSON file per tenant, for single-instance
+ * deployments and local development
+ */
+export class FileTermStatisticsStore extends InMemoryTermStatisticsStore {
+  private readonly loading = new Map<string, Promise<void>>();
+  // Serializes updates so concurrent ingestions of a tenant cannot lose counts
+  private updating: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  async get(tenantId: string): Promise<TermStatistics> {
+    await this.load(tenantId);
+    return super.get(tenantId);
+  }
+
+  update(
+    tenantId: string,
+    added: ChunkTerms[],
+    removed: ChunkTerms[],
+  ): Promise<TermStatistics> {
+    const run = this.updating.then(async () => {
+      await this.load(tenantId);
+      const statistics = await super.update(tenantId, added, removed);
+      const filePath = this.filePath(tenantId);
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${filePath}.tmp`, JSON.stringify(statistics));
+      await fs.rename(`${filePath}.tmp`, filePath);
+      return statistics;
+    });
+    this.updating = run.catch(() => undefined);
+    return run;
+  }
+
+  private load(tenantId: string): Promise<void> {
+    if (!this.loading.has(tenantId)) {
+      this.loading.set(
+        tenantId,
+        fs
+          .readFile(this.filePath(tenantId), 'utf-8')
+          .then((data) => {
+            this.statistics.set(tenantId, JSON.parse(data));
+          })
+          .catch((error) => {
+            if (error.code !== 'ENOENT') {
+              throw error;
+            }
+          }),
+      );
+    }
+    return this.loading.get(tenantId);
+  }
+
+  private filePath(tenantId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(tenantId)}.json`);
+  }
+}
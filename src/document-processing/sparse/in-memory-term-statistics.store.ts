@@ -0,0 +1,60 @@
+import {
+  ChunkTerms,
+  TermStatistics,
+  TermStatisticsStore,
+} from './term-statistics.store';
+
+/**
+ * Process-local statistics for development. They are lost on restart, after
+ * which chunks indexed before are no longer counted.
+ */
+export class InMemoryTermStatisticsStore implements TermStatisticsStore {
+  protected readonly statistics = new Map<string, TermStatistics>();
+
+  async get(tenantId: string): Promise<TermStatistics> {
+    return structuredClone(this.current(tenantId));
+  }
+
+  async update(
+    tenantId: string,
+    added: ChunkTerms[],
+    removed: ChunkTerms[],
+  ): Promise<TermStatistics> {
+    const statistics = this.current(tenantId);
+    for (const chunk of added) {
+      this.count(statistics, chunk, 1);
+    }
+    for (const chunk of removed) {
+      this.count(statistics, chunk, -1);
+    }
+    this.statistics.set(tenantId, statistics);
+    return structuredClone(statistics);
+  }
+
+  protected current(tenantId: string): TermStatistics {
+    return (
+      this.statistics.get(tenantId) ?? {
+        documentCount: 0,
+        totalLength: 0,
+        documentFrequency: {},
+      }
+    );
+  }
+
+  private count(statistics: TermStatistics, chunk: ChunkTerms, sign: 1 | -1) {
+    // Never below zero, in case a chunk is removed that was never counted
+    statistics.documentCount = Math.max(statistics.documentCount + sign, 0);
+    statistics.totalLength = Math.max(
+      statistics.totalLength + sign * chunk.length,
+      0,
+    );
+    for (const index of chunk.indices) {
+      const frequency = (statistics.documentFrequency[index] ?? 0) + sign;
+      if (frequency > 0) {
+        statistics.documentFrequency[index] = frequency;
+      } else {
+        delete statistics.documentFrequency[index];
+      }
+    }
+  }
+}
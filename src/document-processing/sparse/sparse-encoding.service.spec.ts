@@ -0,0 +1,71 @@
+import { SparseEncodingService } from './sparse-encoding.service';
+import { InMemoryTermStatisticsStore } from './in-memory-term-statistics.store';
+import { SparseValues, termIndex, tokenize } from './bm25';
+
+const dot = (query: SparseValues, chunk: SparseValues) =>
+  query.indices.reduce((score, index, i) => {
+    const position = chunk.indices.indexOf(index);
+    return position === -1
+      ? score
+      : score + query.values[i] * chunk.values[position];
+  }, 0);
+
+describe('SparseEncodingService', () => {
+  let service: SparseEncodingService;
+
+  beforeEach(() => {
+    service = new SparseEncodingService(new InMemoryTermStatisticsStore());
+  });
+
+  it('should keep identifiers whole as well as split into their parts', () => {
+    expect(
+      tokenize('Invoice INV-2024/0042 for SKU ab_77, call +1 555-0100'),
+    ).toEqual([
+      'invoice',
+      'inv-2024/0042',
+      'inv',
+      '2024',
+      '0042',
+      'sku',
+      'ab_77',
+      'ab',
+      '77',
+      'call',
+      '1',
+      '555-0100',
+      '555',
+      '0100',
+    ]);
+  });
+
+  it('should rank the chunk with an exact identifier first', async () => {
+    const chunks = await service.indexChunks('acme', [
+      'Invoice INV-2024-0042 was paid in March.',
+      'Invoice INV-2024-0043 is overdue.',
+      'Our invoices are sent at the end of every month.',
+    ]);
+
+    const query = await service.encodeQuery('acme', 'status of INV-2024-0042');
+    const scores = chunks.map((chunk) => dot(query, chunk));
+
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+    expect(query.indices).not.toContain(termIndex('status')); // In no chunk
+  });
+
+  it('should count replaced and forgotten chunks out per tenant', async () => {
+    await service.indexChunks('acme', ['red widget']);
+    await service.indexChunks('globex', ['blue widget']);
+    await service.indexChunks('acme', ['green widget'], ['red widget']);
+
+    expect(await service.encodeQuery('acme', 'red')).toBeUndefined();
+    expect(await service.encodeQuery('acme', 'blue')).toBeUndefined();
+    expect(await service.encodeQuery('acme', 'green')).toEqual({
+      indices: [termIndex('green')],
+      values: [1],
+    });
+
+    await service.forgetChunks('acme', ['green widget']);
+    expect(await service.encodeQuery('acme', 'green widget')).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  encodeDocument,
+  encodeQuery,
+  SparseValues,
+  termFrequencies,
+  tokenize,
+} from './bm25';
+import {
+  ChunkTerms,
+  TERM_STATISTICS_STORE,
+  TermStatisticsStore,
+} from './term-statistics.store';
+import { hybridSearchConfig } from '../../config/hybrid-search.config';
+
+/**
+ * BM25 sparse vectors for hybrid search, computed locally from each tenant's
+ * own term statistics
+ */
+@Injectable()
+export class SparseEncodingService {
+  private readonly logger = new Logger(SparseEncodingService.name);
+
+  constructor(
+    @Inject(TERM_STATISTICS_STORE)
+    private readonly statisticsStore: TermStatisticsStore,
+  ) {}
+
+  get enabled(): boolean {
+    return hybridSearchConfig.enabled;
+  }
+
+  /**
+   * Count chunks into the tenant's statistics and encode them
+   * @param texts The texts of the chunks being added to the index
+   * @param replacedTexts The texts of chunks leaving the index, e.g. previous versions of changed chunks
+   * @returns One sparse vector per text, in input order
+   */
+  async indexChunks(
+    tenantId: string,
+    texts: string[],
+    replacedTexts: string[] = [],
+  ): Promise<SparseValues[]> {
+    const terms = texts.map(tokenize);
+    // Chunks without terms get no sparse values, so they are not counted either
+    const statistics = await this.statisticsStore.update(
+      tenantId,
+      terms.filter((chunk) => chunk.length > 0).map(chunkTerms),
+      replacedTexts.map((text) => chunkTerms(tokenize(text))),
+    );
+    const averageLength =
+      statistics.totalLength / Math.max(statistics.documentCount, 1);
+    this.logger.log(
+      `Encoded ${texts.length} sparse vectors for tenant ${tenantId} (${statistics.documentCount} chunks, average length ${averageLength.toFixed(1)})`,
+    );
+    return terms.map((chunk) =>
+      encodeDocument(chunk, averageLength, hybridSearchConfig),
+    );
+  }
+
+  /**
+   * Count chunks removed from the index out of the tenant's statistics
+   */
+  async forgetChunks(tenantId: string, texts: string[]): Promise<void> {
+    if (texts.length > 0) {
+      await this.statisticsStore.update(
+        tenantId,
+        [],
+        texts.map((text) => chunkTerms(tokenize(text))),
+      );
+    }
+  }
+
+  /**
+   * Encode a query against the tenant's statistics
+   * @returns undefined if no term of the query occurs in the tenant's index
+   */
+  async encodeQuery(
+    tenantId: string,
+    query: string,
+  ): Promise<SparseValues | undefined> {
+    return encodeQuery(
+      tokenize(query),
+      await this.statisticsStore.get(tenantId),
+    );
+  }
+}
+
+function chunkTerms(terms: string[]): ChunkTerms {
+  return { indices: [...termFrequencies(terms).keys()], length: terms.length };
+}
@@ -0,0 +1,25 @@
+import { TermStatisticsStore } from './term-statistics.store';
+import { InMemoryTermStatisticsStore } from './in-memory-term-statistics.store';
+import { FileTermStatisticsStore } from './file-term-statistics.store';
+
+export interface TermStatisticsStoreConfig {
+  statsBackend: string;
+  statsDirectory: string;
+}
+
+export function createTermStatisticsStore(
+  config: TermStatisticsStoreConfig,
+): TermStatisticsStore {
+  switch (config.statsBackend) {
+    case 'memory':
+      return new InMemoryTermStatisticsStore();
+
+    case 'file':
+      return new FileTermStatisticsStore(config.statsDirectory);
+
+    default:
+      throw new Error(
+        `Unknown term statistics backend: ${config.statsBackend}`,
+      );
+  }
+}
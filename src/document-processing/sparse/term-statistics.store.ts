@@ -0,0 +1,34 @@
+export const TERM_STATISTICS_STORE = 'TERM_STATISTICS_STORE';
+
+/**
+ * Corpus statistics of one tenant's sparse index, counted per chunk
+ */
+export interface TermStatistics {
+  documentCount: number; // Chunks with sparse values in the index
+  totalLength: number; // Terms across all of them
+  documentFrequency: Record<number, number>; // Chunks containing each term, by term index
+}
+
+/**
+ * The terms of one chunk, as added to or removed from the statistics
+ */
+export interface ChunkTerms {
+  indices: number[]; // Distinct term indices
+  length: number; // Number of terms, repeats included
+}
+
+/**
+ * Keeps each tenant's term statistics up to date as chunks come and go
+ */
+export interface TermStatisticsStore {
+  get(tenantId: string): Promise<TermStatistics>;
+  /**
+   * Count added chunks in and removed chunks out, atomically per tenant
+   * @returns The statistics after the change
+   */
+  update(
+    tenantId: string,
+    added: ChunkTerms[],
+    removed: ChunkTerms[],
+  ): Promise<TermStatistics>;
+}
@@ -0,0 +1,121 @@
+import { TextChunk, TextChunkerService } from './text-chunker.service';
+
+describe('TextChunkerService', () => {
+  const chunker = new TextChunkerService();
+
+  it('should emit overlapping fixed token windows', () => {
+    const text = 'one two three four five six seven';
+    const chunks = chunker.chunk(text, {
+      strategy: 'fixed',
+      chunkSize: 3,
+      chunkOverlap: 1,
+    });
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      'one two three',
+      'three four five',
+      'five six seven',
+    ]);
+    expect(chunks[1]).toMatchObject({ index: 1, charStart: 8, charEnd: 23 });
+  });
+
+  it('should split recursively on paragraphs before sentences', () => {
+    const text =
+      'First paragraph is short.\n\nSecond one. It has two sentences here.';
+    const chunks = chunker.chunk(text, { strategy: 'recursive', chunkSize: 5 });
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      'First paragraph is short.',
+      'Second one.',
+      'It has two sentences here.',
+    ]);
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.charStart, chunk.charEnd)).toBe(chunk.text);
+    }
+  });
+
+  it('should group whole CSV rows', () => {
+    const text = '{"a":"1"}\n{"a":"2"}\n{"a":"3"}';
+    const chunks = chunker.chunk(text, {
+      strategy: 'csv-rows',
+      csvRowsPerChunk: 2,
+    });
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      '{"a":"1"}\n{"a":"2"}',
+      '{"a":"3"}',
+    ]);
+  });
+
+  it('should return no chunks for blank text', () => {
+    expect(chunker.chunk('   \n ')).toEqual([]);
+  });
+
+  describe('chunkStream', () => {
+    async function* linesOf(text: string) {
+      yield* text.split('\n');
+    }
+
+    const collect = async (chunks: AsyncIterable<TextChunk>) => {
+      const collected: TextChunk[] = [];
+      for await (const chunk of chunks) {
+        collected.push(chunk);
+      }
+      return collected;
+    };
+
+    it('should group the same CSV rows as chunk()', async () => {
+      const text = Array.from({ length: 7 }, (_, i) => `{"row":"${i}"}`).join(
+        '\n',
+      );
+      const options = { strategy: 'csv-rows' as const, csvRowsPerChunk: 3 };
+
+      const streamed = await collect(
+        chunker.chunkStream(linesOf(text), options),
+      );
+
+      expect(streamed).toEqual(chunker.chunk(text, options));
+      for (const chunk of streamed) {
+        expect(text.slice(chunk.charStart, chunk.charEnd)).toBe(chunk.text);
+      }
+    });
+
+    it('should emit the same fixed windows as chunk() while buffering only a few', async () => {
+      const text = Array.from(
+        { length: 40 },
+        (_, line) => `line ${line} has some words`,
+      ).join('\n');
+      const options = {
+        strategy: 'fixed' as const,
+        chunkSize: 4,
+        chunkOverlap: 1,
+      };
+
+      const streamed = await collect(
+        chunker.chunkStream(linesOf(text), options),
+      );
+
+      expect(streamed).toEqual(chunker.chunk(text, options));
+    });
+
+    it('should keep offsets into the whole content with the recursive strategy', async () => {
+      const text = Array.from(
+        { length: 30 },
+        (_, paragraph) => `Paragraph ${paragraph} starts here.\nIt goes on.\n`,
+      ).join('\n');
+
+      const streamed = await collect(
+        chunker.chunkStream(linesOf(text), {
+          strategy: 'recursive',
+          chunkSize: 10,
+        }),
+      );
+
+      expect(streamed.length).toBeGreaterThan(5);
+      streamed.forEach((chunk, index) => {
+        expect(chunk.index).toBe(index);
+        expect(text.slice(chunk.charStart, chunk.charEnd)).toBe(chunk.text);
+      });
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { chunkingConfig } from '../config/chunking.config';
+
+export type ChunkStrategy = 'fixed' | 'recursive' | 'csv-rows';
+
+export interface ChunkOptions {
+  strategy?: ChunkStrategy;
+  chunkSize?: number; // Max tokens per chunk
+  chunkOverlap?: number; // Tokens shared between consecutive fixed windows
+  csvRowsPerChunk?: number;
+}
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  charStart: number; // Offset into the source text, inclusive
+  charEnd: number; // Offset into the source text, exclusive
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Tried in order by the recursive strategy: paragraphs, lines, sentences, words
+const RECURSIVE_SEPARATORS = [/\n\s*\n/g, /\n/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+// How many chunks' worth of tokens chunkStream buffers before splitting
+const STREAM_WINDOW_CHUNKS = 4;
+
+@Injectable()
+export class TextChunkerService {
+  private readonly logger = new Logger(TextChunkerService.name);
+
+  /**
+   * Split text into chunks small enough to embed
+   * @param text The parsed document text
+   * @param options Strategy and sizing, defaults come from chunking.config
+   * @returns Non-empty chunks in document order with their character offsets
+   */
+  chunk(text: string, options: ChunkOptions = {}): TextChunk[] {
+    const chunks = this.split(text, this.resolveOptions(options));
+    if (chunks.length > 0) {
+      this.logger.log(
+        `Split ${text.length} characters into ${chunks.length} chunks using '${options.strategy ?? chunkingConfig.strategy}' strategy`,
+      );
+    }
+    return chunks;
+  }
+
+  /**
+   * Chunk text that arrives line by line, holding only a few chunks' worth in memory.
+   * Chunks and offsets match chunk() on the lines joined with '\n', except that
+   * the recursive strategy may place boundaries differently.
+   * @param lines The content one line at a time
+   * @param options Strategy and sizing, defaults come from chunking.config
+   */
+  async *chunkStream(
+    lines: AsyncIterable<string>,
+    options: ChunkOptions = {},
+  ): AsyncGenerator<TextChunk> {
+    const resolved = this.resolveOptions(options);
+    // Text is split once this much is buffered, and the last, possibly
+    // unfinished chunk is carried over. CSV row groups are complete as they fill.
+    const windowTokens = resolved.chunkSize * STREAM_WINDOW_CHUNKS;
+    const groupRows = resolved.strategy === 'csv-rows';
+    let buffer: string[] = [];
+    let bufferTokens = 0;
+    let bufferOffset = 0; // Where the buffered text starts in the whole content
+    let rows = 0;
+    let index = 0;
+
+    const flush = (final: boolean): TextChunk[] => {
+      const text = buffer.join('\n');
+      const chunks = this.split(text, resolved);
+      const keep = final ? chunks.length : chunks.length - 1;
+      if (keep <= 0 && !final) {
+        return [];
+      }
+      const ready = chunks.slice(0, keep).map((chunk) => ({
+        index: index++,
+        text: chunk.text,
+        charStart: bufferOffset + chunk.charStart,
+        charEnd: bufferOffset + chunk.charEnd,
+      }));
+      if (final) {
+        // The next line starts after the newline that ends this one
+        buffer = [];
+        bufferOffset += text.length + 1;
+      } else {
+        const carryFrom = chunks[keep].charStart;
+        buffer = [text.slice(carryFrom)];
+        bufferOffset += carryFrom;
+      }
+      bufferTokens = buffer.length > 0 ? this.countTokens(buffer[0]) : 0;
+      rows = 0;
+      return ready;
+    };
+
+    for await (const line of lines) {
+      buffer.push(line);
+      bufferTokens += this.countTokens(line);
+      rows++;
+      if (groupRows && rows === resolved.csvRowsPerChunk) {
+        yield* flush(true);
+      } else if (!groupRows && bufferTokens >= windowTokens) {
+        yield* flush(false);
+      }
+    }
+    yield* flush(true);
+
+    this.logger.log(
+      `Streamed ${index} chunks using '${resolved.strategy}' strategy`,
+    );
+  }
+
+  private resolveOptions(options: ChunkOptions): Required<ChunkOptions> {
+    const chunkSize = Math.max(
+      options.chunkSize ?? chunkingConfig.chunkSize,
+      1,
+    );
+    return {
+      strategy: options.strategy ?? (chunkingConfig.strategy as ChunkStrategy),
+      chunkSize,
+      chunkOverlap: Math.min(
+        Math.max(options.chunkOverlap ?? chunkingConfig.chunkOverlap, 0),
+        chunkSize - 1,
+      ),
+      csvRowsPerChunk: Math.max(
+        options.csvRowsPerChunk ?? chunkingConfig.csvRowsPerChunk,
+        1,
+      ),
+    };
+  }
+
+  private split(text: string, options: Required<ChunkOptions>): TextChunk[] {
+    if (!text || text.trim().length === 0) {
+      return [];
+    }
+
+    const { strategy, chunkSize, chunkOverlap, csvRowsPerChunk } = options;
+    let spans: Span[];
+    switch (strategy) {
+      case 'fixed':
+        spans = this.fixedWindows(
+          text,
+          0,
+          text.length,
+          chunkSize,
+          chunkOverlap,
+        );
+        break;
+
+      case 'csv-rows':
+        spans = this.rowGroups(text, csvRowsPerChunk);
+        break;
+
+      case 'recursive':
+        spans = this.mergeSpans(
+          text,
+          this.splitRecursive(
+            text,
+            { start: 0, end: text.length },
+            0,
+            chunkSize,
+          ),
+          chunkSize,
+        );
+        break;
+
+      default:
+        throw new Error(`Unknown chunk strategy: ${strategy}`);
+    }
+
+    return spans
+      .map((span) => this.trimSpan(text, span))
+      .filter((span) => span.end > span.start)
+      .map((span, index) => ({
+        index,
+        text: text.slice(span.start, span.end),
+        charStart: span.start,
+        charEnd: span.end,
+      }));
+  }
+
+  /**
+   * Approximate token count. Whitespace-delimited words are close enough to
+   * model tokens for sizing chunks without pulling in a tokenizer.
+   */
+  countTokens(text: string): number {
+    return (text.match(/\S+/g) ?? []).length;
+  }
+
+  private fixedWindows(
+    text: string,
+    start: number,
+    end: number,
+    chunkSize: number,
+    chunkOverlap: number,
+  ): Span[] {
+    const tokens: Span[] = [];
+    const tokenPattern = /\S+/g;
+    tokenPattern.lastIndex = start;
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(text)) && match.index < end) {
+      tokens.push({
+        start: match.index,
+        end: Math.min(match.index + match[0].length, end),
+      });
+    }
+
+    const spans: Span[] = [];
+    const step = chunkSize - chunkOverlap;
+    for (let i = 0; i < tokens.length; i += step) {
+      const window = tokens.slice(i, i + chunkSize);
+      spans.push({
+        start: window[0].start,
+        end: window[window.length - 1].end,
+      });
+      if (i + chunkSize >= tokens.length) {
+        break;
+      }
+    }
+    return spans;
+  }
+
+  private rowGroups(text: string, rowsPerChunk: number): Span[] {
+    const spans: Span[] = [];
+    let groupStart = 0;
+    let rowsInGroup = 0;
+    let position = 0;
+
+    while (position < text.length) {
+      const newline = text.indexOf('\n', position);
+      const rowEnd = newline === -1 ? text.length : newline;
+      rowsInGroup++;
+      position = rowEnd + 1;
+
+      if (rowsInGroup === rowsPerChunk || newline === -1) {
+        spans.push({ start: groupStart, end: rowEnd });
+        groupStart = position;
+        rowsInGroup = 0;
+      }
+    }
+    return spans;
+  }
+
+  private splitRecursive(
+    text: string,
+    span: Span,
+    level: number,
+    chunkSize: number,
+  ): Span[] {
+    if (this.countTokens(text.slice(span.start, span.end)) <= chunkSize) {
+      return [span];
+    }
+    if (level >= RECURSIVE_SEPARATORS.length) {
+      return this.fixedWindows(text, span.start, span.end, chunkSize, 0);
+    }
+
+    const parts = this.splitSpan(text, span, RECURSIVE_SEPARATORS[level]);
+    if (parts.length <= 1) {
+      return this.splitRecursive(text, span, level + 1, chunkSize);
+    }
+    return parts.flatMap((part) =>
+      this.splitRecursive(text, part, level + 1, chunkSize),
+    );
+  }
+
+  private splitSpan(text: string, span: Span, separator: RegExp): Span[] {
+    const segment = text.slice(span.start, span.end);
+    const parts: Span[] = [];
+    let partStart = 0;
+    separator.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = separator.exec(segment))) {
+      if (match[0].length === 0) {
+        separator.lastIndex++;
+        continue;
+      }
+      parts.push({
+        start: span.start + partStart,
+        end: span.start + match.index,
+      });
+      partStart = match.index + match[0].length;
+    }
+    parts.push({ start: span.start + partStart, end: span.end });
+    return parts.filter((part) => part.end > part.start);
+  }
+
+  /**
+   * Greedily join adjacent pieces back together up to the chunk size, so the
+   * recursive strategy does not emit one chunk per short sentence.
+   */
+  private mergeSpans(text: string, spans: Span[], chunkSize: number): Span[] {
+    const merged: Span[] = [];
+    let current: Span | null = null;
+    let currentTokens = 0;
+
+    for (const span of spans) {
+      const tokens = this.countTokens(text.slice(span.start, span.end));
+      if (current && currentTokens + tokens <= chunkSize) {
+        current = { start: current.start, end: span.end };
+        currentTokens += tokens;
+      } else {
+        if (current) {
+          merged.push(current);
+        }
+        current = { ...span };
+        currentTokens = tokens;
+      }
+    }
+    if (current) {
+      merged.push(current);
+    }
+    return merged;
+  }
+
+  private trimSpan(text: string, span: Span): Span {
+    let { start, end } = span;
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { start, end };
+  }
+}
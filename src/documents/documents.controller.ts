@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseBoolPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import {
+  DocumentRecord,
+  DocumentStatus,
+} from './registry/document-registry.interface';
+import { TenantId } from '../common/tenancy/tenant-id.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+// Document IDs are S3 keys, so clients must URL-encode them (tenants%2Facme%2Fuploads%2Ffile.pdf)
+@Controller('documents')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DocumentsController {
+  private readonly logger = new Logger(DocumentsController.name);
+
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  @Get()
+  @Roles('knowledge:read')
+  async listDocuments(
+    @TenantId() tenantId: string,
+    @Query('status') status?: DocumentStatus,
+    @Query('collectionId') collectionId?: string,
+  ): Promise<{ documents: DocumentRecord[] }> {
+    const documents = await this.documentsService.listDocuments(
+      tenantId,
+      status,
+      collectionId,
+    );
+    return { documents };
+  }
+
+  @Get(':id')
+  @Roles('knowledge:read')
+  async getDocument(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<DocumentRecord> {
+    return this.documentsService.getDocument(tenantId, id);
+  }
+
+  @Post(':id/reindex')
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async reindexDocument(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+    // Unchanged documents and chunks are skipped unless forced, e.g. after switching embedding models
+    @Query('force', new ParseBoolPipe({ optional: true })) force?: boolean,
+  ): Promise<{ message: string; jobId: string; statusUrl: string }> {
+    this.logger.log(`Received request to re-index document: ${id}`);
+    const job = await this.documentsService.reindexDocument(
+      tenantId,
+      id,
+      force ?? false,
+    );
+    return {
+      message: 'Document queued for re-indexing.',
+      jobId: job.id,
+      statusUrl: `/knowledge-ingestion/jobs/${job.id}`,
+    };
+  }
+
+  @Delete(':id')
+  @Roles('knowledge:admin')
+  async deleteDocument(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+    @Query('deleteS3Object', new ParseBoolPipe({ optional: true }))
+    deleteS3Object?: boolean,
+  ): Promise<{ documentId: string; deletedVectors: number }> {
+    this.logger.log(`Received request to delete document: ${id}`);
+    return this.documentsService.deleteDocument(
+      tenantId,
+      id,
+      deleteS3Object ?? false,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DocumentsController } from './documents.controller';
+import { DocumentsService } from './documents.service';
+import { DocumentRegistryModule } from './registry/document-registry.module';
+import { KnowledgeIngestionModule } from '../knowledge-ingestion/knowledge-ingestion.module';
+import { S3Module } from '../s3/s3.module';
+
+@Module({
+  imports: [
+    DocumentRegistryModule, // For the document registry
+    KnowledgeIngestionModule, // For re-indexing and removing documents
+    S3Module, // For S3Service
+  ],
+  controllers: [DocumentsController],
+  providers: [DocumentsService],
+})
+export class DocumentsModule {}
@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  DOCUMENT_REGISTRY,
+  DocumentRecord,
+  DocumentRegistry,
+  DocumentStatus,
+} from './registry/document-registry.interface';
+import { S3Service } from '../s3/s3.service';
+import { IngestionJobService } from '../knowledge-ingestion/jobs/ingestion-job.service';
+import { KnowledgeIngestionService } from '../knowledge-ingestion/knowledge-ingestion.service';
+import { IngestionJob } from '../knowledge-ingestion/jobs/ingestion-job.types';
+
+@Injectable()
+export class DocumentsService {
+  private readonly logger = new Logger(DocumentsService.name);
+
+  constructor(
+    @Inject(DOCUMENT_REGISTRY)
+    private readonly documentRegistry: DocumentRegistry,
+    private readonly s3Service: S3Service,
+    private readonly ingestionJobService: IngestionJobService,
+    private readonly ingestionService: KnowledgeIngestionService,
+  ) {}
+
+  /**
+   * List a tenant's registered documents, most recently updated first
+   * @param tenantId The tenant whose documents to list
+   * @param status Only return documents in this status
+   * @param collectionId Only return documents in this collection
+   */
+  async listDocuments(
+    tenantId: string,
+    status?: DocumentStatus,
+    collectionId?: string,
+  ): Promise<DocumentRecord[]> {
+    const records = await this.documentRegistry.list();
+    return records
+      .filter((record) => record.tenantId === tenantId)
+      .filter((record) => !status || record.status === status)
+      .filter(
+        (record) =>
+          !collectionId || record.attributes?.collectionId === collectionId,
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Look up a document of the tenant; other tenants' documents are reported as missing
+   */
+  async getDocument(tenantId: string, id: string): Promise<DocumentRecord> {
+    const record = await this.documentRegistry.get(id);
+    if (!record || record.tenantId !== tenantId) {
+      throw new NotFoundException(`Document ${id} not found.`);
+    }
+    return record;
+  }
+
+  /**
+   * Queue a document to be downloaded, parsed and embedded again
+   * @param force Embed every chunk again, not just those that changed
+   * @returns The ingestion job doing the work
+   * @throws BadRequestException for crawled pages and text entries, which are refreshed by crawling or submitting them again
+   */
+  async reindexDocument(
+    tenantId: string,
+    id: string,
+    force = false,
+  ): Promise<IngestionJob> {
+    const record = await this.getDocument(tenantId, id);
+    if (!record.s3Url) {
+      throw new BadRequestException(
+        record.sourceUrl
+          ? `Document ${id} was crawled from ${record.sourceUrl}; crawl its source again to re-index it.`
+          : `Document ${id} was submitted as entry ${record.externalId}; submit it again to re-index it.`,
+      );
+    }
+    this.logger.log(`Re-indexing document ${id} (force: ${force})`);
+    return this.ingestionJobService.enqueueDocument(tenantId, record.s3Url, {
+      force,
+    });
+  }
+
+  /**
+   * Remove a document's vectors from the index and forget it
+   * @param tenantId The tenant the document belongs to
+   * @param id The document ID (S3 key)
+   * @param deleteS3Object Also delete the uploaded file from S3
+   */
+  async deleteDocument(
+    tenantId: string,
+    id: string,
+    deleteS3Object = false,
+  ): Promise<{ documentId: string; deletedVectors: number }> {
+    const record = await this.getDocument(tenantId, id);
+    this.logger.log(`Deleting document ${id} (S3 object: ${deleteS3Object})`);
+
+    try {
+      const deletedVectors = await this.ingestionService.removeDocument(
+        tenantId,
+        id,
+      );
+      // Only once the index has forgotten it, so a failed removal can be retried or re-indexed
+      if (deleteS3Object && record.s3Key) {
+        await this.s3Service.deleteObject(record.s3Key);
+      }
+      return { documentId: id, deletedVectors };
+    } catch (error) {
+      this.logger.error(`Error deleting document ${id}:`, error.stack);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { DocumentRegistry } from './document-registry.interface';
+import { InMemoryDocumentRegistry } from './in-memory-document-registry';
+import { FileDocumentRegistry } from './file-document-registry';
+
+export interface DocumentRegistryConfig {
+  backend: string;
+  filePath: string;
+}
+
+export function createDocumentRegistry(
+  config: DocumentRegistryConfig,
+): DocumentRegistry {
+  switch (config.backend) {
+    case 'memory':
+      return new InMemoryDocumentRegistry();
+
+    case 'file':
+      return new FileDocumentRegistry(config.filePath);
+
+    default:
+      throw new Error(`Unknown document registry backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  DocumentAttributes,
+  FlatMetadata,
+} from '../../document-processing/metadata/document-metadata';
+
+export const DOCUMENT_REGISTRY = 'DOCUMENT_REGISTRY';
+
+export type DocumentStatus = 'processing' | 'indexed' | 'failed';
+
+export interface ChunkHashes {
+  content: string; // Changes when the chunk's vector would: its text or the embedding model
+  metadata: string;
+}
+
+export interface DocumentRecord {
+  id: string; // The S3 key, or a key derived from a crawled page's URL or an entry's external ID; also the prefix of every chunk ID
+  tenantId: string;
+  s3Key?: string; // Documents ingested from S3 only
+  s3Url?: string;
+  sourceUrl?: string; // Crawled web pages only: the page the document was fetched from
+  externalId?: string; // Text and FAQ entries only: the client's ID for the entry
+  fileName: string;
+  status: DocumentStatus;
+  chunkIds: string[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastIngestedAt?: string; // Last time the document was successfully indexed
+  etag?: string; // The S3 object version last indexed, or queued by an S3 event
+  uploadedBy?: string; // The subject of whoever first had it ingested
+  attributes?: DocumentAttributes; // Tags, language and labels, kept across re-indexing
+  metadata?: FlatMetadata; // The document-level metadata its chunks were last indexed with
+  // Only set while the index matches them; cleared as soon as an ingestion starts writing
+  contentHash?: string; // SHA-256 of the object bytes last indexed
+  chunkHashes?: Record<string, ChunkHashes>; // By chunk ID
+}
+
+/**
+ * Keeps track of every ingested document so it can be listed, re-indexed and
+ * removed from the vector index later
+ */
+export interface DocumentRegistry {
+  save(record: DocumentRecord): Promise<void>;
+  get(id: string): Promise<DocumentRecord | undefined>;
+  list(): Promise<DocumentRecord[]>;
+  delete(id: string): Promise<void>;
+}
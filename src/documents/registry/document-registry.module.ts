@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DOCUMENT_REGISTRY } from './document-registry.interface';
+import { createDocumentRegistry } from './document-registry.factory';
+import { registryConfig } from '../../config/registry.config';
+
+@Module({
+  providers: [
+    {
+      provide: DOCUMENT_REGISTRY,
+      useFactory: () => createDocumentRegistry(registryConfig),
+    },
+  ],
+  exports: [DOCUMENT_REGISTRY],
+})
+export class DocumentRegistryModule {}
@@ -0,0 +1,28 @@
+import {
+  DocumentRecord,
+  DocumentRegistry,
+} from './document-registry.interface';
+
+/**
+ * Process-local registry for development. Records are lost on restart.
+ */
+export class InMemoryDocumentRegistry implements DocumentRegistry {
+  protected readonly records = new Map<string, DocumentRecord>();
+
+  async save(record: DocumentRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async get(id: string): Promise<DocumentRecord | undefined> {
+    const record = this.records.get(id);
+    return record && structuredClone(record);
+  }
+
+  async list(): Promise<DocumentRecord[]> {
+    return [...this.records.values()].map((record) => structuredClone(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
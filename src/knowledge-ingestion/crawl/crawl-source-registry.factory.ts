@@ -0,0 +1,25 @@
+import { CrawlSourceRegistry } from './crawl-source-registry.interface';
+import { InMemoryCrawlSourceRegistry } from './in-memory-crawl-source-registry';
+import { FileCrawlSourceRegistry } from './file-crawl-source-registry';
+
+export interface CrawlSourceRegistryConfig {
+  backend: string;
+  filePath: string;
+}
+
+export function createCrawlSourceRegistry(
+  config: CrawlSourceRegistryConfig,
+): CrawlSourceRegistry {
+  switch (config.backend) {
+    case 'memory':
+      return new InMemoryCrawlSourceRegistry();
+
+    case 'file':
+      return new FileCrawlSourceRegistry(config.filePath);
+
+    default:
+      throw new Error(
+        `Unknown crawl source registry backend: ${config.backend}`,
+      );
+  }
+}
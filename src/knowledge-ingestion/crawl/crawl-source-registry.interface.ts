@@ -0,0 +1,59 @@
+import { DocumentAttributes } from '../../document-processing/metadata/document-metadata';
+
+export const CRAWL_SOURCE_REGISTRY = 'CRAWL_SOURCE_REGISTRY';
+
+export type CrawlStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface CrawlPageCounts {
+  indexed: number; // New or changed pages
+  unchanged: number; // Answered 304, or served the bytes last indexed
+  removed: number; // Indexed before, now gone (404 or 410)
+  failed: number;
+  disallowed: number; // Excluded by robots.txt or noindex
+}
+
+export interface CrawlRun {
+  status: CrawlStatus;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  pages: CrawlPageCounts;
+  error?: string;
+}
+
+export interface CrawledPage {
+  documentId: string;
+  etag?: string; // Sent back as If-None-Match on the next crawl
+  lastModified?: string; // Sent back as If-Modified-Since
+  links: string[]; // Followed again when the page answers 304
+  crawledAt: string;
+}
+
+export interface CrawlSource {
+  id: string;
+  tenantId: string;
+  seedUrl: string; // A page to start from, or a sitemap.xml listing the pages
+  maxDepth: number; // Links followed from the seed pages, 0 for the seeds only
+  maxPages: number; // Pages fetched per crawl
+  allowedDomains: string[]; // Hosts to stay on, subdomains included
+  requestsPerMinute: number; // Per host; a larger robots.txt Crawl-delay wins
+  recrawlIntervalMinutes?: number; // Unset for no scheduled re-crawls
+  attributes?: DocumentAttributes; // Given to every page indexed
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  nextCrawlAt?: string;
+  lastRun?: CrawlRun;
+  pages: Record<string, CrawledPage>; // By URL, as of the last crawl
+}
+
+/**
+ * Keeps the websites tenants have asked to be crawled, with what each crawl
+ * found so the next one can skip unchanged pages
+ */
+export interface CrawlSourceRegistry {
+  save(source: CrawlSource): Promise<void>;
+  get(id: string): Promise<CrawlSource | undefined>;
+  list(): Promise<CrawlSource[]>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseBoolPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CrawlSourcesService } from './crawl-sources.service';
+import {
+  CrawlSourceDto,
+  CreateCrawlSourceDto,
+} from '../dto/knowledge-ingestion.dto';
+import { TenantId } from '../../common/tenancy/tenant-id.decorator';
+import { JwtAuthGuard } from '../../auth/jwt-auth.guard';
+import { RolesGuard } from '../../auth/roles.guard';
+import { Roles } from '../../auth/roles.decorator';
+import { CurrentUser } from '../../auth/current-user.decorator';
+import { AuthenticatedUser } from '../../auth/auth.types';
+
+@Controller('knowledge-ingestion/crawl-sources')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CrawlSourcesController {
+  private readonly logger = new Logger(CrawlSourcesController.name);
+
+  constructor(private readonly crawlSourcesService: CrawlSourcesService) {}
+
+  @Get()
+  @Roles('knowledge:read')
+  async listSources(
+    @TenantId() tenantId: string,
+  ): Promise<{ sources: CrawlSourceDto[] }> {
+    const sources = await this.crawlSourcesService.listSources(tenantId);
+    return { sources };
+  }
+
+  @Get(':id')
+  @Roles('knowledge:read')
+  async getSource(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<CrawlSourceDto> {
+    return this.crawlSourcesService.getSource(tenantId, id);
+  }
+
+  @Post()
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.ACCEPTED) // The first crawl runs in the background; poll the source for its lastRun
+  async createSource(
+    @TenantId() tenantId: string,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Body() createCrawlSourceDto: CreateCrawlSourceDto,
+  ): Promise<CrawlSourceDto> {
+    this.logger.log(
+      `Received request to crawl: ${createCrawlSourceDto.seedUrl}`,
+    );
+    return this.crawlSourcesService.createSource(
+      tenantId,
+      createCrawlSourceDto,
+      user?.subject,
+    );
+  }
+
+  @Post(':id/crawl')
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async startCrawl(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<CrawlSourceDto> {
+    return this.crawlSourcesService.startCrawl(tenantId, id);
+  }
+
+  @Delete(':id')
+  @Roles('knowledge:admin')
+  async deleteSource(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+    @Query('deletePages', new ParseBoolPipe({ optional: true }))
+    deletePages?: boolean,
+  ): Promise<{ sourceId: string; deletedDocuments: number }> {
+    this.logger.log(`Received request to delete crawl source: ${id}`);
+    return this.crawlSourcesService.deleteSource(
+      tenantId,
+      id,
+      deletePages ?? false,
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { CrawlSourcesService } from './crawl-sources.service';
+import { InMemoryCrawlSourceRegistry } from './in-memory-crawl-source-registry';
+import { CrawlResult, WebCrawlerService } from './web-crawler.service';
+import { CrawlSource } from './crawl-source-registry.interface';
+import { KnowledgeIngestionService } from '../knowledge-ingestion.service';
+
+describe('CrawlSourcesService', () => {
+  let registry: InMemoryCrawlSourceRegistry;
+  let crawl: jest.Mock;
+  let removeDocument: jest.Mock;
+  let service: CrawlSourcesService;
+
+  const finished = (result: CrawlResult) => {
+    let finish: () => void;
+    const done = new Promise<CrawlResult>((resolve) => {
+      finish = () => resolve(result);
+    });
+    return { done, finish: () => finish() };
+  };
+  const settle = async () => {
+    for (let i = 0; i < 5; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+  const noPages = {
+    pages: {},
+    counts: { indexed: 0, unchanged: 0, removed: 0, failed: 0, disallowed: 0 },
+  };
+
+  beforeEach(() => {
+    registry = new InMemoryCrawlSourceRegistry();
+    crawl = jest.fn();
+    removeDocument = jest.fn(async () => 1);
+    service = new CrawlSourcesService(
+      registry,
+      { crawl } as unknown as WebCrawlerService,
+      { removeDocument } as unknown as KnowledgeIngestionService,
+    );
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it("should not hold up one tenant's crawls behind another's", async () => {
+    const acmeCrawl = finished(noPages);
+    crawl.mockImplementation((source: CrawlSource) =>
+      source.tenantId === 'acme' ? acmeCrawl.done : Promise.resolve(noPages),
+    );
+
+    const acme = await service.createSource('acme', {
+      seedUrl: 'https://acme.example/',
+    });
+    const acmeDocs = await service.createSource('acme', {
+      seedUrl: 'https://docs.acme.example/',
+    });
+    const globex = await service.createSource('globex', {
+      seedUrl: 'https://globex.example/',
+    });
+    await settle();
+
+    // The other tenant's crawl ran; the tenant's second crawl waits its turn
+    expect((await registry.get(globex.id)).lastRun.status).toBe('completed');
+    expect((await registry.get(acme.id)).lastRun.status).toBe('running');
+    expect((await registry.get(acmeDocs.id)).lastRun.status).toBe('queued');
+
+    acmeCrawl.finish();
+    await settle();
+    expect((await registry.get(acmeDocs.id)).lastRun.status).toBe('completed');
+  });
+
+  it('should keep the pages another source of the tenant also indexed', async () => {
+    const page = (documentId: string) => ({
+      documentId,
+      links: [],
+      crawledAt: '2024-05-01T00:00:00.000Z',
+    });
+    crawl.mockImplementation(async (source: CrawlSource) => ({
+      ...noPages,
+      pages: source.seedUrl.endsWith('sitemap.xml')
+        ? { 'https://acme.example/': page('doc-home') }
+        : {
+            'https://acme.example/': page('doc-home'),
+            'https://acme.example/returns': page('doc-returns'),
+          },
+    }));
+    const sitemap = await service.createSource('acme', {
+      seedUrl: 'https://acme.example/sitemap.xml',
+    });
+    const site = await service.createSource('acme', {
+      seedUrl: 'https://acme.example/',
+    });
+    await service.createSource('globex', { seedUrl: 'https://acme.example/' });
+    await settle();
+
+    const result = await service.deleteSource('acme', site.id, true);
+
+    expect(result).toEqual({ sourceId: site.id, deletedDocuments: 1 });
+    expect(removeDocument.mock.calls).toEqual([['acme', 'doc-returns']]);
+    expect(await registry.get(sitemap.id)).toBeDefined();
+  });
+});
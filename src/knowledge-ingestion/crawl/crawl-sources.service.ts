@@ -0,0 +1,328 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  CRAWL_SOURCE_REGISTRY,
+  CrawlPageCounts,
+  CrawlSource,
+  CrawlSourceRegistry,
+} from './crawl-source-registry.interface';
+import { CrawlResult, WebCrawlerService } from './web-crawler.service';
+import { KnowledgeIngestionService } from '../knowledge-ingestion.service';
+import {
+  CrawlSourceDto,
+  CreateCrawlSourceDto,
+} from '../dto/knowledge-ingestion.dto';
+import { normalizePageUrl } from './web-page';
+import { crawlConfig } from '../../config/crawl.config';
+
+const NO_PAGES: CrawlPageCounts = {
+  indexed: 0,
+  unchanged: 0,
+  removed: 0,
+  failed: 0,
+  disallowed: 0,
+};
+
+/**
+ * Manages the websites tenants have asked to be crawled. Crawls run in the
+ * background, one at a time per tenant so a tenant's long crawl holds up no
+ * one else's, and sources with a re-crawl interval are crawled again once
+ * they are due.
+ */
+@Injectable()
+export class CrawlSourcesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CrawlSourcesService.name);
+  // The last crawl queued for each tenant; a tenant's crawls may index the same pages, so they run in turn
+  private readonly tails = new Map<string, Promise<unknown>>();
+  private scheduler?: NodeJS.Timeout;
+  private stopping = false;
+  // Sources deleted while being crawled, and whether to remove the pages the crawl indexes
+  private readonly cancelled = new Map<string, boolean>();
+
+  constructor(
+    @Inject(CRAWL_SOURCE_REGISTRY)
+    private readonly registry: CrawlSourceRegistry,
+    private readonly crawler: WebCrawlerService,
+    private readonly ingestionService: KnowledgeIngestionService,
+  ) {}
+
+  async onModuleInit() {
+    // Crawls do not survive a restart; report them as failed and let the schedule pick them up
+    for (const source of await this.registry.list()) {
+      const run = source.lastRun;
+      if (run?.status === 'queued' || run?.status === 'running') {
+        await this.registry.save({
+          ...source,
+          lastRun: {
+            ...run,
+            status: 'failed',
+            finishedAt: new Date().toISOString(),
+            error: 'Interrupted by a restart.',
+          },
+        });
+      }
+    }
+    if (crawlConfig.schedulerIntervalMs > 0) {
+      this.scheduler = setInterval(
+        () => void this.startDueCrawls(),
+        crawlConfig.schedulerIntervalMs,
+      );
+      this.scheduler.unref();
+    }
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.scheduler);
+    this.stopping = true;
+    await Promise.all(this.tails.values());
+  }
+
+  /**
+   * List a tenant's crawl sources, oldest first
+   */
+  async listSources(tenantId: string): Promise<CrawlSourceDto[]> {
+    const sources = await this.registry.list();
+    return sources
+      .filter((source) => source.tenantId === tenantId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toDto);
+  }
+
+  /**
+   * @throws NotFoundException if the tenant has no such crawl source
+   */
+  async getSource(tenantId: string, id: string): Promise<CrawlSourceDto> {
+    return toDto(await this.getTenantSource(tenantId, id));
+  }
+
+  /**
+   * Register a website to crawl and queue its first crawl
+   * @param createdBy Who asked for the crawl, recorded as the pages' uploader
+   * @throws NotFoundException if the tenant has no such collection
+   */
+  async createSource(
+    tenantId: string,
+    request: CreateCrawlSourceDto,
+    createdBy?: string,
+  ): Promise<CrawlSourceDto> {
+    const { tags, language, labels, collectionId } = request;
+    if (collectionId) {
+      await this.ingestionService.getTenantCollection(tenantId, collectionId);
+    }
+    const seedUrl = normalizePageUrl(request.seedUrl);
+    const now = new Date().toISOString();
+    const source: CrawlSource = {
+      id: randomUUID(),
+      tenantId,
+      seedUrl,
+      maxDepth: request.maxDepth ?? crawlConfig.defaultMaxDepth,
+      maxPages: request.maxPages ?? crawlConfig.defaultMaxPages,
+      allowedDomains: request.allowedDomains?.length
+        ? request.allowedDomains.map((domain) => domain.toLowerCase())
+        : [new URL(seedUrl).hostname],
+      requestsPerMinute:
+        request.requestsPerMinute ?? crawlConfig.defaultRequestsPerMinute,
+      recrawlIntervalMinutes: request.recrawlIntervalMinutes,
+      attributes: { tags, language, labels, collectionId },
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+      pages: {},
+    };
+    await this.registry.save(source);
+    this.logger.log(`Created crawl source ${source.id} for ${seedUrl}`);
+    return this.startCrawl(tenantId, source.id);
+  }
+
+  /**
+   * Queue a crawl of a source now, rather than when it is next due
+   * @throws ConflictException if the source is already queued or being crawled
+   */
+  async startCrawl(tenantId: string, id: string): Promise<CrawlSourceDto> {
+    const source = await this.getTenantSource(tenantId, id);
+    if (
+      source.lastRun?.status === 'queued' ||
+      source.lastRun?.status === 'running'
+    ) {
+      throw new ConflictException(
+        `Crawl source ${id} is already being crawled.`,
+      );
+    }
+    const queued: CrawlSource = {
+      ...source,
+      lastRun: {
+        status: 'queued',
+        queuedAt: new Date().toISOString(),
+        pages: { ...NO_PAGES },
+      },
+      updatedAt: new Date().toISOString(),
+    };
+    await this.registry.save(queued);
+    const tail = (this.tails.get(tenantId) ?? Promise.resolve())
+      .then(() => this.runCrawl(id))
+      .catch((error) =>
+        this.logger.error(`Crawl of source ${id} failed:`, error.stack),
+      )
+      .finally(() => {
+        if (this.tails.get(tenantId) === tail) {
+          this.tails.delete(tenantId);
+        }
+      });
+    this.tails.set(tenantId, tail);
+    return toDto(queued);
+  }
+
+  /**
+   * Delete a crawl source, stopping its crawl if one is running
+   * @param deletePages Also remove the pages it indexed
+   * @returns How many indexed pages were removed
+   */
+  async deleteSource(
+    tenantId: string,
+    id: string,
+    deletePages = false,
+  ): Promise<{ sourceId: string; deletedDocuments: number }> {
+    const source = await this.getTenantSource(tenantId, id);
+    await this.registry.delete(id);
+    if (source.lastRun?.status === 'running') {
+      this.cancelled.set(id, deletePages);
+    }
+    const deletedDocuments = deletePages
+      ? await this.removePages(source, source.pages)
+      : 0;
+    this.logger.log(
+      `Deleted crawl source ${id} (pages removed: ${deletedDocuments})`,
+    );
+    return { sourceId: id, deletedDocuments };
+  }
+
+  /**
+   * Queue crawls of the sources whose re-crawl interval has passed
+   */
+  async startDueCrawls(): Promise<void> {
+    const now = new Date().toISOString();
+    const due = (await this.registry.list()).filter(
+      (source) =>
+        source.nextCrawlAt &&
+        source.nextCrawlAt <= now &&
+        source.lastRun?.status !== 'queued' &&
+        source.lastRun?.status !== 'running',
+    );
+    for (const source of due) {
+      try {
+        await this.startCrawl(source.tenantId, source.id);
+      } catch (error) {
+        this.logger.warn(
+          `Could not start scheduled crawl of ${source.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async runCrawl(id: string): Promise<void> {
+    const source = await this.registry.get(id);
+    if (!source || this.stopping) {
+      return;
+    }
+    const startedAt = new Date().toISOString();
+    await this.registry.save({
+      ...source,
+      lastRun: { ...source.lastRun, status: 'running', startedAt },
+    });
+
+    let result: CrawlResult | undefined;
+    let error: Error | undefined;
+    try {
+      result = await this.crawler.crawl(
+        source,
+        () => this.stopping || this.cancelled.has(id),
+      );
+    } catch (e) {
+      error = e;
+      this.logger.error(`Crawl of ${source.seedUrl} failed:`, e.stack);
+    }
+
+    if (this.cancelled.has(id)) {
+      const deletePages = this.cancelled.get(id);
+      this.cancelled.delete(id);
+      if (deletePages && result) {
+        await this.removePages(source, result.pages);
+      }
+      return;
+    }
+
+    const finishedAt = new Date().toISOString();
+    const current = (await this.registry.get(id)) ?? source;
+    await this.registry.save({
+      ...current,
+      pages: result?.pages ?? current.pages,
+      lastRun: {
+        ...source.lastRun,
+        status: error ? 'failed' : 'completed',
+        startedAt,
+        finishedAt,
+        pages: result?.counts ?? { ...NO_PAGES },
+        error: error?.message,
+      },
+      nextCrawlAt: current.recrawlIntervalMinutes
+        ? new Date(
+            Date.parse(finishedAt) + current.recrawlIntervalMinutes * 60_000,
+          ).toISOString()
+        : undefined,
+      updatedAt: finishedAt,
+    });
+  }
+
+  /**
+   * Remove the documents of a deleted source's pages, except those another of
+   * the tenant's sources also indexed, e.g. a sitemap and a seed page on the same site
+   * @returns How many documents were removed
+   */
+  private async removePages(
+    source: CrawlSource,
+    pages: CrawlSource['pages'],
+  ): Promise<number> {
+    const shared = new Set(
+      (await this.registry.list())
+        .filter(
+          (other) =>
+            other.tenantId === source.tenantId && other.id !== source.id,
+        )
+        .flatMap((other) =>
+          Object.values(other.pages).map((page) => page.documentId),
+        ),
+    );
+    const documentIds = new Set(
+      Object.values(pages)
+        .map((page) => page.documentId)
+        .filter((documentId) => !shared.has(documentId)),
+    );
+    for (const documentId of documentIds) {
+      await this.ingestionService.removeDocument(source.tenantId, documentId);
+    }
+    return documentIds.size;
+  }
+
+  private async getTenantSource(
+    tenantId: string,
+    id: string,
+  ): Promise<CrawlSource> {
+    const source = await this.registry.get(id);
+    if (!source || source.tenantId !== tenantId) {
+      throw new NotFoundException(`Crawl source ${id} not found.`);
+    }
+    return source;
+  }
+}
+
+function toDto({ pages, ...source }: CrawlSource): CrawlSourceDto {
+  return { ...source, pageCount: Object.keys(pages).length };
+}
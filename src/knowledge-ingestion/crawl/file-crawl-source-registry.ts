@@ -0,0 +1,68 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CrawlSource } from './crawl-source-registry.interface';
+import { InMemoryCrawlSourceRegistry } from './in-memory-crawl-source-registry';
+
+/**
+ * Registry persisted to a single JSON file, for single-instance deployments
+ * and local development
+ */
+export class FileCrawlSourceRegistry extends InMemoryCrawlSourceRegistry {
+  private loading: Promise<void>;
+  // Serializes writes so concurrent crawls cannot interleave partial files
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async save(source: CrawlSource): Promise<void> {
+    await this.load();
+    await super.save(source);
+    await this.flush();
+  }
+
+  async get(id: string): Promise<CrawlSource | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async list(): Promise<CrawlSource[]> {
+    await this.load();
+    return super.list();
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.load();
+    await super.delete(id);
+    await this.flush();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = fs
+        .readFile(this.filePath, 'utf-8')
+        .then((data) => {
+          for (const source of JSON.parse(data) as CrawlSource[]) {
+            this.sources.set(source.id, source);
+          }
+        })
+        .catch((error) => {
+          if (error.code !== 'ENOENT') {
+            throw error;
+          }
+        });
+    }
+    return this.loading;
+  }
+
+  private flush(): Promise<void> {
+    const snapshot = JSON.stringify([...this.sources.values()], null, 2);
+    this.writing = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(`${this.filePath}.tmp`, snapshot);
+      await fs.rename(`${this.filePath}.tmp`, this.filePath);
+    });
+    return this.writing;
+  }
+}
@@ -0,0 +1,28 @@
+import {
+  CrawlSource,
+  CrawlSourceRegistry,
+} from './crawl-source-registry.interface';
+
+/**
+ * Process-local registry for development. Sources are lost on restart.
+ */
+export class InMemoryCrawlSourceRegistry implements CrawlSourceRegistry {
+  protected readonly sources = new Map<string, CrawlSource>();
+
+  async save(source: CrawlSource): Promise<void> {
+    this.sources.set(source.id, structuredClone(source));
+  }
+
+  async get(id: string): Promise<CrawlSource | undefined> {
+    const source = this.sources.get(id);
+    return source && structuredClone(source);
+  }
+
+  async list(): Promise<CrawlSource[]> {
+    return [...this.sources.values()].map((source) => structuredClone(source));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sources.delete(id);
+  }
+}
@@ -0,0 +1,37 @@
+import * as cheerio from 'cheerio';
+import { decodeText } from '../../document-processing/formats/text-decoding';
+import { normalizePageUrl } from './web-page';
+
+export interface PageDirectives {
+  links: string[]; // Absolute and normalized, without rel="nofollow" ones
+  noindex: boolean; // <meta name="robots" content="noindex">: keep out of the index
+  nofollow: boolean; // <meta name="robots" content="nofollow">: follow none of the links
+}
+
+/**
+ * Collect the links a crawler may follow from an HTML page, resolved against
+ * its <base> or its own URL, and what its robots meta tags allow
+ */
+export function readPageDirectives(
+  html: Buffer,
+  pageUrl: string,
+): PageDirectives {
+  const $ = cheerio.load(decodeText(html));
+  const robots = $('meta[name="robots" i], meta[name="googlebot" i]')
+    .map((_, el) => $(el).attr('content') ?? '')
+    .get()
+    .join(',')
+    .toLowerCase();
+  const noindex = /\b(noindex|none)\b/.test(robots);
+  const nofollow = /\b(nofollow|none)\b/.test(robots);
+
+  const base = normalizePageUrl($('base[href]').attr('href') ?? '', pageUrl);
+  const links = nofollow
+    ? []
+    : $('a[href]')
+        .filter((_, el) => !/\bnofollow\b/i.test($(el).attr('rel') ?? ''))
+        .map((_, el) => normalizePageUrl($(el).attr('href'), base ?? pageUrl))
+        .get()
+        .filter((link): link is string => !!link);
+  return { links: [...new Set(links)], noindex, nofollow };
+}
@@ -0,0 +1,140 @@
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // Of the rule's path; the longest matching rule wins
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export interface RobotsPolicy {
+  /** Whether the crawler may fetch the URL's path and query */
+  isAllowed(url: string): boolean;
+  crawlDelaySeconds?: number;
+  sitemaps: string[];
+}
+
+/**
+ * The policy of a site without a usable robots.txt (one answering 4xx)
+ */
+export const ALLOW_ALL: RobotsPolicy = {
+  isAllowed: () => true,
+  sitemaps: [],
+};
+
+/**
+ * The policy of a site whose robots.txt could not be fetched (5xx or a
+ * network error), which RFC 9309 says to treat as disallowing everything
+ */
+export const DISALLOW_ALL: RobotsPolicy = {
+  isAllowed: () => false,
+  sitemaps: [],
+};
+
+/**
+ * Parse a robots.txt file as described by RFC 9309. The groups naming the
+ * user agent's product token apply, or else those for `*`; among their rules
+ * the longest match wins, with allow winning ties. Crawl-delay is honoured too.
+ * @param userAgent The crawler's user agent, e.g. ExampleBot/1.0
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent':
+        // Consecutive user-agent lines share the rules that follow them
+        if (!collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+          collectingAgents = true;
+        }
+        current.userAgents.push(value.toLowerCase());
+        break;
+      case 'allow':
+      case 'disallow':
+        collectingAgents = false;
+        if (current && value) {
+          current.rules.push({
+            allow: field === 'allow',
+            pattern: toPattern(value),
+            length: value.length,
+          });
+        }
+        break;
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const seconds = Number(value);
+        if (current && Number.isFinite(seconds) && seconds >= 0) {
+          current.crawlDelaySeconds = seconds;
+        }
+        break;
+      }
+      case 'sitemap':
+        if (value) {
+          sitemaps.push(value);
+        }
+        break;
+      default:
+        collectingAgents = false;
+    }
+  }
+
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const named = groups.filter((group) => group.userAgents.includes(token));
+  const applicable = named.length
+    ? named
+    : groups.filter((group) => group.userAgents.includes('*'));
+  const rules = applicable.flatMap((group) => group.rules);
+  const delays = applicable
+    .map((group) => group.crawlDelaySeconds)
+    .filter((delay) => delay !== undefined);
+
+  return {
+    isAllowed: (url: string) => {
+      const { pathname, search } = new URL(url);
+      const target = `${pathname}${search}`;
+      if (pathname === '/robots.txt') {
+        return true;
+      }
+      let best: RobotsRule | undefined;
+      for (const rule of rules) {
+        if (
+          rule.pattern.test(target) &&
+          (!best ||
+            rule.length > best.length ||
+            (rule.length === best.length && rule.allow))
+        ) {
+          best = rule;
+        }
+      }
+      return best?.allow ?? true;
+    },
+    crawlDelaySeconds: delays.length ? Math.max(...delays) : undefined,
+    sitemaps,
+  };
+}
+
+// Rules match from the start of the path; * matches anything and a trailing $ anchors the end
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
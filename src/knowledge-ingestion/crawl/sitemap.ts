@@ -0,0 +1,32 @@
+import * as cheerio from 'cheerio';
+
+export interface ParsedSitemap {
+  pages: string[]; // <urlset> entries
+  sitemaps: string[]; // <sitemapindex> entries, to be fetched in turn
+}
+
+/**
+ * Read the page and nested sitemap URLs of a sitemap.xml or sitemap index
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xml: true });
+  const locations = (selector: string) =>
+    $(selector)
+      .map((_, el) => $(el).text().trim())
+      .get()
+      .filter((location) => location.length > 0);
+  return {
+    pages: locations('urlset > url > loc'),
+    sitemaps: locations('sitemapindex > sitemap > loc'),
+  };
+}
+
+/**
+ * Whether a seed URL points at a sitemap rather than a page
+ */
+export function isSitemapUrl(url: string, contentType?: string): boolean {
+  return (
+    /\.xml$/i.test(new URL(url).pathname) ||
+    /^(application|text)\/xml\b/i.test(contentType ?? '')
+  );
+}
@@ -0,0 +1,263 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { WebCrawlerService } from './web-crawler.service';
+import { CrawlSource } from './crawl-source-registry.interface';
+import { KnowledgeIngestionService } from '../knowledge-ingestion.service';
+import { S3Service } from '../../s3/s3.service';
+import { DocumentParserService } from '../../document-processing/document-parser.service';
+import { EmbeddingService } from '../../document-processing/embedding.service';
+import { TextChunkerService } from '../../document-processing/text-chunker.service';
+import { HashingEmbeddingProvider } from '../../document-processing/embedding-providers/hashing-embedding.provider';
+import { SparseEncodingService } from '../../document-processing/sparse/sparse-encoding.service';
+import { InMemoryTermStatisticsStore } from '../../document-processing/sparse/in-memory-term-statistics.store';
+import { InMemoryDocumentRegistry } from '../../documents/registry/in-memory-document-registry';
+import { InMemoryVectorStore } from '../../vector-store/in-memory-vector-store';
+import { InMemoryCollectionRegistry } from '../../collections/registry/in-memory-collection-registry';
+import { tenantNamespace } from '../../common/tenancy/tenant-scope';
+import { crawlConfig } from '../../config/crawl.config';
+
+const page = (title: string, body: string) =>
+  `<html><head><title>${title}</title></head><body>` +
+  '<nav><a href="/">Home</a> <a href="/docs/returns">Returns</a></nav>' +
+  `<main>${body}</main><footer>© Acme</footer></body></html>`;
+
+describe('WebCrawlerService', () => {
+  const original = { ...crawlConfig };
+  let server: Server;
+  let origin: string;
+  let requests: IncomingMessage[];
+  let shippingRemoved: boolean;
+  let registry: InMemoryDocumentRegistry;
+  let vectorStore: InMemoryVectorStore;
+  let crawler: WebCrawlerService;
+
+  const site: Record<
+    string,
+    (req: IncomingMessage, res: ServerResponse) => void
+  > = {
+    '/robots.txt': (_, res) =>
+      res
+        .writeHead(200, { 'Content-Type': 'text/plain' })
+        .end('User-agent: *\nDisallow: /private\n'),
+    '/sitemap.xml': (_, res) =>
+      res
+        .writeHead(200, { 'Content-Type': 'application/xml' })
+        .end(
+          '<?xml version="1.0" encoding="UTF-8"?>' +
+            '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+            `<url><loc>${origin}/</loc></url>` +
+            `<url><loc>${origin}/docs/returns</loc></url>` +
+            '</urlset>',
+        ),
+    '/': (_, res) =>
+      res
+        .writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+        .end(
+          page(
+            'Acme Help',
+            '<h1>Help Center</h1><p>Find answers about orders.</p>' +
+              '<a href="/docs/shipping#rates">Shipping</a> ' +
+              '<a href="/private/admin">Admin</a> ' +
+              '<a href="https://elsewhere.example/">Partner</a>',
+          ),
+        ),
+    '/docs/returns': (req, res) => {
+      if (req.headers['if-none-match'] === '"returns-v1"') {
+        res.writeHead(304).end();
+        return;
+      }
+      res
+        .writeHead(200, {
+          'Content-Type': 'text/html',
+          ETag: '"returns-v1"',
+        })
+        .end(
+          page('Returns', '<h1>Returns</h1><p>Send items back in 30 days.</p>'),
+        );
+    },
+    '/returns': (_, res) =>
+      res.writeHead(301, { Location: '/docs/returns' }).end(),
+    '/partner': (_, res) =>
+      res
+        .writeHead(302, {
+          Location: `http://localhost:${new URL(origin).port}/partner-page`,
+        })
+        .end(),
+    '/admin': (_, res) =>
+      res.writeHead(302, { Location: '/private/admin' }).end(),
+    '/docs/shipping': (_, res) => {
+      if (shippingRemoved) {
+        res.writeHead(404).end();
+        return;
+      }
+      res
+        .writeHead(200, { 'Content-Type': 'text/html' })
+        .end(
+          page('Shipping', '<h1>Shipping</h1><p>Orders ship in 2 days.</p>'),
+        );
+    },
+  };
+
+  const source = (overrides: Partial<CrawlSource> = {}): CrawlSource => ({
+    id: 'b6c1f2d4-1c1e-4b8f-9a59-5d1f0c2e7a10',
+    tenantId: 'acme',
+    seedUrl: `${origin}/`,
+    maxDepth: 2,
+    maxPages: 20,
+    allowedDomains: ['127.0.0.1'],
+    requestsPerMinute: 60_000, // No throttling to speak of
+    attributes: { tags: ['help'] },
+    createdBy: 'user-1',
+    createdAt: '2024-05-01T00:00:00.000Z',
+    updatedAt: '2024-05-01T00:00:00.000Z',
+    pages: {},
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    crawlConfig.allowPrivateHosts = true; // The fixture site runs on loopback
+    server = createServer((req, res) => {
+      requests.push(req);
+      const handler = site[new URL(req.url, 'http://localhost').pathname];
+      if (handler) {
+        handler(req, res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Object.assign(crawlConfig, original);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    shippingRemoved = false;
+    registry = new InMemoryDocumentRegistry();
+    vectorStore = new InMemoryVectorStore(8, 'dotproduct');
+    crawler = new WebCrawlerService(
+      new KnowledgeIngestionService(
+        {} as S3Service,
+        new DocumentParserService(),
+        new EmbeddingService(
+          new TextChunkerService(),
+          new HashingEmbeddingProvider(8),
+        ),
+        vectorStore,
+        registry,
+        new SparseEncodingService(new InMemoryTermStatisticsStore()),
+        new InMemoryCollectionRegistry(),
+      ),
+    );
+  });
+
+  it('should index linked pages on the allowed domains that robots.txt allows', async () => {
+    const { pages, counts } = await crawler.crawl(source());
+
+    expect(Object.keys(pages).sort()).toEqual([
+      `${origin}/`,
+      `${origin}/docs/returns`,
+      `${origin}/docs/shipping`,
+    ]);
+    expect(counts).toEqual({
+      indexed: 3,
+      unchanged: 0,
+      removed: 0,
+      failed: 0,
+      disallowed: 1,
+    });
+    expect(requests.map((req) => req.url)).not.toContain('/private/admin');
+    expect(requests[0].headers['user-agent']).toBe(crawlConfig.userAgent);
+
+    const record = await registry.get(
+      pages[`${origin}/docs/returns`].documentId,
+    );
+    expect(record).toMatchObject({
+      tenantId: 'acme',
+      status: 'indexed',
+      sourceUrl: `${origin}/docs/returns`,
+      fileName: `${new URL(origin).host}/docs/returns`,
+      uploadedBy: 'user-1',
+    });
+    expect(record.s3Url).toBeUndefined();
+    const [chunk] = await vectorStore.fetch(
+      tenantNamespace('acme'),
+      record.chunkIds,
+    );
+    // Only the main content is indexed, not the navigation around it
+    expect(chunk.metadata).toMatchObject({
+      source_url: `${origin}/docs/returns`,
+      tags: ['help'],
+      text: expect.stringContaining('Send items back in 30 days.'),
+    });
+    expect(chunk.metadata.text).not.toContain('Home');
+    expect(chunk.metadata.s3_url).toBeUndefined();
+  });
+
+  it('should re-crawl with validators and remove pages that are gone', async () => {
+    const first = await crawler.crawl(source());
+    requests = [];
+    shippingRemoved = true;
+
+    const second = await crawler.crawl(source({ pages: first.pages }));
+
+    const returns = requests.find((req) => req.url === '/docs/returns');
+    expect(returns.headers['if-none-match']).toBe('"returns-v1"');
+    expect(second.counts).toEqual({
+      indexed: 0,
+      unchanged: 2, // One 304, and one page whose content had not changed
+      removed: 1,
+      failed: 0,
+      disallowed: 1,
+    });
+    expect(Object.keys(second.pages)).not.toContain(`${origin}/docs/shipping`);
+    expect(
+      await registry.get(first.pages[`${origin}/docs/shipping`].documentId),
+    ).toBeUndefined();
+  });
+
+  it('should start from the pages a sitemap lists', async () => {
+    const { pages } = await crawler.crawl(
+      source({ seedUrl: `${origin}/sitemap.xml`, maxDepth: 0 }),
+    );
+
+    expect(Object.keys(pages).sort()).toEqual([
+      `${origin}/`,
+      `${origin}/docs/returns`,
+    ]);
+  });
+
+  it('should index a redirected page under the URL it was served from', async () => {
+    const { pages, counts } = await crawler.crawl(
+      source({ seedUrl: `${origin}/returns`, maxDepth: 0 }),
+    );
+
+    expect(counts.indexed).toBe(1);
+    const record = await registry.get(pages[`${origin}/returns`].documentId);
+    expect(record.sourceUrl).toBe(`${origin}/docs/returns`);
+    const [chunk] = await vectorStore.fetch(
+      tenantNamespace('acme'),
+      record.chunkIds,
+    );
+    expect(chunk.metadata.source_url).toBe(`${origin}/docs/returns`);
+  });
+
+  it.each([
+    ['off the allowed domains', '/partner', '/partner-page'],
+    ['to a page robots.txt disallows', '/admin', '/private/admin'],
+  ])('should not follow a redirect %s', async (_, path, target) => {
+    const { pages, counts } = await crawler.crawl(
+      source({ seedUrl: `${origin}${path}`, maxDepth: 0 }),
+    );
+
+    expect(pages).toEqual({});
+    expect(counts).toMatchObject({ indexed: 0, disallowed: 1 });
+    expect(requests.map((req) => req.url)).not.toContain(target);
+  });
+});
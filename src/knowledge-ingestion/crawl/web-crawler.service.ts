@@ -0,0 +1,326 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { KnowledgeIngestionService } from '../knowledge-ingestion.service';
+import {
+  CrawlPageCounts,
+  CrawlSource,
+  CrawledPage,
+} from './crawl-source-registry.interface';
+import { FetchOptions, FetchedResource, WebFetcher } from './web-fetcher';
+import {
+  ALLOW_ALL,
+  DISALLOW_ALL,
+  RobotsPolicy,
+  parseRobotsTxt,
+} from './robots-txt';
+import { isSitemapUrl, parseSitemap } from './sitemap';
+import { readPageDirectives } from './page-links';
+import { normalizePageUrl } from './web-page';
+import { crawlConfig } from '../../config/crawl.config';
+import { sleep } from '../../common/utils/retry';
+import { decodeText } from '../../document-processing/formats/text-decoding';
+
+// A sitemap index may point at further sitemaps; stop following them after this many
+const MAX_SITEMAPS = 50;
+
+export interface CrawlResult {
+  pages: Record<string, CrawledPage>; // What the next crawl compares against
+  counts: CrawlPageCounts;
+}
+
+/**
+ * Crawls a website for a crawl source: breadth-first from the seed page or the
+ * pages of a sitemap, staying on the allowed domains and within the depth and
+ * page limits, obeying robots.txt and throttling requests to each host. Pages
+ * are indexed through the ingestion pipeline; pages that answer 304 to the
+ * validators of the last crawl are not downloaded again.
+ */
+@Injectable()
+export class WebCrawlerService {
+  private readonly logger = new Logger(WebCrawlerService.name);
+
+  constructor(private readonly ingestionService: KnowledgeIngestionService) {}
+
+  /**
+   * @param source What to crawl, and the pages its last crawl found
+   * @param shouldStop Checked before every page; the crawl ends early once it returns true
+   */
+  async crawl(
+    source: CrawlSource,
+    shouldStop: () => boolean = () => false,
+  ): Promise<CrawlResult> {
+    const session = new CrawlSession(source);
+    const counts: CrawlPageCounts = {
+      indexed: 0,
+      unchanged: 0,
+      removed: 0,
+      failed: 0,
+      disallowed: 0,
+    };
+    const pages: Record<string, CrawledPage> = {};
+    const queue: Array<{ url: string; depth: number }> = [];
+    const seen = new Set<string>();
+    // Documents of pages indexed before that are gone; removed once the crawl
+    // is over, unless another URL still leads to the same document
+    const retired = new Set<string>();
+    const enqueue = (href: string, depth: number) => {
+      const url = normalizePageUrl(href);
+      if (url && !seen.has(url) && session.isAllowedDomain(url)) {
+        seen.add(url);
+        queue.push({ url, depth });
+      }
+    };
+
+    if (isSitemapUrl(source.seedUrl)) {
+      for (const url of await this.readSitemaps(session, source.seedUrl)) {
+        enqueue(url, 0);
+      }
+    } else {
+      enqueue(source.seedUrl, 0);
+    }
+
+    let fetched = 0;
+    while (queue.length > 0 && fetched < source.maxPages && !shouldStop()) {
+      const { url, depth } = queue.shift();
+      const robots = await session.robotsFor(url);
+      if (!robots.isAllowed(url)) {
+        counts.disallowed++;
+        continue;
+      }
+      fetched++;
+
+      const known = source.pages[url];
+      try {
+        const { page, links } = await this.crawlPage(
+          session,
+          url,
+          known,
+          counts,
+        );
+        if (page) {
+          pages[url] = page;
+        }
+        if (known && known.documentId !== page?.documentId) {
+          retired.add(known.documentId);
+        }
+        if (depth < source.maxDepth) {
+          links.forEach((link) => enqueue(link, depth + 1));
+        }
+      } catch (error) {
+        counts.failed++;
+        this.logger.warn(`Could not crawl ${url}: ${error.message}`);
+        if (known) {
+          pages[url] = known; // Still indexed; compare against it next time
+        }
+      }
+    }
+
+    // A full crawl that no longer reached a page means it was unlinked or is now disallowed
+    if (queue.length === 0 && !shouldStop()) {
+      for (const [url, known] of Object.entries(source.pages)) {
+        if (!pages[url]) {
+          retired.add(known.documentId);
+        }
+      }
+    }
+    const kept = new Set(Object.values(pages).map((page) => page.documentId));
+    for (const documentId of retired) {
+      if (!kept.has(documentId)) {
+        await this.ingestionService.removeDocument(source.tenantId, documentId);
+        counts.removed++;
+      }
+    }
+
+    this.logger.log(
+      `Crawled ${fetched} pages of ${source.seedUrl} for tenant ${source.tenantId}: ${counts.indexed} indexed, ${counts.unchanged} unchanged, ${counts.removed} removed, ${counts.failed} failed, ${counts.disallowed} disallowed`,
+    );
+    return { pages, counts };
+  }
+
+  /**
+   * Fetch a page, conditionally if it was crawled before, and index it under
+   * the URL it was finally served from
+   * @returns What to remember about the page, unless it is gone, not indexable
+   * or redirects off the allowed domains, and the links to follow
+   */
+  private async crawlPage(
+    session: CrawlSession,
+    url: string,
+    known: CrawledPage | undefined,
+    counts: CrawlPageCounts,
+  ): Promise<{ page?: CrawledPage; links: string[] }> {
+    const { tenantId } = session.source;
+    const response = await session.fetchPage(url, known);
+    const crawledAt = new Date().toISOString();
+
+    if (response.notModified && known) {
+      counts.unchanged++;
+      return { page: { ...known, crawledAt }, links: known.links };
+    }
+    if (response.refusedRedirect) {
+      this.logger.log(
+        `Not following ${url} to ${response.refusedRedirect}: off the allowed domains or disallowed by robots.txt`,
+      );
+      counts.disallowed++;
+      return { links: [] };
+    }
+    if (response.status === 404 || response.status === 410) {
+      if (!known) {
+        counts.failed++;
+      }
+      return { links: [] };
+    }
+    if (!response.body) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const finalUrl = normalizePageUrl(response.url) ?? url;
+    const html = /html/i.test(response.contentType ?? '');
+    const directives = html
+      ? readPageDirectives(response.body, finalUrl)
+      : { links: [], noindex: false, nofollow: false };
+    if (directives.noindex) {
+      counts.disallowed++;
+      return { links: directives.links }; // Its links may still be followed
+    }
+
+    const result = await this.ingestionService.processWebPage(
+      tenantId,
+      { url: finalUrl, body: response.body, contentType: response.contentType },
+      {
+        attributes: session.source.attributes,
+        uploadedBy: session.source.createdBy,
+      },
+    );
+    counts[result.skipped ? 'unchanged' : 'indexed']++;
+    const { links } = directives;
+    return {
+      page: {
+        documentId: result.documentId,
+        etag: response.etag,
+        lastModified: response.lastModified,
+        links,
+        crawledAt,
+      },
+      links,
+    };
+  }
+
+  /**
+   * The pages listed by a sitemap and the sitemaps it points at, in turn
+   */
+  private async readSitemaps(
+    session: CrawlSession,
+    sitemapUrl: string,
+  ): Promise<string[]> {
+    const pending = [sitemapUrl];
+    const visited = new Set<string>();
+    const pages: string[] = [];
+    while (pending.length > 0 && visited.size < MAX_SITEMAPS) {
+      const url = pending.shift();
+      if (visited.has(url)) {
+        continue;
+      }
+      visited.add(url);
+      try {
+        if (!(await session.robotsFor(url)).isAllowed(url)) {
+          continue;
+        }
+        const response = await session.fetch(url);
+        if (!response.body) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const sitemap = parseSitemap(decodeText(response.body));
+        pages.push(...sitemap.pages);
+        pending.push(...sitemap.sitemaps);
+      } catch (error) {
+        this.logger.warn(`Could not read sitemap ${url}: ${error.message}`);
+      }
+    }
+    return pages;
+  }
+}
+
+/**
+ * The per-crawl state shared by every request: robots.txt policies and when
+ * each host may next be sent a request
+ */
+class CrawlSession {
+  private readonly fetcher = new WebFetcher({
+    userAgent: crawlConfig.userAgent,
+    timeoutMs: crawlConfig.requestTimeoutMs,
+    maxSizeBytes: crawlConfig.maxPageSizeBytes,
+    allowPrivateHosts: crawlConfig.allowPrivateHosts,
+  });
+  private readonly robots = new Map<string, Promise<RobotsPolicy>>(); // By origin, as robots.txt applies
+  private readonly nextRequestAt = new Map<string, number>(); // By host name
+
+  constructor(readonly source: CrawlSource) {}
+
+  isAllowedDomain(url: string): boolean {
+    const { hostname } = new URL(url);
+    return this.source.allowedDomains.some(
+      (domain) => hostname === domain || hostname.endsWith(`.${domain}`),
+    );
+  }
+
+  robotsFor(url: string): Promise<RobotsPolicy> {
+    const { origin } = new URL(url);
+    if (!this.robots.has(origin)) {
+      this.robots.set(origin, this.fetchRobots(origin));
+    }
+    return this.robots.get(origin);
+  }
+
+  /**
+   * Fetch a URL once its host's request interval has passed
+   */
+  async fetch(url: string, options?: FetchOptions): Promise<FetchedResource> {
+    const { origin, hostname } = new URL(url);
+    const policy = this.robots.has(origin)
+      ? await this.robots.get(origin)
+      : ALLOW_ALL;
+    await this.throttle(hostname, policy);
+    return this.fetcher.fetch(url, options);
+  }
+
+  /**
+   * Fetch a page, only following redirects that stay on the allowed domains
+   * and that robots.txt allows
+   * @param validators What the last crawl of the page saw, to fetch it conditionally
+   */
+  fetchPage(url: string, validators?: CrawledPage): Promise<FetchedResource> {
+    return this.fetch(url, {
+      etag: validators?.etag,
+      lastModified: validators?.lastModified,
+      followRedirect: async (target) =>
+        this.isAllowedDomain(target) &&
+        (await this.robotsFor(target)).isAllowed(target),
+    });
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsPolicy> {
+    try {
+      const response = await this.fetch(`${origin}/robots.txt`);
+      if (response.body) {
+        return parseRobotsTxt(decodeText(response.body), crawlConfig.userAgent);
+      }
+      // No robots.txt means no restrictions; a failing one means stay away
+      return response.status < 500 ? ALLOW_ALL : DISALLOW_ALL;
+    } catch {
+      return DISALLOW_ALL;
+    }
+  }
+
+  private async throttle(host: string, policy: RobotsPolicy): Promise<void> {
+    const intervalMs = Math.max(
+      60_000 / Math.max(this.source.requestsPerMinute, 1),
+      (policy.crawlDelaySeconds ?? 0) * 1000,
+    );
+    const now = Date.now();
+    const at = Math.max(now, this.nextRequestAt.get(host) ?? now);
+    this.nextRequestAt.set(host, at + intervalMs);
+    if (at > now) {
+      await sleep(at - now);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import * as dns from 'dns';
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import { WebFetcher, isPrivateAddress } from './web-fetcher';
+
+describe('WebFetcher', () => {
+  const fetcher = new WebFetcher({
+    userAgent: 'TestBot/1.0',
+    timeoutMs: 1000,
+    maxSizeBytes: 1024,
+    allowPrivateHosts: false,
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    'http://127.0.0.1/',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:169.254.169.254]/latest/meta-data/',
+    'http://0.0.0.0:8080/',
+  ])('should refuse to fetch %s', async (url) => {
+    const get = jest.spyOn(http, 'get');
+
+    await expect(fetcher.fetch(url)).rejects.toThrow(/private address/);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should refuse host names that resolve to a private address', async () => {
+    jest
+      .spyOn(dns, 'lookup')
+      .mockImplementation(((
+        _hostname: string,
+        options: dns.LookupOptions,
+        callback: (...args: unknown[]) => void,
+      ) =>
+        options.all
+          ? callback(null, [{ address: '10.0.0.5', family: 4 }])
+          : callback(null, '10.0.0.5', 4)) as unknown as typeof dns.lookup);
+
+    await expect(fetcher.fetch('http://intranet.example/')).rejects.toThrow(
+      /resolves to the private address 10\.0\.0\.5/,
+    );
+  });
+
+  it('should refuse a redirect to a private host', async () => {
+    const get = jest.spyOn(http, 'get').mockImplementation((() => {
+      const request = new EventEmitter();
+      setImmediate(() =>
+        request.emit('response', {
+          statusCode: 302,
+          headers: { location: 'http://169.254.169.254/latest/meta-data/' },
+          destroy: jest.fn(),
+        }),
+      );
+      return request;
+    }) as unknown as typeof http.get);
+
+    await expect(fetcher.fetch('http://93.184.216.34/')).rejects.toThrow(
+      /169\.254\.169\.254 is a private address/,
+    );
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell private addresses from public ones in every notation', () => {
+    const private_ = [
+      '::ffff:7f00:1', // ::ffff:127.0.0.1 as the URL parser writes it
+      '::ffff:a9fe:a9fe',
+      '64:ff9b::a00:1',
+      'fec0::1',
+      'fd00::1',
+      '192.0.0.8',
+      '198.18.0.1',
+      '224.0.0.1',
+      '255.255.255.255',
+    ];
+    const public_ = ['93.184.216.34', '2606:4700::1111', '8.8.8.8'];
+
+    expect(private_.filter((address) => !isPrivateAddress(address))).toEqual(
+      [],
+    );
+    expect(public_.filter(isPrivateAddress)).toEqual([]);
+  });
+});
@@ -0,0 +1,224 @@
+import { lookup } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+const MAX_REDIRECTS = 5;
+
+// Addresses a tenant's crawl must never reach: internal networks, loopback,
+// link-local (cloud metadata endpoints), special-purpose and multicast ranges.
+// IPv4 rules also match the IPv4-mapped IPv6 form of an address (::ffff:0:0/96),
+// which is why that range has no rule of its own: it would match every IPv4 address.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 3], // Multicast, reserved and broadcast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['fec0::', 10], // Site-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface WebFetcherOptions {
+  userAgent: string;
+  timeoutMs: number;
+  maxSizeBytes: number;
+  allowPrivateHosts: boolean;
+}
+
+export interface FetchOptions {
+  etag?: string; // Sent as If-None-Match
+  lastModified?: string; // Sent as If-Modified-Since
+  // Asked before each redirect is followed; a refused redirect is returned as it is
+  followRedirect?: (url: string) => boolean | Promise<boolean>;
+}
+
+export interface FetchedResource {
+  url: string; // After following redirects
+  status: number;
+  notModified: boolean; // 304: the copy the conditional headers describe is current
+  body?: Buffer; // Only for 2xx responses
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+  refusedRedirect?: string; // Where a redirect followRedirect refused pointed to
+}
+
+/**
+ * Fetches pages for the crawler: follows redirects itself so every hop is
+ * checked, connects only to addresses checked against private networks, sends
+ * conditional headers, and gives up on slow or oversized responses
+ */
+export class WebFetcher {
+  constructor(private readonly options: WebFetcherOptions) {}
+
+  async fetch(
+    url: string,
+    options: FetchOptions = {},
+  ): Promise<FetchedResource> {
+    let target = url;
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.request(target, options);
+
+      const location = response.headers.location;
+      if (response.statusCode >= 300 && response.statusCode < 400 && location) {
+        response.destroy();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`Too many redirects fetching ${url}`);
+        }
+        const next = new URL(location, target).toString();
+        if (options.followRedirect && !(await options.followRedirect(next))) {
+          return {
+            url: target,
+            status: response.statusCode,
+            notModified: false,
+            refusedRedirect: next,
+          };
+        }
+        target = next;
+        continue;
+      }
+
+      const header = (name: string) => {
+        const value = response.headers[name];
+        return Array.isArray(value) ? value[0] : value;
+      };
+      const resource: FetchedResource = {
+        url: target,
+        status: response.statusCode,
+        notModified: response.statusCode === 304,
+        contentType: header('content-type'),
+        etag: header('etag'),
+        lastModified: header('last-modified'),
+      };
+      if (response.statusCode >= 200 && response.statusCode < 300) {
+        resource.body = await this.readBody(response, target);
+      } else {
+        response.destroy();
+      }
+      return resource;
+    }
+  }
+
+  /**
+   * Send one GET request, without following redirects
+   * @throws if the URL is not http(s) or its host is a private address
+   */
+  private request(
+    url: string,
+    options: FetchOptions,
+  ): Promise<http.IncomingMessage> {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error(
+        `Refusing to fetch ${url}: only http and https are crawled`,
+      );
+    }
+    const host = parsed.hostname.replace(/^\[|\]$/g, ''); // IPv6 literals are bracketed
+    if (
+      !this.options.allowPrivateHosts &&
+      isIP(host) &&
+      isPrivateAddress(host)
+    ) {
+      throw new Error(`Refusing to fetch ${url}: ${host} is a private address`);
+    }
+
+    const client = parsed.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.get(parsed, {
+        headers: {
+          'user-agent': this.options.userAgent,
+          ...(options.etag ? { 'if-none-match': options.etag } : {}),
+          ...(options.lastModified
+            ? { 'if-modified-since': options.lastModified }
+            : {}),
+        },
+        // Names are checked as they are resolved, so the socket connects to the address checked
+        lookup: this.options.allowPrivateHosts ? undefined : publicLookup,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      request.on('response', resolve);
+      request.on('error', reject);
+    });
+  }
+
+  private async readBody(
+    response: http.IncomingMessage,
+    url: string,
+  ): Promise<Buffer> {
+    const declared = Number(response.headers['content-length']);
+    if (declared > this.options.maxSizeBytes) {
+      response.destroy();
+      throw new Error(
+        `${url} is ${declared} bytes, more than the limit of ${this.options.maxSizeBytes} bytes`,
+      );
+    }
+    const parts: Buffer[] = [];
+    let size = 0;
+    for await (const part of response) {
+      size += part.length;
+      if (size > this.options.maxSizeBytes) {
+        response.destroy();
+        throw new Error(
+          `${url} is more than the limit of ${this.options.maxSizeBytes} bytes`,
+        );
+      }
+      parts.push(part);
+    }
+    return Buffer.concat(parts);
+  }
+}
+
+/**
+ * Whether an IP address is in a network the crawler must not reach
+ */
+export function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(
+    address,
+    isIP(address) === 6 ? 'ipv6' : 'ipv4',
+  );
+}
+
+/**
+ * dns.lookup, failing for names that resolve to a private address
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    // Happy eyeballs asks for every address at once
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    const blocked = addresses.find((entry: { address: string }) =>
+      isPrivateAddress(entry.address),
+    );
+    if (blocked) {
+      callback(
+        new Error(
+          `Refusing to connect to ${hostname}: it resolves to the private address ${blocked.address}`,
+        ),
+        address,
+        family,
+      );
+      return;
+    }
+    callback(null, address, family);
+  });
+};
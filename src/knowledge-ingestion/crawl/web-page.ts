@@ -0,0 +1,56 @@
+import { tenantKeyPrefix } from '../../common/tenancy/tenant-scope';
+import { sha256 } from '../../common/utils/content-hash';
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+/**
+ * A page the crawler fetched, ready to be parsed and indexed
+ */
+export interface WebPage {
+  url: string; // Normalized, see normalizePageUrl
+  body: Buffer;
+  contentType?: string;
+}
+
+/**
+ * The document ID of a crawled page: a key in the tenant's prefix derived from
+ * its URL, so the same page always maps to the same document
+ */
+export function webPageDocumentId(tenantId: string, url: string): string {
+  return `${tenantKeyPrefix(tenantId)}web/${sha256(url).slice(0, 32)}`;
+}
+
+/**
+ * The name a crawled page is cited by, e.g. help.example.com/returns
+ */
+export function webPageFileName(url: string): string {
+  const { host, pathname } = new URL(url);
+  return `${host}${pathname.replace(/\/+$/, '')}`.slice(
+    0,
+    MAX_FILE_NAME_LENGTH,
+  );
+}
+
+/**
+ * Resolve a link against the page it is on and drop its fragment, so every
+ * spelling of a page's address compares equal
+ * @returns undefined for links that are not http(s) or cannot be parsed
+ */
+export function normalizePageUrl(
+  href: string,
+  base?: string,
+): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(href, base);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return undefined;
+  }
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+  return url.toString();
+}
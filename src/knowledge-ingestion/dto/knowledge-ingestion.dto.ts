@@ -1,8 +1,314 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Length,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { IsS3ObjectUrl } from '../../s3/is-s3-object-url.validator';
+import { UPLOAD_CONTENT_TYPES } from '../upload-content-types';
+import { uploadConfig } from '../../config/upload.config';
+import { crawlConfig } from '../../config/crawl.config';
+import { ingestionConfig } from '../../config/ingestion.config';
+import { IsMetadataLabels } from '../../common/validation/is-metadata-labels.validator';
+import {
+  LANGUAGE_PATTERN,
+  TAG_PATTERN,
+} from '../../document-processing/metadata/document-metadata';
+import { CrawlSource } from '../crawl/crawl-source-registry.interface';
+import { TEXT_FORMATS, TextFormat } from '../text/text-entry';
+import { ChunkChanges } from '../jobs/ingestion-job.types';
+
+const MAX_TAGS = 20;
+
+// S3 limits on a multipart upload
+const MAX_PART_NUMBER = 10000;
+const MAX_PARTS_PER_SIGN_REQUEST = 1000;
+
+const ALLOWED_CONTENT_TYPES = Object.keys(UPLOAD_CONTENT_TYPES);
+
 export class GetPresignedUrlDto {
+  @IsString()
+  @Length(1, 200)
+  // Kept as object metadata and shown in citations; the S3 key itself is a UUID
+  @Matches(/^[\w][\w .()-]*$/, {
+    message:
+      'fileName may only contain letters, digits, spaces, dots, hyphens, underscores and parentheses',
+  })
   fileName: string;
-  fileType: string;
+
+  @IsIn(ALLOWED_CONTENT_TYPES, {
+    message: `fileType must be one of: ${ALLOWED_CONTENT_TYPES.join(', ')}`,
+  })
+  fileType: string; // MIME type, e.g. application/pdf; the upload must be sent with this Content-Type
+
+  @IsOptional()
+  @IsUUID()
+  collectionId?: string; // Uploaded into the collection's prefix, so the document joins it when processed
 }
 
-export class ProcessS3DocumentDto {
+// Attributes a document is indexed with; on an update they replace those the
+// document had, and attributes left out are kept
+export class DocumentAttributesDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS)
+  @Matches(TAG_PATTERN, {
+    each: true,
+    message:
+      'each tag must be 1-50 letters, digits, spaces or _ . : / - and start with a letter or digit',
+  })
+  tags?: string[]; // Matched case-insensitively; [] removes them all
+
+  @IsOptional()
+  @Matches(LANGUAGE_PATTERN, {
+    message: 'language must be a lowercase ISO 639-1 code, e.g. en',
+  })
+  language?: string;
+
+  @IsOptional()
+  @IsMetadataLabels()
+  labels?: Record<string, string>; // e.g. { department: 'hr' }; filter on them with where.labels
+
+  @IsOptional()
+  @IsUUID()
+  collectionId?: string; // Moves the document into this collection
+}
+
+// collectionId defaults to the collection the document was uploaded into
+export class ProcessS3DocumentDto extends DocumentAttributesDto {
+  @IsS3ObjectUrl()
   s3ObjectUrl: string; // e.g., s3://your-bucket-name/path/to/your/file.pdf or https://your-bucket.s3.region.amazonaws.com/path/to/file
-} 
\ No newline at end of file
+}
+
+export class PresignedUploadDto {
+  url: string; // Form action to POST the file to
+  fields: Record<string, string>; // Form fields to send before the file field
+  s3ObjectUrl: string; // Pass to process-document once the upload has finished
+  expiresAt: string;
+  maxFileSizeBytes: number;
+}
+
+export class InitiateMultipartUploadDto extends GetPresignedUrlDto {
+  @IsInt()
+  @Min(1)
+  @Max(uploadConfig.multipartMaxFileSizeBytes)
+  fileSize: number; // In bytes; decides the part size and count
+}
+
+export class MultipartUploadDto {
+  uploadId: string;
+  s3ObjectUrl: string; // Identifies the upload in later calls, and is passed to process-document once complete
+  partSizeBytes: number; // Every part but the last must be exactly this size
+  partCount: number;
+  maxFileSizeBytes: number;
+}
+
+export class MultipartUploadRefDto {
+  @IsS3ObjectUrl()
+  s3ObjectUrl: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  uploadId: string;
+}
+
+export class SignMultipartPartsDto extends MultipartUploadRefDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_PARTS_PER_SIGN_REQUEST)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(MAX_PART_NUMBER, { each: true })
+  partNumbers: number[];
+}
+
+export class SignedPartUrlsDto {
+  parts: Array<{ partNumber: number; url: string }>; // PUT each part's bytes to its URL and keep the ETag header of the response
+  expiresAt: string;
+}
+
+export class UploadedPartDto {
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PART_NUMBER)
+  partNumber: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  etag: string;
+}
+
+export class CompleteMultipartUploadDto extends MultipartUploadRefDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_PART_NUMBER)
+  @ValidateNested({ each: true })
+  @Type(() => UploadedPartDto)
+  parts: UploadedPartDto[];
+}
+
+export class CompletedUploadDto {
+  s3ObjectUrl: string;
+  sizeBytes: number;
+}
+
+// The document attributes are given to every page indexed
+export class CreateCrawlSourceDto extends DocumentAttributesDto {
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(2048)
+  seedUrl: string; // A page to start from, or a sitemap.xml listing the pages to crawl
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  maxDepth?: number; // Links followed from the seed pages, defaults to 3
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(crawlConfig.maxPagesLimit)
+  maxPages?: number; // Pages fetched per crawl, defaults to 100
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS)
+  @Matches(/^[a-z0-9-]+(\.[a-z0-9-]+)*$/i, {
+    each: true,
+    message: 'each allowed domain must be a host name, e.g. docs.example.com',
+  })
+  allowedDomains?: string[]; // Subdomains included; defaults to the seed URL's host
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(600)
+  requestsPerMinute?: number; // Per host, defaults to 30; a larger robots.txt Crawl-delay wins
+
+  @IsOptional()
+  @IsInt()
+  @Min(15)
+  recrawlIntervalMinutes?: number; // Crawl again this often; unchanged pages are not downloaded again
+}
+
+// A crawl source as returned by the API, without the per-page crawl state
+export interface CrawlSourceDto extends Omit<CrawlSource, 'pages'> {
+  pageCount: number; // Pages indexed as of the last crawl
+}
+
+const MAX_FAQ_QUESTION_LENGTH = 2000;
+// The answer is stored in the metadata of the question's vector, which Pinecone limits to 40 KB
+const MAX_FAQ_ANSWER_LENGTH = 10000;
+
+const TEXT_FORMAT_NAMES = Object.keys(TEXT_FORMATS);
+
+// Chosen by the client, e.g. a CRM record ID; hashed into the document ID, so any printable ASCII will do
+const EXTERNAL_ID_PATTERN = /^[^\s][\x20-\x7e]{0,199}$/;
+
+// The externalId path parameter of the text and FAQ routes
+export class ExternalIdParamDto {
+  @Matches(EXTERNAL_ID_PATTERN, {
+    message:
+      'externalId must be 1-200 printable ASCII characters and not start with a space',
+  })
+  externalId: string;
+}
+
+export class TextEntryDto extends DocumentAttributesDto {
+  @IsString()
+  @Length(1, 200)
+  title: string; // Shown in citations
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(ingestionConfig.maxTextLength)
+  text: string;
+
+  @IsOptional()
+  @IsIn(TEXT_FORMAT_NAMES)
+  format?: TextFormat; // How to parse text; defaults to text
+}
+
+export class IngestTextDto extends TextEntryDto {
+  @IsOptional()
+  @Matches(EXTERNAL_ID_PATTERN, {
+    message:
+      'externalId must be 1-200 printable ASCII characters and not start with a space',
+  })
+  externalId?: string; // Submit the same ID again to update the entry; generated if left out
+}
+
+export class FaqEntryDto extends DocumentAttributesDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_FAQ_QUESTION_LENGTH)
+  question: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_FAQ_ANSWER_LENGTH)
+  answer: string;
+
+  @IsOptional()
+  @IsIn(TEXT_FORMAT_NAMES)
+  format?: TextFormat; // How to parse the answer; defaults to text
+}
+
+export class FaqDto extends FaqEntryDto {
+  @Matches(EXTERNAL_ID_PATTERN, {
+    message:
+      'externalId must be 1-200 printable ASCII characters and not start with a space',
+  })
+  externalId: string;
+}
+
+export class IngestFaqsDto extends DocumentAttributesDto {
+  // The attributes above apply to every entry that does not set its own
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(ingestionConfig.maxFaqEntries)
+  @ArrayUnique((entry: FaqDto) => entry?.externalId, {
+    message: 'entries must have distinct externalIds',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => FaqDto)
+  entries: FaqDto[];
+}
+
+export class TextEntryResultDto {
+  externalId: string;
+  documentId: string;
+  skipped: boolean; // The entry was unchanged since it was last indexed
+  changes: ChunkChanges;
+}
+
+export class FaqBatchResultDto {
+  indexed: number;
+  unchanged: number;
+  failed: number;
+  entries: Array<{
+    externalId: string;
+    documentId: string;
+    status: 'indexed' | 'unchanged' | 'failed';
+    changes?: ChunkChanges;
+    error?: string;
+  }>;
+}
@@ -0,0 +1,91 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  S3EventMessageHandler,
+  S3EventQueue,
+} from './s3-event-queue.interface';
+
+/**
+ * Local stand-in for SQS. Each message is a JSON file in the directory,
+ * handled in name order and deleted once the handler succeeds. Failed
+ * messages are retried on the next poll; malformed ones are renamed to
+ * `.rejected` and left for inspection.
+ */
+export class FileEventQueue implements S3EventQueue {
+  private readonly logger = new Logger(FileEventQueue.name);
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private closed = false;
+
+  constructor(
+    private readonly directory: string,
+    private readonly pollIntervalMs: number,
+  ) {}
+
+  /**
+   * Drop a notification into the queue, as S3 would send it to SQS
+   */
+  async send(body: unknown): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = path.join(
+      this.directory,
+      `${Date.now().toString().padStart(15, '0')}-${randomUUID()}.json`,
+    );
+    // Write then rename so a poll never reads a half-written message
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(body));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async consume(handler: S3EventMessageHandler): Promise<void> {
+    const tick = () => {
+      this.polling = this.poll(handler).finally(() => {
+        if (!this.closed) {
+          this.timer = setTimeout(tick, this.pollIntervalMs);
+        }
+      });
+    };
+    tick();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.timer);
+    await this.polling;
+  }
+
+  private async poll(handler: S3EventMessageHandler) {
+    const files = await fs.readdir(this.directory).catch(() => []);
+    for (const name of files.filter((file) => file.endsWith('.json')).sort()) {
+      if (this.closed) {
+        return;
+      }
+      const file = path.join(this.directory, name);
+      let body: unknown;
+      try {
+        body = JSON.parse(await fs.readFile(file, 'utf-8'));
+      } catch {
+        this.logger.warn(`Rejecting malformed message ${name}`);
+        // The file may be gone already, e.g. taken by another consumer
+        await fs
+          .rename(file, `${file}.rejected`)
+          .catch((error) =>
+            this.logger.warn(
+              `Could not reject message ${name}: ${error.message}`,
+            ),
+          );
+        continue;
+      }
+
+      try {
+        await handler(body);
+        await fs.unlink(file);
+      } catch (error) {
+        this.logger.error(
+          `Message ${name} failed and will be retried: ${error.message}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { S3EventIngestionService } from './s3-event-ingestion.service';
+import { FileEventQueue } from './file-event-queue';
+import { KnowledgeIngestionService } from '../knowledge-ingestion.service';
+import { IngestionJobService } from '../jobs/ingestion-job.service';
+import { InMemoryDocumentRegistry } from '../../documents/registry/in-memory-document-registry';
+import { S3Service } from '../../s3/s3.service';
+import { VectorStore } from '../../vector-store/vector-store.interface';
+import { awsConfig } from '../../config/aws.config';
+import { S3ObjectNotFoundError } from '../../common/errors/domain-errors';
+import { SparseEncodingService } from '../../document-processing/sparse/sparse-encoding.service';
+import { InMemoryTermStatisticsStore } from '../../document-processing/sparse/in-memory-term-statistics.store';
+import { InMemoryCollectionRegistry } from '../../collections/registry/in-memory-collection-registry';
+
+const event = (
+  eventName: string,
+  key: string,
+  extra: { eTag?: string; bucket?: string } = {},
+) => ({
+  Records: [
+    {
+      eventSource: 'aws:s3',
+      eventName,
+      s3: {
+        bucket: { name: extra.bucket ?? 'docs-bucket' },
+        object: { key, size: 1024, eTag: extra.eTag },
+      },
+    },
+  ],
+});
+
+describe('S3EventIngestionService', () => {
+  const originalBucket = awsConfig.s3BucketName;
+  const key = 'tenants/acme/uploads/Q3 report.pdf';
+  const encodedKey = 'tenants/acme/uploads/Q3+report.pdf'; // As notifications send it
+  let directory: string;
+  let queue: FileEventQueue;
+  let registry: InMemoryDocumentRegistry;
+  let enqueueDocument: jest.Mock;
+  let headObject: jest.Mock;
+  let deleteVectors: jest.Mock;
+  let service: S3EventIngestionService;
+
+  beforeAll(() => {
+    awsConfig.s3BucketName = 'docs-bucket';
+  });
+
+  afterAll(() => {
+    awsConfig.s3BucketName = originalBucket;
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 's3-events-'));
+    queue = new FileEventQueue(directory, 5);
+    registry = new InMemoryDocumentRegistry();
+    enqueueDocument = jest.fn(async () => ({ id: 'job-1' }));
+    headObject = jest.fn(async () => {
+      throw new S3ObjectNotFoundError(key);
+    });
+    deleteVectors = jest.fn();
+
+    const s3Service = new S3Service();
+    const fakeS3 = {
+      getKeyFromUrl: (url: string) => s3Service.getKeyFromUrl(url),
+      getObjectUrl: (objectKey: string) => s3Service.getObjectUrl(objectKey),
+      headObject,
+    } as unknown as S3Service;
+    const ingestionService = new KnowledgeIngestionService(
+      fakeS3,
+      null,
+      null,
+      {
+        delete: deleteVectors,
+        listIds: jest.fn(async () => [`${key}#chunk-7`]),
+      } as unknown as VectorStore,
+      registry,
+      new SparseEncodingService(new InMemoryTermStatisticsStore()),
+      new InMemoryCollectionRegistry(),
+    );
+    service = new S3EventIngestionService(
+      fakeS3,
+      ingestionService,
+      { enqueueDocument } as unknown as IngestionJobService,
+      queue,
+    );
+    await service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const drained = async () => {
+    for (let i = 0; i < 100; i++) {
+      if ((await fs.readdir(directory)).length === 0) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Queue was not drained');
+  };
+
+  it('should ingest each uploaded version once, however often it is delivered', async () => {
+    const created = event('ObjectCreated:Put', encodedKey, { eTag: 'etag-1' });
+    await queue.send(created);
+    await queue.send(created);
+    // The same event fanned out through SNS
+    await queue.send({
+      Type: 'Notification',
+      Message: JSON.stringify(created),
+    });
+    await drained();
+
+    expect(enqueueDocument).toHaveBeenCalledTimes(1);
+    expect(enqueueDocument).toHaveBeenCalledWith(
+      'acme',
+      's3://docs-bucket/tenants/acme/uploads/Q3%20report.pdf',
+    );
+    expect(await registry.get(key)).toMatchObject({
+      tenantId: 'acme',
+      status: 'processing',
+      etag: 'etag-1',
+    });
+
+    const summary = await service.handleNotification(
+      event('ObjectCreated:Put', encodedKey, {
+        eTag: 'etag-2',
+      }),
+    );
+    expect(summary).toEqual({ queued: 1, removed: 0, skipped: 0 });
+  });
+
+  it('should keep a message whose job could not be queued and retry it', async () => {
+    enqueueDocument.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    await queue.send(
+      event('ObjectCreated:Put', encodedKey, {
+        eTag: 'etag-1',
+      }),
+    );
+    await drained();
+
+    expect(enqueueDocument).toHaveBeenCalledTimes(2);
+    expect(await registry.get(key)).toMatchObject({ etag: 'etag-1' });
+  });
+
+  it('should remove documents whose object was deleted', async () => {
+    await registry.save({
+      id: key,
+      tenantId: 'acme',
+      s3Key: key,
+      s3Url: `s3://docs-bucket/${key}`,
+      fileName: 'Q3 report.pdf',
+      status: 'indexed',
+      chunkIds: [`${key}#chunk-0`],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    const summary = await service.handleNotification(
+      event('ObjectRemoved:Delete', encodedKey),
+    );
+
+    expect(summary).toEqual({ queued: 0, removed: 1, skipped: 0 });
+    expect(deleteVectors).toHaveBeenCalledWith('acme', [
+      `${key}#chunk-0`,
+      `${key}#chunk-7`,
+    ]);
+    expect(await registry.get(key)).toBeUndefined();
+  });
+
+  it('should ignore stale removals and objects outside a tenant prefix', async () => {
+    headObject.mockResolvedValue({ contentLength: 10, etag: 'etag-2' });
+
+    const summaries = [
+      await service.handleNotification(
+        event('ObjectRemoved:Delete', encodedKey),
+      ),
+      await service.handleNotification(
+        event('ObjectCreated:Put', 'exports/report.pdf', { eTag: 'etag-1' }),
+      ),
+      await service.handleNotification(
+        event('ObjectCreated:Put', 'tenants/acme/uploads/a.pdf', {
+          eTag: 'etag-1',
+          bucket: 'other-bucket',
+        }),
+      ),
+      await service.handleNotification({ Event: 's3:TestEvent' }),
+    ];
+
+    expect(summaries.map((summary) => summary.skipped)).toEqual([1, 1, 1, 0]);
+    expect(deleteVectors).not.toHaveBeenCalled();
+    expect(enqueueDocument).not.toHaveBeenCalled();
+  });
+
+  it('should skip malformed records and apply the rest of the notification', async () => {
+    const [valid] = event('ObjectCreated:Put', encodedKey, {
+      eTag: 'etag-1',
+    }).Records;
+
+    const summary = await service.handleNotification({
+      Records: [
+        null,
+        {
+          ...valid,
+          s3: { ...valid.s3, object: { key: 'tenants/acme/%E0%A4%A' } },
+        },
+        { ...valid, s3: { bucket: valid.s3.bucket, object: { key: 42 } } },
+        valid,
+      ],
+    });
+
+    expect(summary).toEqual({ queued: 1, removed: 0, skipped: 3 });
+    expect(enqueueDocument).toHaveBeenCalledTimes(1);
+    await expect(
+      service.handleNotification({
+        Type: 'Notification',
+        Message: '{"Records": [',
+      }),
+    ).resolves.toEqual({ queued: 0, removed: 0, skipped: 1 });
+  });
+});
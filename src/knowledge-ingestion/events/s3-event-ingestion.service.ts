@@ -0,0 +1,139 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { S3Service } from '../../s3/s3.service';
+import { KnowledgeIngestionService } from '../knowledge-ingestion.service';
+import { IngestionJobService } from '../jobs/ingestion-job.service';
+import { S3_EVENT_QUEUE, S3EventQueue } from './s3-event-queue.interface';
+import {
+  parseS3EventNotification,
+  S3ObjectEvent,
+} from './s3-event-notification';
+import { tenantIdFromKey } from '../../common/tenancy/tenant-scope';
+import { awsConfig } from '../../config/aws.config';
+import { S3ObjectNotFoundError } from '../../common/errors/domain-errors';
+
+export interface S3EventSummary {
+  queued: number; // Ingestion jobs started for new or changed objects
+  removed: number; // Documents removed along with their objects
+  skipped: number; // Duplicates, stale events, objects outside any tenant and malformed records
+}
+
+/**
+ * Keeps the index in step with the bucket: uploads are ingested and deleted
+ * objects removed without the client having to call process-document.
+ */
+@Injectable()
+export class S3EventIngestionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(S3EventIngestionService.name);
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly s3Service: S3Service,
+    private readonly ingestionService: KnowledgeIngestionService,
+    private readonly ingestionJobService: IngestionJobService,
+    @Optional()
+    @Inject(S3_EVENT_QUEUE)
+    private readonly queue?: S3EventQueue | null,
+  ) {}
+
+  async onModuleInit() {
+    if (this.queue) {
+      await this.queue.consume(async (body) => {
+        await this.handleNotification(body);
+      });
+      this.logger.log('Consuming S3 event notifications');
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.queue?.close();
+  }
+
+  /**
+   * Apply the object events of an S3 event notification. Notifications are
+   * handled one at a time, so redeliveries of an event cannot race each other.
+   * Malformed records are logged and skipped, as redelivering them cannot help.
+   * @param body The notification, as sent by S3 or wrapped by SNS
+   * @throws if an event could not be applied; the whole notification may be retried
+   */
+  handleNotification(body: unknown): Promise<S3EventSummary> {
+    const run = this.tail.then(() => this.applyEvents(body));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async applyEvents(body: unknown): Promise<S3EventSummary> {
+    const summary: S3EventSummary = { queued: 0, removed: 0, skipped: 0 };
+    const events = parseS3EventNotification(body, (reason) => {
+      this.logger.warn(`Skipping malformed S3 event notification: ${reason}`);
+      summary.skipped++;
+    });
+    for (const event of events) {
+      summary[await this.applyEvent(event)]++;
+    }
+    return summary;
+  }
+
+  private async applyEvent(
+    event: S3ObjectEvent,
+  ): Promise<keyof S3EventSummary> {
+    const tenantId = tenantIdFromKey(event.key);
+    if (event.bucket !== awsConfig.s3BucketName || !tenantId) {
+      this.logger.warn(
+        `Ignoring ${event.type} event for ${event.bucket}/${event.key}: not in a tenant prefix of the configured bucket`,
+      );
+      return 'skipped';
+    }
+    const s3ObjectUrl = this.s3Service.getObjectUrl(event.key);
+
+    if (event.type === 'created') {
+      if (event.key.endsWith('/') || !event.etag) {
+        return 'skipped'; // Folder placeholders have nothing to ingest
+      }
+      const claimed = await this.ingestionService.claimObjectVersion(
+        tenantId,
+        s3ObjectUrl,
+        event.etag,
+      );
+      if (!claimed) {
+        this.logger.log(
+          `Version ${event.etag} of ${event.key} is already ingested`,
+        );
+        return 'skipped';
+      }
+      try {
+        await this.ingestionJobService.enqueueDocument(tenantId, s3ObjectUrl);
+      } catch (error) {
+        await this.ingestionService.recordFailure(event.key, error);
+        throw error;
+      }
+      return 'queued';
+    }
+
+    // Notifications are not ordered; an object uploaded again since must stay indexed
+    if (await this.objectExists(event.key)) {
+      this.logger.log(`Ignoring removal of ${event.key}, it exists again`);
+      return 'skipped';
+    }
+    await this.ingestionService.removeDocument(tenantId, event.key);
+    return 'removed';
+  }
+
+  private async objectExists(key: string): Promise<boolean> {
+    try {
+      await this.s3Service.headObject(key);
+      return true;
+    } catch (error) {
+      if (error instanceof S3ObjectNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
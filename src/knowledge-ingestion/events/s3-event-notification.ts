@@ -0,0 +1,88 @@
+export interface S3ObjectEvent {
+  type: 'created' | 'removed';
+  bucket: string;
+  key: string; // Decoded; notifications URL-encode keys
+  etag?: string; // Identifies the object version, only set on created events
+  size?: number;
+}
+
+interface S3EventRecord {
+  eventSource?: string;
+  eventName?: string;
+  s3?: {
+    bucket?: { name?: string };
+    object?: { key?: string; size?: number; eTag?: string };
+  };
+}
+
+/**
+ * Extract the object events of an S3 event notification, delivered as is or
+ * wrapped in an SNS message. Test events and unrelated records yield nothing.
+ * @param onMalformed Told about each record, or SNS message, that cannot be
+ * read; the rest of the notification is still extracted
+ */
+export function parseS3EventNotification(
+  body: unknown,
+  onMalformed: (reason: string) => void = () => undefined,
+): S3ObjectEvent[] {
+  if (!body || typeof body !== 'object') {
+    return [];
+  }
+  const envelope = body as { Type?: string; Message?: unknown };
+  if (
+    envelope.Type === 'Notification' &&
+    typeof envelope.Message === 'string'
+  ) {
+    let message: unknown;
+    try {
+      message = JSON.parse(envelope.Message);
+    } catch {
+      onMalformed('the SNS message is not valid JSON');
+      return [];
+    }
+    return parseS3EventNotification(message, onMalformed);
+  }
+
+  const records = (body as { Records?: unknown }).Records;
+  if (!Array.isArray(records)) {
+    return [];
+  }
+  return records.flatMap((record: S3EventRecord | null, index) => {
+    if (!record || typeof record !== 'object') {
+      onMalformed(`record ${index} is not an object`);
+      return [];
+    }
+    const eventName = String(record.eventName ?? '');
+    const type = eventName.startsWith('ObjectCreated:')
+      ? 'created'
+      : eventName.startsWith('ObjectRemoved:')
+        ? 'removed'
+        : undefined;
+    const bucket = record.s3?.bucket?.name;
+    const key = record.s3?.object?.key;
+    if (record.eventSource !== 'aws:s3' || !type) {
+      return [];
+    }
+    if (typeof bucket !== 'string' || !bucket || typeof key !== 'string') {
+      onMalformed(`record ${index} has no bucket name or object key`);
+      return [];
+    }
+    let decodedKey: string;
+    try {
+      decodedKey = decodeURIComponent(key.replace(/\+/g, ' '));
+    } catch {
+      onMalformed(`record ${index} has a badly encoded object key: ${key}`);
+      return [];
+    }
+    const { eTag, size } = record.s3.object;
+    return [
+      {
+        type,
+        bucket,
+        key: decodedKey,
+        etag: typeof eTag === 'string' ? eTag.replace(/"/g, '') : undefined,
+        size: typeof size === 'number' ? size : undefined,
+      },
+    ];
+  });
+}
@@ -0,0 +1,42 @@
+import { S3EventQueue } from './s3-event-queue.interface';
+import { SqsEventQueue } from './sqs-event-queue';
+import { FileEventQueue } from './file-event-queue';
+
+export interface S3EventQueueConfig {
+  queueBackend: string;
+  sqsQueueUrl: string;
+  fileDirectory: string;
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+/**
+ * @returns The configured queue, or null when notifications only arrive through the webhook
+ */
+export function createS3EventQueue(
+  config: S3EventQueueConfig,
+  region?: string,
+): S3EventQueue | null {
+  switch (config.queueBackend) {
+    case 'none':
+      return null;
+
+    case 'sqs':
+      if (!config.sqsQueueUrl) {
+        throw new Error(
+          'S3_EVENTS_SQS_QUEUE_URL must be set to use the sqs backend',
+        );
+      }
+      return new SqsEventQueue(config.sqsQueueUrl, {
+        region,
+        batchSize: config.batchSize,
+        retryDelayMs: config.pollIntervalMs,
+      });
+
+    case 'file':
+      return new FileEventQueue(config.fileDirectory, config.pollIntervalMs);
+
+    default:
+      throw new Error(`Unknown S3 event queue backend: ${config.queueBackend}`);
+  }
+}
@@ -0,0 +1,14 @@
+export const S3_EVENT_QUEUE = 'S3_EVENT_QUEUE';
+
+// Throwing leaves the message on the queue to be delivered again
+export type S3EventMessageHandler = (body: unknown) => Promise<void>;
+
+/**
+ * Delivers S3 event notifications from a queue. Messages are removed only
+ * after the handler succeeds, so every notification is handled at least once.
+ */
+export interface S3EventQueue {
+  // Start polling and passing each message body, parsed as JSON, to the handler
+  consume(handler: S3EventMessageHandler): Promise<void>;
+  close(): Promise<void>;
+}
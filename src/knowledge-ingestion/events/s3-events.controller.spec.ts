@@ -0,0 +1,74 @@
+import { APP_FILTER } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { S3EventsController } from './s3-events.controller';
+import { S3EventIngestionService } from './s3-event-ingestion.service';
+import { WebhookSecretGuard } from './webhook-secret.guard';
+import { DomainExceptionFilter } from '../../common/errors/domain-exception.filter';
+import { s3EventsConfig } from '../../config/s3-events.config';
+
+describe('S3EventsController', () => {
+  let app: NestExpressApplication;
+  const handleNotification = jest.fn();
+  const originalSecret = s3EventsConfig.webhookSecret;
+
+  beforeAll(async () => {
+    s3EventsConfig.webhookSecret = 'hook-secret';
+    const moduleRef = await Test.createTestingModule({
+      controllers: [S3EventsController],
+      providers: [
+        WebhookSecretGuard,
+        {
+          provide: S3EventIngestionService,
+          useValue: { handleNotification },
+        },
+        { provide: APP_FILTER, useClass: DomainExceptionFilter },
+      ],
+    }).compile();
+    app = moduleRef.createNestApplication<NestExpressApplication>();
+    app.useBodyParser('text');
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    s3EventsConfig.webhookSecret = originalSecret;
+  });
+
+  beforeEach(() => jest.resetAllMocks());
+
+  it('should reject calls without the shared secret', async () => {
+    await request(app.getHttpServer())
+      .post('/knowledge-ingestion/s3-events')
+      .set('x-webhook-secret', 'guess')
+      .send({ Records: [] })
+      .expect(401);
+    await request(app.getHttpServer())
+      .post('/knowledge-ingestion/s3-events')
+      .auth('sns', 'guess')
+      .send({ Records: [] })
+      .expect(401)
+      .expect('WWW-Authenticate', 'Basic realm="s3-events"');
+
+    expect(handleNotification).not.toHaveBeenCalled();
+  });
+
+  it('should accept SNS notifications posted as text/plain', async () => {
+    handleNotification.mockResolvedValue({ queued: 1, removed: 0, skipped: 0 });
+    const notification = {
+      Type: 'Notification',
+      Message: JSON.stringify({ Records: [] }),
+    };
+
+    const response = await request(app.getHttpServer())
+      .post('/knowledge-ingestion/s3-events')
+      .auth('sns', 'hook-secret') // SNS cannot send custom headers
+      .set('content-type', 'text/plain; charset=UTF-8')
+      .send(JSON.stringify(notification))
+      .expect(202);
+
+    expect(handleNotification).toHaveBeenCalledWith(notification);
+    expect(response.body).toEqual({ queued: 1, removed: 0, skipped: 0 });
+  });
+});
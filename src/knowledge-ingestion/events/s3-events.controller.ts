@@ -0,0 +1,54 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  S3EventIngestionService,
+  S3EventSummary,
+} from './s3-event-ingestion.service';
+import { WebhookSecretGuard } from './webhook-secret.guard';
+
+@Controller('knowledge-ingestion/s3-events')
+@UseGuards(WebhookSecretGuard)
+export class S3EventsController {
+  private readonly logger = new Logger(S3EventsController.name);
+
+  constructor(
+    private readonly s3EventIngestionService: S3EventIngestionService,
+  ) {}
+
+  /**
+   * Receive an S3 event notification, directly or through an SNS subscription.
+   * A failure response makes the sender retry, which is safe: events are idempotent.
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async receive(@Body() notification: unknown): Promise<S3EventSummary> {
+    const body = this.parseBody(notification);
+    if (body?.Type === 'SubscriptionConfirmation') {
+      // Confirming subscribes the endpoint, so leave it to an operator
+      this.logger.warn(
+        `SNS subscription needs confirming: ${body.SubscribeURL}`,
+      );
+    }
+    return this.s3EventIngestionService.handleNotification(body);
+  }
+
+  // SNS posts JSON as text/plain, which arrives as a string
+  private parseBody(notification: unknown): Record<string, any> {
+    if (typeof notification !== 'string') {
+      return notification as Record<string, any>;
+    }
+    try {
+      return JSON.parse(notification);
+    } catch {
+      throw new BadRequestException('The notification is not valid JSON.');
+    }
+  }
+}
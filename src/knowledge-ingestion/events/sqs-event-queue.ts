@@ -0,0 +1,105 @@
+import { Logger } from '@nestjs/common';
+import * as AWS from 'aws-sdk';
+import {
+  S3EventMessageHandler,
+  S3EventQueue,
+} from './s3-event-queue.interface';
+
+// SQS long polling holds a receive open for at most 20 seconds
+const WAIT_TIME_SECONDS = 20;
+
+/**
+ * Long-polls an SQS queue the bucket sends its event notifications to.
+ * Failed messages become visible again after the queue's visibility timeout;
+ * configure a dead-letter queue to stop retrying them eventually.
+ */
+export class SqsEventQueue implements S3EventQueue {
+  private readonly logger = new Logger(SqsEventQueue.name);
+  private readonly sqs: AWS.SQS;
+  private receiving?: AWS.Request<AWS.SQS.ReceiveMessageResult, AWS.AWSError>;
+  private polling?: Promise<void>;
+  private closed = false;
+
+  constructor(
+    private readonly queueUrl: string,
+    private readonly options: {
+      region?: string;
+      batchSize: number;
+      retryDelayMs: number;
+    },
+  ) {
+    this.sqs = new AWS.SQS({ region: options.region });
+  }
+
+  async consume(handler: S3EventMessageHandler): Promise<void> {
+    this.polling = this.poll(handler);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.receiving?.abort();
+    await this.polling;
+  }
+
+  private async poll(handler: S3EventMessageHandler) {
+    while (!this.closed) {
+      try {
+        this.receiving = this.sqs.receiveMessage({
+          QueueUrl: this.queueUrl,
+          MaxNumberOfMessages: Math.min(
+            Math.max(this.options.batchSize, 1),
+            10,
+          ),
+          WaitTimeSeconds: WAIT_TIME_SECONDS,
+        });
+        const { Messages = [] } = await this.receiving.promise();
+        for (const message of Messages) {
+          await this.handle(message, handler);
+        }
+      } catch (error) {
+        if (this.closed) {
+          return;
+        }
+        this.logger.error(
+          `Receiving from ${this.queueUrl} failed: ${error.message}`,
+        );
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.options.retryDelayMs),
+        );
+      }
+    }
+  }
+
+  private async handle(
+    message: AWS.SQS.Message,
+    handler: S3EventMessageHandler,
+  ) {
+    let body: unknown;
+    try {
+      body = JSON.parse(message.Body ?? '');
+    } catch {
+      // Would fail the same way on every delivery
+      this.logger.warn(`Dropping malformed message ${message.MessageId}`);
+      await this.delete(message);
+      return;
+    }
+
+    try {
+      await handler(body);
+      await this.delete(message);
+    } catch (error) {
+      this.logger.error(
+        `Message ${message.MessageId} failed and will be redelivered: ${error.message}`,
+      );
+    }
+  }
+
+  private async delete(message: AWS.SQS.Message) {
+    await this.sqs
+      .deleteMessage({
+        QueueUrl: this.queueUrl,
+        ReceiptHandle: message.ReceiptHandle,
+      })
+      .promise();
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, timingSafeEqual } from 'crypto';
+import { s3EventsConfig } from '../../config/s3-events.config';
+
+export const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+
+/**
+ * Admit webhook calls that carry the shared secret, in the x-webhook-secret
+ * header or as the basic auth password. SNS cannot send custom headers, so
+ * its subscriptions put the secret in the endpoint URL:
+ * https://sns:<secret>@host/knowledge-ingestion/s3-events. Notifications are
+ * not tied to a user or tenant, so they cannot use bearer tokens.
+ */
+@Injectable()
+export class WebhookSecretGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    if (!s3EventsConfig.webhookSecret) {
+      throw new ForbiddenException('The S3 event webhook is not enabled.');
+    }
+    const http = context.switchToHttp();
+    const { headers } = http.getRequest();
+    const provided =
+      headers[WEBHOOK_SECRET_HEADER] ??
+      basicAuthPassword(headers.authorization);
+    // Compare digests so neither the content nor the length of the secret leaks through timing
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    if (
+      typeof provided !== 'string' ||
+      !timingSafeEqual(digest(provided), digest(s3EventsConfig.webhookSecret))
+    ) {
+      // SNS only sends its credentials once challenged
+      http
+        .getResponse()
+        .setHeader('WWW-Authenticate', 'Basic realm="s3-events"');
+      throw new UnauthorizedException('Invalid webhook secret.');
+    }
+    return true;
+  }
+}
+
+function basicAuthPassword(authorization: unknown): string | undefined {
+  const match =
+    typeof authorization === 'string' && /^Basic\s+(\S+)$/i.exec(authorization);
+  if (!match) {
+    return undefined;
+  }
+  const credentials = Buffer.from(match[1], 'base64').toString('utf-8');
+  const separator = credentials.indexOf(':');
+  return separator === -1 ? undefined : credentials.slice(separator + 1);
+}
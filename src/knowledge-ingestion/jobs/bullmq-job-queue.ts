@@ -0,0 +1,78 @@
+import { Logger } from '@nestjs/common';
+import { ConnectionOptions, Job, Queue, Worker } from 'bullmq';
+import { IngestionJob } from './ingestion-job.types';
+import { IngestionJobHandler, IngestionJobQueue } from './job-queue.interface';
+
+// How long finished job status stays queryable
+const RETAIN_FINISHED_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Redis-backed queue. Jobs survive restarts and can be worked on by several
+ * instances of the service.
+ */
+export class BullMqJobQueue implements IngestionJobQueue {
+  private readonly logger = new Logger(BullMqJobQueue.name);
+  private readonly connection: ConnectionOptions;
+  private readonly queue: Queue<IngestionJob>;
+  private worker: Worker<IngestionJob>;
+
+  constructor(
+    private readonly queueName: string,
+    redisUrl: string,
+  ) {
+    this.connection = toConnectionOptions(redisUrl);
+    this.queue = new Queue<IngestionJob>(queueName, {
+      connection: this.connection,
+    });
+  }
+
+  async enqueue(job: IngestionJob): Promise<void> {
+    await this.queue.add('ingest', job, {
+      jobId: job.id,
+      removeOnComplete: { age: RETAIN_FINISHED_SECONDS },
+      removeOnFail: { age: RETAIN_FINISHED_SECONDS },
+    });
+  }
+
+  async save(job: IngestionJob): Promise<void> {
+    const bullJob = await Job.fromId<IngestionJob>(this.queue, job.id);
+    await bullJob?.updateData(job);
+  }
+
+  async get(id: string): Promise<IngestionJob | undefined> {
+    const bullJob = await Job.fromId<IngestionJob>(this.queue, id);
+    return bullJob?.data;
+  }
+
+  async process(
+    handler: IngestionJobHandler,
+    concurrency: number,
+  ): Promise<void> {
+    this.worker = new Worker<IngestionJob>(
+      this.queueName,
+      (bullJob) => handler(bullJob.data),
+      { connection: this.connection, concurrency },
+    );
+    this.worker.on('error', (error) =>
+      this.logger.error(`Ingestion worker error: ${error.message}`),
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.worker?.close();
+    await this.queue.close();
+  }
+}
+
+function toConnectionOptions(redisUrl: string): ConnectionOptions {
+  const url = new URL(redisUrl);
+  return {
+    host: url.hostname,
+    port: parseInt(url.port || '6379', 10),
+    username: url.username || undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+    db: url.pathname.length > 1 ? parseInt(url.pathname.slice(1), 10) : 0,
+    tls: url.protocol === 'rediss:' ? {} : undefined,
+    maxRetriesPerRequest: null, // Required by BullMQ workers
+  };
+}
@@ -0,0 +1,47 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileJobQueue } from './file-job-queue';
+import { IngestionJob } from './ingestion-job.types';
+
+describe('FileJobQueue', () => {
+  let directory: string;
+  let queue: FileJobQueue;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ingestion-jobs-'));
+  });
+
+  afterEach(async () => {
+    await queue?.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should re-queue unfinished jobs and set unreadable files aside', async () => {
+    const job = {
+      id: 'job-1',
+      tenantId: 'acme',
+      s3ObjectUrl: 's3://bucket/tenants/acme/manual.pdf',
+      status: 'running',
+      currentStage: 'parsing',
+      stages: {},
+      progress: 50,
+      createdAt: '2024-05-01T00:00:00.000Z',
+    } as IngestionJob;
+    await fs.writeFile(path.join(directory, 'job-1.json'), JSON.stringify(job));
+    await fs.writeFile(path.join(directory, 'job-2.json'), '{"id": "job-2", ');
+    queue = new FileJobQueue(directory);
+    const handler = jest.fn(async () => undefined);
+
+    await queue.process(handler, 1);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1', status: 'queued' }),
+    );
+    expect((await fs.readdir(directory)).sort()).toEqual([
+      'job-1.json',
+      'job-2.json.rejected',
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IngestionJob } from './ingestion-job.types';
+import { IngestionJobHandler } from './job-queue.interface';
+import { InMemoryJobQueue } from './in-memory-job-queue';
+
+/**
+ * Local stand-in for a Redis-backed queue. Every job is written to its own
+ * JSON file, and unfinished jobs are picked up again after a restart. Files
+ * that cannot be read are renamed to `.rejected` and left for inspection.
+ */
+export class FileJobQueue extends InMemoryJobQueue {
+  private loaded = false;
+
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  async save(job: IngestionJob): Promise<void> {
+    await super.save(job);
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(job.id);
+    // Write then rename so a crash never leaves a half-written job behind
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(job, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async process(
+    handler: IngestionJobHandler,
+    concurrency: number,
+  ): Promise<void> {
+    await super.process(handler, concurrency);
+    if (!this.loaded) {
+      this.loaded = true;
+      await this.recover();
+    }
+  }
+
+  private async recover() {
+    const files = await fs.readdir(this.directory).catch(() => []);
+    let requeued = 0;
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      const filePath = path.join(this.directory, file);
+      let job: IngestionJob;
+      try {
+        job = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch (error) {
+        this.logger.warn(`Rejecting unreadable job ${file}: ${error.message}`);
+        await fs
+          .rename(filePath, `${filePath}.rejected`)
+          .catch((renameError) =>
+            this.logger.warn(
+              `Could not reject job ${file}: ${renameError.message}`,
+            ),
+          );
+        continue;
+      }
+      if (job.status === 'queued' || job.status === 'running') {
+        // Interrupted runs restart from the beginning
+        await this.enqueue({ ...job, status: 'queued' });
+        requeued++;
+      } else {
+        this.jobs.set(job.id, job);
+      }
+    }
+    if (requeued > 0) {
+      this.logger.log(`Re-queued ${requeued} unfinished ingestion jobs`);
+    }
+  }
+
+  private fileFor(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
@@ -0,0 +1,67 @@
+import { Logger } from '@nestjs/common';
+import { IngestionJob } from './ingestion-job.types';
+import { IngestionJobHandler, IngestionJobQueue } from './job-queue.interface';
+
+/**
+ * Process-local queue for development. Jobs are lost on restart.
+ */
+export class InMemoryJobQueue implements IngestionJobQueue {
+  protected readonly logger = new Logger(InMemoryJobQueue.name);
+  protected readonly jobs = new Map<string, IngestionJob>();
+  private readonly waiting: string[] = [];
+  private handler: IngestionJobHandler;
+  private concurrency = 1;
+  private active = 0;
+  private closed = false;
+
+  async enqueue(job: IngestionJob): Promise<void> {
+    await this.save(job);
+    this.waiting.push(job.id);
+    this.drain();
+  }
+
+  async save(job: IngestionJob): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async get(id: string): Promise<IngestionJob | undefined> {
+    const job = this.jobs.get(id);
+    return job && structuredClone(job);
+  }
+
+  async process(
+    handler: IngestionJobHandler,
+    concurrency: number,
+  ): Promise<void> {
+    this.handler = handler;
+    this.concurrency = Math.max(concurrency, 1);
+    this.drain();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  private drain() {
+    while (
+      !this.closed &&
+      this.handler &&
+      this.active < this.concurrency &&
+      this.waiting.length > 0
+    ) {
+      const job = this.jobs.get(this.waiting.shift());
+      if (!job) {
+        continue;
+      }
+      this.active++;
+      this.handler(structuredClone(job))
+        .catch((error) =>
+          this.logger.error(`Job ${job.id} handler failed:`, error.stack),
+        )
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { IngestionJobService } from './ingestion-job.service';
+import { InMemoryJobQueue } from './in-memory-job-queue';
+import { KnowledgeIngestionService } from '../knowledge-ingestion.service';
+import { INGESTION_STAGES, IngestionJob } from './ingestion-job.types';
+import { assertTenantKey } from '../../common/tenancy/tenant-scope';
+
+describe('IngestionJobService', () => {
+  // Real prefix check on the key part of s3://bucket/<key> URLs
+  const getTenantDocumentId = (tenantId: string, url: string) => {
+    const key = url.replace(/^s3:\/\/[^/]+\//, '');
+    assertTenantKey(tenantId, key);
+    return key;
+  };
+
+  const waitForJob = async (
+    service: IngestionJobService,
+    id: string,
+  ): Promise<IngestionJob> => {
+    for (let i = 0; i < 50; i++) {
+      const job = await service.getJob('acme', id);
+      if (job.status === 'completed' || job.status === 'failed') {
+        return job;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`Job ${id} did not finish`);
+  };
+
+  it('should run the pipeline in the background and record every stage', async () => {
+    const ingestionService = {
+      getTenantDocumentId,
+      processDocumentFromS3: jest.fn(async (_tenantId, _url, onProgress) => {
+        for (const stage of INGESTION_STAGES) {
+          await onProgress(stage, 'started');
+          await onProgress(stage, 'completed');
+        }
+        return {
+          documentId: 'tenants/acme/uploads/manual.pdf',
+          skipped: false,
+          changes: { added: 3, updated: 1, unchanged: 5, deleted: 2 },
+        };
+      }),
+    } as unknown as KnowledgeIngestionService;
+    const service = new IngestionJobService(
+      new InMemoryJobQueue(),
+      ingestionService,
+    );
+    await service.onModuleInit();
+
+    const queued = await service.enqueueDocument(
+      'acme',
+      's3://bucket/tenants/acme/uploads/manual.pdf',
+    );
+    expect(queued.status).toBe('queued');
+
+    const job = await waitForJob(service, queued.id);
+    expect(job).toMatchObject({
+      status: 'completed',
+      progress: 100,
+      documentId: 'tenants/acme/uploads/manual.pdf',
+      changes: { added: 3, updated: 1, unchanged: 5, deleted: 2 },
+    });
+    expect(ingestionService.processDocumentFromS3).toHaveBeenCalledWith(
+      'acme',
+      's3://bucket/tenants/acme/uploads/manual.pdf',
+      expect.any(Function),
+      { force: undefined, attributes: undefined, uploadedBy: undefined },
+    );
+    for (const stage of INGESTION_STAGES) {
+      expect(job.stages[stage].status).toBe('completed');
+      expect(job.stages[stage].durationMs).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should mark the stages an unchanged document did not need as skipped', async () => {
+    const ingestionService = {
+      getTenantDocumentId,
+      processDocumentFromS3: jest.fn(async (_tenantId, _url, onProgress) => {
+        await onProgress('downloading', 'started');
+        await onProgress('downloading', 'completed');
+        return {
+          documentId: 'tenants/acme/uploads/manual.pdf',
+          skipped: true,
+          changes: { added: 0, updated: 0, unchanged: 9, deleted: 0 },
+        };
+      }),
+    } as unknown as KnowledgeIngestionService;
+    const service = new IngestionJobService(
+      new InMemoryJobQueue(),
+      ingestionService,
+    );
+    await service.onModuleInit();
+
+    const queued = await service.enqueueDocument(
+      'acme',
+      's3://bucket/tenants/acme/uploads/manual.pdf',
+    );
+    const job = await waitForJob(service, queued.id);
+
+    expect(job).toMatchObject({ status: 'completed', progress: 100 });
+    expect(
+      INGESTION_STAGES.map((stage) => [stage, job.stages[stage].status]),
+    ).toEqual([
+      ['downloading', 'completed'],
+      ['parsing', 'skipped'],
+      ['embedding', 'skipped'],
+      ['upserting', 'skipped'],
+    ]);
+  });
+
+  it('should mark the failing stage and keep the error', async () => {
+    const ingestionService = {
+      getTenantDocumentId,
+      processDocumentFromS3: jest.fn(async (_tenantId, _url, onProgress) => {
+        await onProgress('downloading', 'started');
+        throw new Error('NoSuchKey');
+      }),
+    } as unknown as KnowledgeIngestionService;
+    const service = new IngestionJobService(
+      new InMemoryJobQueue(),
+      ingestionService,
+    );
+    await service.onModuleInit();
+
+    const queued = await service.enqueueDocument(
+      'acme',
+      's3://bucket/tenants/acme/missing.pdf',
+    );
+    const job = await waitForJob(service, queued.id);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('NoSuchKey');
+    expect(job.stages.downloading.status).toBe('failed');
+    expect(job.stages.parsing.status).toBe('pending');
+  });
+
+  it('should throw NotFoundException for unknown jobs', async () => {
+    const service = new IngestionJobService(
+      new InMemoryJobQueue(),
+      {} as KnowledgeIngestionService,
+    );
+    await expect(service.getJob('acme', 'nope')).rejects.toThrow('not found');
+  });
+
+  it("should keep tenants from queueing or reading each other's documents", async () => {
+    const service = new IngestionJobService(new InMemoryJobQueue(), {
+      getTenantDocumentId,
+      processDocumentFromS3: jest.fn(() => new Promise(() => {})),
+    } as unknown as KnowledgeIngestionService);
+
+    await expect(
+      service.enqueueDocument('acme', 's3://bucket/tenants/globex/secret.pdf'),
+    ).rejects.toThrow('outside the storage of tenant acme');
+
+    const queued = await service.enqueueDocument(
+      'acme',
+      's3://bucket/tenants/acme/manual.pdf',
+    );
+    await expect(service.getJob('globex', queued.id)).rejects.toThrow(
+      'not found',
+    );
+  });
+});
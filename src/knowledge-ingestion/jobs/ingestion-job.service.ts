@@ -0,0 +1,170 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  IngestionOptions,
+  KnowledgeIngestionService,
+} from '../knowledge-ingestion.service';
+import { INGESTION_JOB_QUEUE, IngestionJobQueue } from './job-queue.interface';
+import {
+  INGESTION_STAGES,
+  IngestionJob,
+  IngestionStage,
+  StageStatus,
+} from './ingestion-job.types';
+import { queueConfig } from '../../config/queue.config';
+import { DomainError } from '../../common/errors/domain-errors';
+
+@Injectable()
+export class IngestionJobService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IngestionJobService.name);
+
+  constructor(
+    @Inject(INGESTION_JOB_QUEUE) private readonly queue: IngestionJobQueue,
+    private readonly ingestionService: KnowledgeIngestionService,
+  ) {}
+
+  async onModuleInit() {
+    await this.queue.process((job) => this.run(job), queueConfig.concurrency);
+    this.logger.log(
+      `Ingestion worker started (backend: ${queueConfig.backend}, concurrency: ${queueConfig.concurrency})`,
+    );
+  }
+
+  async onModuleDestroy() {
+    await this.queue.close();
+  }
+
+  /**
+   * Queue a document for background ingestion
+   * @param tenantId The tenant the document belongs to
+   * @param s3ObjectUrl The S3 URL of the document to process
+   * @param options Pass force to embed every chunk again, even if unchanged, and
+   * attributes to tag the document with
+   * @returns The newly queued job
+   * @throws ForbiddenException if the object is outside the tenant's prefix
+   * @throws NotFoundException if the tenant has no collection of that ID
+   */
+  async enqueueDocument(
+    tenantId: string,
+    s3ObjectUrl: string,
+    options: IngestionOptions = {},
+  ): Promise<IngestionJob> {
+    this.ingestionService.getTenantDocumentId(tenantId, s3ObjectUrl);
+    if (options.attributes?.collectionId) {
+      await this.ingestionService.getTenantCollection(
+        tenantId,
+        options.attributes.collectionId,
+      );
+    }
+
+    const job: IngestionJob = {
+      id: randomUUID(),
+      tenantId,
+      s3ObjectUrl,
+      status: 'queued',
+      currentStage: null,
+      stages: Object.fromEntries(
+        INGESTION_STAGES.map((stage) => [stage, { status: 'pending' }]),
+      ) as Record<IngestionStage, StageStatus>,
+      progress: 0,
+      force: options.force,
+      attributes: options.attributes,
+      uploadedBy: options.uploadedBy,
+      createdAt: new Date().toISOString(),
+    };
+    await this.queue.enqueue(job);
+    this.logger.log(`Queued ingestion job ${job.id} for ${s3ObjectUrl}`);
+    return job;
+  }
+
+  /**
+   * Look up a job of the tenant; other tenants' jobs are reported as missing
+   */
+  async getJob(tenantId: string, id: string): Promise<IngestionJob> {
+    const job = await this.queue.get(id);
+    if (!job || job.tenantId !== tenantId) {
+      throw new NotFoundException(`Ingestion job ${id} not found.`);
+    }
+    return job;
+  }
+
+  private async run(job: IngestionJob): Promise<void> {
+    const startedAt = Date.now();
+    job.status = 'running';
+    job.startedAt = new Date(startedAt).toISOString();
+    await this.queue.save(job);
+
+    const stageStartedAt: Partial<Record<IngestionStage, number>> = {};
+
+    try {
+      const result = await this.ingestionService.processDocumentFromS3(
+        job.tenantId,
+        job.s3ObjectUrl,
+        async (stage, event) => {
+          const now = Date.now();
+          if (event === 'started') {
+            stageStartedAt[stage] = now;
+            job.currentStage = stage;
+            job.stages[stage] = {
+              status: 'running',
+              startedAt: new Date(now).toISOString(),
+            };
+          } else {
+            job.stages[stage] = {
+              ...job.stages[stage],
+              status: 'completed',
+              finishedAt: new Date(now).toISOString(),
+              durationMs: now - stageStartedAt[stage],
+            };
+            const completed = INGESTION_STAGES.filter(
+              (s) => job.stages[s].status === 'completed',
+            ).length;
+            job.progress = Math.round(
+              (completed / INGESTION_STAGES.length) * 100,
+            );
+          }
+          await this.queue.save(job);
+        },
+        {
+          force: job.force,
+          attributes: job.attributes,
+          uploadedBy: job.uploadedBy,
+        },
+      );
+
+      // Stages that never started were not needed, e.g. for an unchanged document
+      for (const stage of INGESTION_STAGES) {
+        if (job.stages[stage].status === 'pending') {
+          job.stages[stage] = { status: 'skipped' };
+        }
+      }
+      job.status = 'completed';
+      job.documentId = result.documentId;
+      job.skipped = result.skipped;
+      job.changes = result.changes;
+      job.currentStage = null;
+      job.progress = 100;
+    } catch (error) {
+      this.logger.error(`Ingestion job ${job.id} failed:`, error.stack);
+      job.status = 'failed';
+      job.error = error.message;
+      job.errorCode =
+        error instanceof DomainError ? error.code : 'INTERNAL_ERROR';
+      if (job.currentStage) {
+        job.stages[job.currentStage].status = 'failed';
+      }
+    } finally {
+      const finishedAt = Date.now();
+      job.finishedAt = new Date(finishedAt).toISOString();
+      job.durationMs = finishedAt - startedAt;
+      await this.queue.save(job);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { DocumentAttributes } from '../../document-processing/metadata/document-metadata';
+
+export const INGESTION_STAGES = [
+  'downloading',
+  'parsing',
+  'embedding',
+  'upserting',
+] as const;
+
+export type IngestionStage = (typeof INGESTION_STAGES)[number];
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface StageStatus {
+  status: 'pending' | 'running' | 'completed' | 'skipped' | 'failed'; // skipped: not needed, e.g. for an unchanged document
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+/**
+ * How an ingestion changed a document's chunks compared to the version indexed before
+ */
+export interface ChunkChanges {
+  added: number; // Chunks the previous version did not have, embedded
+  updated: number; // Chunks whose text changed, embedded again
+  unchanged: number; // Chunks whose vectors were kept
+  deleted: number; // Chunks the previous version had and this one does not
+}
+
+export interface IngestionJob {
+  id: string;
+  tenantId: string;
+  s3ObjectUrl: string;
+  status: JobStatus;
+  currentStage: IngestionStage | null;
+  stages: Record<IngestionStage, StageStatus>;
+  progress: number; // 0-100
+  force?: boolean; // Re-embed every chunk, even if the document is unchanged
+  attributes?: DocumentAttributes; // Tags, language and labels to give the document
+  uploadedBy?: string; // The subject of whoever queued the job
+  documentId?: string;
+  skipped?: boolean; // The document was unchanged since it was last indexed
+  changes?: ChunkChanges;
+  error?: string;
+  errorCode?: string; // Machine-readable, e.g. S3_OBJECT_NOT_FOUND or UNSUPPORTED_FILE_TYPE
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+/**
+ * Reported by KnowledgeIngestionService as it moves through the pipeline
+ */
+export type IngestionProgressCallback = (
+  stage: IngestionStage,
+  event: 'started' | 'completed',
+) => Promise<void> | void;
@@ -0,0 +1,27 @@
+import { IngestionJobQueue } from './job-queue.interface';
+import { InMemoryJobQueue } from './in-memory-job-queue';
+import { FileJobQueue } from './file-job-queue';
+import { BullMqJobQueue } from './bullmq-job-queue';
+
+export interface JobQueueConfig {
+  backend: string;
+  redisUrl: string;
+  queueName: string;
+  fileDirectory: string;
+}
+
+export function createJobQueue(config: JobQueueConfig): IngestionJobQueue {
+  switch (config.backend) {
+    case 'memory':
+      return new InMemoryJobQueue();
+
+    case 'file':
+      return new FileJobQueue(config.fileDirectory);
+
+    case 'bullmq':
+      return new BullMqJobQueue(config.queueName, config.redisUrl);
+
+    default:
+      throw new Error(`Unknown ingestion queue backend: ${config.backend}`);
+  }
+}
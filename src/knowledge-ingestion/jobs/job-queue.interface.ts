@@ -0,0 +1,18 @@
+import { IngestionJob } from './ingestion-job.types';
+
+export const INGESTION_JOB_QUEUE = 'INGESTION_JOB_QUEUE';
+
+export type IngestionJobHandler = (job: IngestionJob) => Promise<void>;
+
+/**
+ * Delivers ingestion jobs to a worker and stores their status. Implementations
+ * decide where jobs live; the worker logic is the same for all of them.
+ */
+export interface IngestionJobQueue {
+  enqueue(job: IngestionJob): Promise<void>;
+  save(job: IngestionJob): Promise<void>;
+  get(id: string): Promise<IngestionJob | undefined>;
+  // Start delivering queued jobs to the handler, at most `concurrency` at a time
+  process(handler: IngestionJobHandler, concurrency: number): Promise<void>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,298 @@
+import { INestApplication } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { KnowledgeIngestionController } from './knowledge-ingestion.controller';
+import { KnowledgeIngestionService } from './knowledge-ingestion.service';
+import { IngestionJobService } from './jobs/ingestion-job.service';
+import { MultipartUploadService } from './multipart-upload.service';
+import { S3Service } from '../s3/s3.service';
+import { DomainExceptionFilter } from '../common/errors/domain-exception.filter';
+import { createValidationPipe } from '../common/validation/validation.pipe';
+import { S3ObjectNotFoundError } from '../common/errors/domain-errors';
+import { authConfig } from '../config/auth.config';
+import { awsConfig } from '../config/aws.config';
+
+describe('KnowledgeIngestionController', () => {
+  let app: INestApplication;
+  const createPresignedUpload = jest.fn();
+  const enqueueDocument = jest.fn();
+  const getJob = jest.fn();
+  const processFaqs = jest.fn();
+  const processFaq = jest.fn();
+  const s3 = {
+    createMultipartUpload: jest.fn(),
+    getSignedPartUrl: jest.fn(),
+    completeMultipartUpload: jest.fn(),
+    headObject: jest.fn(),
+    deleteObject: jest.fn(),
+    getObjectUrl: (key: string) => `s3://docs-bucket/${key}`,
+  };
+  // The real tenant check: keys outside tenants/<id>/ are forbidden
+  const getTenantDocumentId = (tenantId: string, url: string) =>
+    new KnowledgeIngestionService(
+      new S3Service(),
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+    ).getTenantDocumentId(tenantId, url);
+  const original = { auth: authConfig.enabled, bucket: awsConfig.s3BucketName };
+
+  beforeAll(async () => {
+    authConfig.enabled = false;
+    awsConfig.s3BucketName = 'docs-bucket';
+    const moduleRef = await Test.createTestingModule({
+      controllers: [KnowledgeIngestionController],
+      providers: [
+        {
+          provide: KnowledgeIngestionService,
+          useValue: {
+            createPresignedUpload,
+            getTenantDocumentId,
+            processFaqs,
+            processFaq,
+          },
+        },
+        { provide: IngestionJobService, useValue: { enqueueDocument, getJob } },
+        MultipartUploadService,
+        { provide: S3Service, useValue: s3 },
+        { provide: APP_PIPE, useFactory: createValidationPipe },
+        { provide: APP_FILTER, useClass: DomainExceptionFilter },
+      ],
+    }).compile();
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    authConfig.enabled = original.auth;
+    awsConfig.s3BucketName = original.bucket;
+  });
+
+  beforeEach(() => jest.resetAllMocks());
+
+  const post = (path: string, body: object) =>
+    request(app.getHttpServer())
+      .post(`/knowledge-ingestion/${path}`)
+      .set('x-tenant-id', 'acme')
+      .send(body);
+
+  it('should reject disallowed content types and unsafe file names', async () => {
+    const response = await post('presigned-upload-url', {
+      fileName: '../../etc/passwd',
+      fileType: 'application/x-msdownload',
+    }).expect(400);
+
+    expect(response.body.code).toBe('VALIDATION_FAILED');
+    expect(response.body.details.map((detail) => detail.field)).toEqual([
+      'fileName',
+      'fileType',
+    ]);
+    expect(createPresignedUpload).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown properties and URLs outside the bucket', async () => {
+    const response = await post('process-document', {
+      s3ObjectUrl: 's3://other-bucket/tenants/acme/manual.pdf',
+      priority: 'high',
+    }).expect(400);
+
+    expect(response.body.details).toEqual([
+      {
+        field: 'priority',
+        constraints: ['property priority should not exist'],
+      },
+      {
+        field: 's3ObjectUrl',
+        constraints: [
+          's3ObjectUrl must be an s3:// or https:// URL of an object in bucket docs-bucket',
+        ],
+      },
+    ]);
+  });
+
+  it('should accept a valid request', async () => {
+    enqueueDocument.mockResolvedValue({ id: 'job-1' });
+
+    await post('process-document', {
+      s3ObjectUrl:
+        'https://docs-bucket.s3.eu-west-1.amazonaws.com/tenants/acme/manual.pdf',
+    }).expect(202);
+
+    expect(enqueueDocument).toHaveBeenCalledWith(
+      'acme',
+      'https://docs-bucket.s3.eu-west-1.amazonaws.com/tenants/acme/manual.pdf',
+      { attributes: {}, uploadedBy: undefined },
+    );
+  });
+
+  it('should give FAQ entries the request attributes they do not set', async () => {
+    processFaqs.mockResolvedValue({ indexed: 2, unchanged: 0, failed: 0 });
+    const entry = { question: 'Can I pay by invoice?', answer: 'Yes.' };
+
+    await post('faqs', { entries: [entry], tags: ['x'] }).expect(400);
+    await post('faqs', {
+      tags: ['billing'],
+      language: 'en',
+      entries: [
+        { ...entry, externalId: 'faq-1' },
+        { ...entry, externalId: 'faq-1' },
+      ],
+    }).expect(400);
+    await post('faqs', {
+      tags: ['billing'],
+      language: 'en',
+      entries: [
+        { ...entry, externalId: 'faq-1' },
+        { ...entry, externalId: 'faq-2', tags: ['sales'], format: 'markdown' },
+      ],
+    }).expect(200);
+
+    expect(processFaqs).toHaveBeenCalledTimes(1);
+    const [tenantId, entries] = processFaqs.mock.calls[0];
+    expect(tenantId).toBe('acme');
+    expect(entries.map(({ options }) => options.attributes)).toEqual([
+      { tags: ['billing'], language: 'en' },
+      { tags: ['sales'], language: 'en' },
+    ]);
+    expect(entries[1].entry).toMatchObject({
+      externalId: 'faq-2',
+      format: 'markdown',
+    });
+  });
+
+  it('should validate the external ID of a PUT like the one of a POST', async () => {
+    processFaq.mockResolvedValue({ documentId: 'doc', skipped: false });
+    const put = (externalId: string) =>
+      request(app.getHttpServer())
+        .put(`/knowledge-ingestion/faqs/${encodeURIComponent(externalId)}`)
+        .set('x-tenant-id', 'acme')
+        .send({ question: 'Can I pay by invoice?', answer: 'Yes.' });
+
+    await put(' faq-1').expect(400);
+    await put('faq\u0007bell').expect(400);
+    await put('f'.repeat(201)).expect(400);
+    await put('faq 1/a').expect(200);
+
+    expect(processFaq).toHaveBeenCalledTimes(1);
+    expect(processFaq.mock.calls[0][1]).toMatchObject({
+      externalId: 'faq 1/a',
+    });
+  });
+
+  it('should map domain errors to their status and code', async () => {
+    enqueueDocument.mockRejectedValue(
+      new S3ObjectNotFoundError('tenants/acme/missing.pdf'),
+    );
+
+    const response = await post('process-document', {
+      s3ObjectUrl: 's3://docs-bucket/tenants/acme/missing.pdf',
+    }).expect(404);
+
+    expect(response.body).toEqual({
+      statusCode: 404,
+      code: 'S3_OBJECT_NOT_FOUND',
+      message: 'S3 object not found: tenants/acme/missing.pdf',
+      details: { key: 'tenants/acme/missing.pdf' },
+    });
+  });
+
+  it('should hide unexpected errors behind a generic 500', async () => {
+    createPresignedUpload.mockRejectedValue(new Error('secret internals'));
+
+    const response = await post('presigned-upload-url', {
+      fileName: 'manual.pdf',
+      fileType: 'application/pdf',
+    }).expect(500);
+
+    expect(response.body).toEqual({
+      statusCode: 500,
+      code: 'INTERNAL_ERROR',
+      message: 'An unexpected error occurred.',
+    });
+  });
+
+  describe('multipart uploads', () => {
+    const s3ObjectUrl = 's3://docs-bucket/tenants/acme/uploads/big.csv';
+
+    it('should start an upload with parts sized for the file', async () => {
+      s3.createMultipartUpload.mockResolvedValue('upload-1');
+
+      const response = await post('multipart-uploads', {
+        fileName: 'export.csv',
+        fileType: 'text/csv',
+        fileSize: 40 * 1024 * 1024,
+      }).expect(201);
+
+      expect(response.body).toMatchObject({
+        uploadId: 'upload-1',
+        partSizeBytes: 16 * 1024 * 1024,
+        partCount: 3,
+      });
+      expect(response.body.s3ObjectUrl).toMatch(
+        /^s3:\/\/docs-bucket\/tenants\/acme\/uploads\/[0-9a-f-]{36}\.csv$/,
+      );
+      expect(s3.createMultipartUpload).toHaveBeenCalledWith(
+        expect.stringMatching(/^tenants\/acme\/uploads\//),
+        'text/csv',
+        'export.csv',
+      );
+    });
+
+    it('should validate part numbers and the parts to complete', async () => {
+      const signed = await post('multipart-uploads/sign-parts', {
+        s3ObjectUrl,
+        uploadId: 'upload-1',
+        partNumbers: [0, 10001],
+      }).expect(400);
+      const completed = await post('multipart-uploads/complete', {
+        s3ObjectUrl,
+        uploadId: 'upload-1',
+        parts: [{ partNumber: 1 }],
+      }).expect(400);
+
+      expect(signed.body.details.map((detail) => detail.field)).toEqual([
+        'partNumbers',
+      ]);
+      expect(completed.body.details.map((detail) => detail.field)).toEqual([
+        'parts.0.etag',
+      ]);
+    });
+
+    it("should refuse to sign parts of another tenant's upload", async () => {
+      await post('multipart-uploads/sign-parts', {
+        s3ObjectUrl: 's3://docs-bucket/tenants/other/uploads/big.csv',
+        uploadId: 'upload-1',
+        partNumbers: [1],
+      }).expect(403);
+
+      expect(s3.getSignedPartUrl).not.toHaveBeenCalled();
+    });
+
+    it('should remove a completed upload that is over the size limit', async () => {
+      s3.headObject.mockResolvedValue({
+        contentLength: Number.MAX_SAFE_INTEGER,
+      });
+
+      const response = await post('multipart-uploads/complete', {
+        s3ObjectUrl,
+        uploadId: 'upload-1',
+        parts: [{ partNumber: 1, etag: '"abc"' }],
+      }).expect(413);
+
+      expect(response.body.code).toBe('FILE_TOO_LARGE');
+      expect(s3.completeMultipartUpload).toHaveBeenCalledWith(
+        'tenants/acme/uploads/big.csv',
+        'upload-1',
+        [{ partNumber: 1, etag: '"abc"' }],
+      );
+      expect(s3.deleteObject).toHaveBeenCalledWith(
+        'tenants/acme/uploads/big.csv',
+      );
+    });
+  });
+});
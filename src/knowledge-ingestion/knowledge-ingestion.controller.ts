@@ -1,64 +1,298 @@
 import {
   Controller,
+  Delete,
+  Get,
   Post,
+  Put,
   Body,
+  Param,
   HttpCode,
   HttpStatus,
   Logger,
+  UseGuards,
 } from '@nestjs/common';
 import { KnowledgeIngestionService } from './knowledge-ingestion.service';
 import {
+  CompleteMultipartUploadDto,
+  CompletedUploadDto,
+  DocumentAttributesDto,
+  ExternalIdParamDto,
+  FaqBatchResultDto,
+  FaqEntryDto,
   GetPresignedUrlDto,
+  IngestFaqsDto,
+  IngestTextDto,
+  InitiateMultipartUploadDto,
+  MultipartUploadDto,
+  MultipartUploadRefDto,
+  PresignedUploadDto,
   ProcessS3DocumentDto,
+  SignMultipartPartsDto,
+  SignedPartUrlsDto,
+  TextEntryDto,
+  TextEntryResultDto,
 } from './dto/knowledge-ingestion.dto';
+import { MultipartUploadService } from './multipart-upload.service';
+import { IngestionJobService } from './jobs/ingestion-job.service';
+import { IngestionJob } from './jobs/ingestion-job.types';
+import { TenantId } from '../common/tenancy/tenant-id.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthenticatedUser } from '../auth/auth.types';
+import { randomUUID } from 'crypto';
+import { TextEntryKind } from './text/text-entry';
+import { DocumentAttributes } from '../document-processing/metadata/document-metadata';
 
 @Controller('knowledge-ingestion')
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class KnowledgeIngestionController {
   private readonly logger = new Logger(KnowledgeIngestionController.name);
 
-  constructor(private readonly ingestionService: KnowledgeIngestionService) {}
+  constructor(
+    private readonly ingestionService: KnowledgeIngestionService,
+    private readonly ingestionJobService: IngestionJobService,
+    private readonly multipartUploadService: MultipartUploadService,
+  ) {}
 
   @Post('presigned-upload-url')
+  @Roles('knowledge:write')
   @HttpCode(HttpStatus.OK)
   async getPresignedUploadUrl(
+    @TenantId() tenantId: string,
     @Body() getPresignedUrlDto: GetPresignedUrlDto,
-  ): Promise<{ url: string }> {
+  ): Promise<PresignedUploadDto> {
     this.logger.log(
       `Received request for presigned URL: ${JSON.stringify(getPresignedUrlDto)}`,
     );
-    const url = await this.ingestionService.generatePresignedUrl(
+    return this.ingestionService.createPresignedUpload(
+      tenantId,
       getPresignedUrlDto.fileName,
       getPresignedUrlDto.fileType,
+      getPresignedUrlDto.collectionId,
+    );
+  }
+
+  @Post('multipart-uploads')
+  @Roles('knowledge:write')
+  async initiateMultipartUpload(
+    @TenantId() tenantId: string,
+    @Body() dto: InitiateMultipartUploadDto,
+  ): Promise<MultipartUploadDto> {
+    this.logger.log(
+      `Received request to start a multipart upload: ${JSON.stringify(dto)}`,
+    );
+    return this.multipartUploadService.initiate(
+      tenantId,
+      dto.fileName,
+      dto.fileType,
+      dto.fileSize,
+      dto.collectionId,
+    );
+  }
+
+  @Post('multipart-uploads/sign-parts')
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.OK)
+  async signMultipartParts(
+    @TenantId() tenantId: string,
+    @Body() dto: SignMultipartPartsDto,
+  ): Promise<SignedPartUrlsDto> {
+    return this.multipartUploadService.signParts(
+      tenantId,
+      dto.s3ObjectUrl,
+      dto.uploadId,
+      dto.partNumbers,
+    );
+  }
+
+  @Post('multipart-uploads/complete')
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.OK)
+  async completeMultipartUpload(
+    @TenantId() tenantId: string,
+    @Body() dto: CompleteMultipartUploadDto,
+  ): Promise<CompletedUploadDto> {
+    return this.multipartUploadService.complete(
+      tenantId,
+      dto.s3ObjectUrl,
+      dto.uploadId,
+      dto.parts,
+    );
+  }
+
+  @Post('multipart-uploads/abort')
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async abortMultipartUpload(
+    @TenantId() tenantId: string,
+    @Body() dto: MultipartUploadRefDto,
+  ): Promise<void> {
+    await this.multipartUploadService.abort(
+      tenantId,
+      dto.s3ObjectUrl,
+      dto.uploadId,
     );
-    return { url };
   }
 
   @Post('process-document')
-  @HttpCode(HttpStatus.ACCEPTED) // Using 202 Accepted as processing might take time
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.ACCEPTED) // Processing runs in the background; poll the job for status
   async processS3Document(
+    @TenantId() tenantId: string,
+    @CurrentUser() user: AuthenticatedUser | undefined,
     @Body() processS3DocumentDto: ProcessS3DocumentDto,
-  ): Promise<{ message: string; documentId?: string }> {
+  ): Promise<{ message: string; jobId: string; statusUrl: string }> {
     this.logger.log(
       `Received request to process S3 document: ${processS3DocumentDto.s3ObjectUrl}`,
     );
-    // This will be an asynchronous operation. We acknowledge the request
-    // and start processing. The actual status of processing might be handled
-    // via webhooks, polling, or another notification mechanism in a robust system.
-    try {
-      const result = await this.ingestionService.processDocumentFromS3(
-        processS3DocumentDto.s3ObjectUrl,
-      );
-      return {
-        message: 'Document processing started.',
-        documentId: result.documentId,
-      };
-    } catch (error) {
-      this.logger.error(
-        `Failed to start processing S3 document ${processS3DocumentDto.s3ObjectUrl}:`,
-        error.stack,
-      );
-      // Consider returning a more specific error response based on the error type
-      return { message: 'Failed to start document processing.' };
-    }
+    const job = await this.ingestionJobService.enqueueDocument(
+      tenantId,
+      processS3DocumentDto.s3ObjectUrl,
+      {
+        attributes: attributesOf(processS3DocumentDto),
+        uploadedBy: user?.subject,
+      },
+    );
+    return {
+      message: 'Document queued for processing.',
+      jobId: job.id,
+      statusUrl: `/knowledge-ingestion/jobs/${job.id}`,
+    };
+  }
+
+  @Get('jobs/:id')
+  @Roles('knowledge:read')
+  async getJob(
+    @TenantId() tenantId: string,
+    @Param('id') id: string,
+  ): Promise<IngestionJob> {
+    return this.ingestionJobService.getJob(tenantId, id);
+  }
+
+  @Post('text')
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.OK) // Short enough to be indexed before responding
+  async ingestText(
+    @TenantId() tenantId: string,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Body() ingestTextDto: IngestTextDto,
+  ): Promise<TextEntryResultDto> {
+    const externalId = ingestTextDto.externalId ?? randomUUID();
+    this.logger.log(`Received request to index text entry: ${externalId}`);
+    return this.indexText(tenantId, externalId, ingestTextDto, user);
+  }
+
+  @Put('text/:externalId')
+  @Roles('knowledge:write')
+  async updateText(
+    @TenantId() tenantId: string,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param() { externalId }: ExternalIdParamDto,
+    @Body() textEntryDto: TextEntryDto,
+  ): Promise<TextEntryResultDto> {
+    return this.indexText(tenantId, externalId, textEntryDto, user);
+  }
+
+  @Delete('text/:externalId')
+  @Roles('knowledge:admin')
+  async deleteText(
+    @TenantId() tenantId: string,
+    @Param() { externalId }: ExternalIdParamDto,
+  ): Promise<{ externalId: string; deletedVectors: number }> {
+    return this.deleteTextEntry(tenantId, 'text', externalId);
+  }
+
+  @Post('faqs')
+  @Roles('knowledge:write')
+  @HttpCode(HttpStatus.OK)
+  async ingestFaqs(
+    @TenantId() tenantId: string,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Body() ingestFaqsDto: IngestFaqsDto,
+  ): Promise<FaqBatchResultDto> {
+    this.logger.log(
+      `Received request to index ${ingestFaqsDto.entries.length} FAQ entries`,
+    );
+    const defaults = attributesOf(ingestFaqsDto);
+    return this.ingestionService.processFaqs(
+      tenantId,
+      ingestFaqsDto.entries.map((entry) => {
+        const attributes = attributesOf(entry);
+        return {
+          entry,
+          options: {
+            attributes: {
+              tags: attributes.tags ?? defaults.tags,
+              language: attributes.language ?? defaults.language,
+              labels: attributes.labels ?? defaults.labels,
+              collectionId: attributes.collectionId ?? defaults.collectionId,
+            },
+            uploadedBy: user?.subject,
+          },
+        };
+      }),
+    );
+  }
+
+  @Put('faqs/:externalId')
+  @Roles('knowledge:write')
+  async updateFaq(
+    @TenantId() tenantId: string,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param() { externalId }: ExternalIdParamDto,
+    @Body() faqEntryDto: FaqEntryDto,
+  ): Promise<TextEntryResultDto> {
+    const { question, answer, format } = faqEntryDto;
+    const result = await this.ingestionService.processFaq(
+      tenantId,
+      { externalId, question, answer, format },
+      { attributes: attributesOf(faqEntryDto), uploadedBy: user?.subject },
+    );
+    return { externalId, ...result };
+  }
+
+  @Delete('faqs/:externalId')
+  @Roles('knowledge:admin')
+  async deleteFaq(
+    @TenantId() tenantId: string,
+    @Param() { externalId }: ExternalIdParamDto,
+  ): Promise<{ externalId: string; deletedVectors: number }> {
+    return this.deleteTextEntry(tenantId, 'faq', externalId);
+  }
+
+  private async indexText(
+    tenantId: string,
+    externalId: string,
+    entry: TextEntryDto,
+    user: AuthenticatedUser | undefined,
+  ): Promise<TextEntryResultDto> {
+    const { title, text, format } = entry;
+    const result = await this.ingestionService.processText(
+      tenantId,
+      { externalId, title, text, format },
+      { attributes: attributesOf(entry), uploadedBy: user?.subject },
+    );
+    return { externalId, ...result };
   }
+
+  private async deleteTextEntry(
+    tenantId: string,
+    kind: TextEntryKind,
+    externalId: string,
+  ): Promise<{ externalId: string; deletedVectors: number }> {
+    this.logger.log(`Received request to delete ${kind} entry: ${externalId}`);
+    const deletedVectors = await this.ingestionService.removeTextEntry(
+      tenantId,
+      kind,
+      externalId,
+    );
+    return { externalId, deletedVectors };
+  }
+}
+
+function attributesOf(dto: DocumentAttributesDto): DocumentAttributes {
+  const { tags, language, labels, collectionId } = dto;
+  return { tags, language, labels, collectionId };
 }
@@ -3,15 +3,68 @@ import { KnowledgeIngestionController } from './knowledge-ingestion.controller';
 import { KnowledgeIngestionService } from './knowledge-ingestion.service';
 import { S3Module } from '../s3/s3.module';
 import { DocumentProcessingModule } from '../document-processing/document-processing.module';
-import { PineconeModule } from '../pinecone/pinecone.module';
+import { VectorStoreModule } from '../vector-store/vector-store.module';
+import { IngestionJobService } from './jobs/ingestion-job.service';
+import { MultipartUploadService } from './multipart-upload.service';
+import { INGESTION_JOB_QUEUE } from './jobs/job-queue.interface';
+import { createJobQueue } from './jobs/job-queue.factory';
+import { queueConfig } from '../config/queue.config';
+import { DocumentRegistryModule } from '../documents/registry/document-registry.module';
+import { CollectionRegistryModule } from '../collections/registry/collection-registry.module';
+import { S3EventsController } from './events/s3-events.controller';
+import { S3EventIngestionService } from './events/s3-event-ingestion.service';
+import { S3_EVENT_QUEUE } from './events/s3-event-queue.interface';
+import { createS3EventQueue } from './events/s3-event-queue.factory';
+import { s3EventsConfig } from '../config/s3-events.config';
+import { awsConfig } from '../config/aws.config';
+import { CrawlSourcesController } from './crawl/crawl-sources.controller';
+import { CrawlSourcesService } from './crawl/crawl-sources.service';
+import { WebCrawlerService } from './crawl/web-crawler.service';
+import { CRAWL_SOURCE_REGISTRY } from './crawl/crawl-source-registry.interface';
+import { createCrawlSourceRegistry } from './crawl/crawl-source-registry.factory';
+import { registryConfig } from '../config/registry.config';
 
 @Module({
   imports: [
     S3Module, // For S3Service
     DocumentProcessingModule, // For DocumentParserService & EmbeddingService
-    PineconeModule, // For PineconeService
+    VectorStoreModule, // For the vector store
+    DocumentRegistryModule, // For the document registry
+    CollectionRegistryModule, // For the collections documents are ingested into
   ],
-  controllers: [KnowledgeIngestionController],
-  providers: [KnowledgeIngestionService],
+  controllers: [
+    KnowledgeIngestionController,
+    S3EventsController,
+    CrawlSourcesController,
+  ],
+  providers: [
+    KnowledgeIngestionService,
+    IngestionJobService,
+    MultipartUploadService,
+    {
+      provide: INGESTION_JOB_QUEUE,
+      useFactory: () => createJobQueue(queueConfig),
+    },
+    S3EventIngestionService,
+    {
+      provide: S3_EVENT_QUEUE,
+      useFactory: () =>
+        createS3EventQueue(
+          s3EventsConfig,
+          awsConfig.region === 'YOUR_AWS_REGION' ? undefined : awsConfig.region,
+        ),
+    },
+    WebCrawlerService,
+    CrawlSourcesService,
+    {
+      provide: CRAWL_SOURCE_REGISTRY,
+      useFactory: () =>
+        createCrawlSourceRegistry({
+          backend: registryConfig.backend,
+          filePath: registryConfig.crawlSourcesFilePath,
+        }),
+    },
+  ],
+  exports: [KnowledgeIngestionService, IngestionJobService],
 })
-export class KnowledgeIngestionModule {} 
\ No newline at end of file
+export class KnowledgeIngestionModule {}
@@ -1,8 +1,107 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import * as path from 'path';
 import { S3Service } from '../s3/s3.service';
-import { DocumentParserService } from '../document-processing/document-parser.service';
-import { EmbeddingService } from '../document-processing/embedding.service';
-import { PineconeService } from '../pinecone/pinecone.service';
+import {
+  DocumentParserService,
+  ParsedDocument,
+} from '../document-processing/document-parser.service';
+import {
+  EmbeddedVector,
+  EmbeddingService,
+  PreparedChunk,
+} from '../document-processing/embedding.service';
+import { SparseEncodingService } from '../document-processing/sparse/sparse-encoding.service';
+import {
+  VECTOR_STORE,
+  VectorRecord,
+  VectorStore,
+} from '../vector-store/vector-store.interface';
+import {
+  ChunkChanges,
+  INGESTION_STAGES,
+  IngestionProgressCallback,
+  IngestionStage,
+} from './jobs/ingestion-job.types';
+import {
+  ChunkHashes,
+  DOCUMENT_REGISTRY,
+  DocumentRecord,
+  DocumentRegistry,
+} from '../documents/registry/document-registry.interface';
+import {
+  assertTenantKey,
+  tenantNamespace,
+} from '../common/tenancy/tenant-scope';
+import {
+  FaqBatchResultDto,
+  PresignedUploadDto,
+} from './dto/knowledge-ingestion.dto';
+import { collectionIdFromKey, createUploadKey } from './upload-content-types';
+import { uploadConfig } from '../config/upload.config';
+import { ingestionConfig } from '../config/ingestion.config';
+import { FileTooLargeError } from '../common/errors/domain-errors';
+import { hashStream, sha256 } from '../common/utils/content-hash';
+import {
+  DocumentAttributes,
+  FlatMetadata,
+  documentMetadata,
+  flattenMetadata,
+} from '../document-processing/metadata/document-metadata';
+import {
+  COLLECTION_REGISTRY,
+  CollectionRecord,
+  CollectionRegistry,
+} from '../collections/registry/collection-registry.interface';
+import { getTenantCollection } from '../collections/registry/tenant-collections';
+import { WebPage, webPageDocumentId, webPageFileName } from './crawl/web-page';
+import {
+  FaqEntry,
+  TEXT_FORMATS,
+  TextEntry,
+  TextEntryKind,
+  TextFormat,
+  textEntryDocumentId,
+} from './text/text-entry';
+
+export interface IngestionOptions {
+  force?: boolean; // Embed every chunk again, even if the document is unchanged
+  attributes?: DocumentAttributes; // Replace the given attributes; those left out are kept
+  uploadedBy?: string; // Who asked for the document to be ingested, kept from its first ingestion
+}
+
+export interface IngestionResult {
+  documentId: string;
+  skipped: boolean; // The document was unchanged since it was last indexed
+  changes: ChunkChanges;
+}
+
+// What the index holds for a document, to diff a new version against
+interface IndexedVersion {
+  contentHash?: string;
+  chunkIds: Set<string>;
+  chunkHashes: Record<string, ChunkHashes>; // Missing for chunks that must be embedded again
+  metadata?: FlatMetadata; // The document-level metadata its chunks carry
+}
+
+// Where a document's bytes come from: an S3 object, a crawled page or an entry submitted through the API
+interface DocumentSource {
+  id: string;
+  fileName: string;
+  s3Url?: string;
+  sourceUrl?: string;
+  externalId?: string;
+}
+
+// FAQ entries are cited by their question, cut to the length of a file name
+const MAX_FAQ_FILE_NAME_LENGTH = 200;
+
+interface StoredVersion {
+  contentHash: string;
+  chunkHashes: Record<string, ChunkHashes>;
+  metadata: FlatMetadata;
+  changes: Omit<ChunkChanges, 'deleted'>;
+  skipped: boolean;
+}
 
 @Injectable()
 export class KnowledgeIngestionService {
@@ -12,158 +111,987 @@ export class KnowledgeIngestionService {
     private readonly s3Service: S3Service,
     private readonly docParserService: DocumentParserService,
     private readonly embeddingService: EmbeddingService,
-    private readonly pineconeService: PineconeService,
+    @Inject(VECTOR_STORE) private readonly vectorStore: VectorStore,
+    @Inject(DOCUMENT_REGISTRY)
+    private readonly documentRegistry: DocumentRegistry,
+    private readonly sparseEncodingService: SparseEncodingService,
+    @Inject(COLLECTION_REGISTRY)
+    private readonly collectionRegistry: CollectionRegistry,
   ) {}
 
-  async generatePresignedUrl(
+  /**
+   * Sign a size-limited POST upload into the tenant's prefix
+   * @param tenantId The tenant uploading the file
+   * @param fileName The uploader's file name, stored as object metadata
+   * @param contentType An allowed MIME type the upload must be sent with
+   * @param collectionId The collection the file is ingested into once uploaded
+   * @returns The form to post and the S3 URL to process afterwards
+   * @throws NotFoundException if the tenant has no such collection
+   */
+  async createPresignedUpload(
+    tenantId: string,
     fileName: string,
-    fileType: string,
-  ): Promise<string> {
+    contentType: string,
+    collectionId?: string,
+  ): Promise<PresignedUploadDto> {
     this.logger.log(
-      `Generating presigned URL for: ${fileName}, type: ${fileType}`,
+      `Generating presigned upload for tenant ${tenantId}: ${fileName}, type: ${contentType}`,
     );
-    // You might want to sanitize fileName or create a unique key for S3
-    const s3Key = `uploads/${Date.now()}-${fileName}.${fileType}`;
-    return this.s3Service.getPresignedUrl(s3Key, fileType);
+    if (collectionId) {
+      await this.getTenantCollection(tenantId, collectionId);
+    }
+    const s3Key = createUploadKey(tenantId, contentType, collectionId);
+    const { url, fields } = await this.s3Service.createPresignedPost(
+      s3Key,
+      contentType,
+      {
+        maxFileSizeBytes: uploadConfig.maxFileSizeBytes,
+        expiresInSeconds: uploadConfig.expirySeconds,
+        originalFileName: fileName,
+      },
+    );
+    return {
+      url,
+      fields,
+      s3ObjectUrl: this.s3Service.getObjectUrl(s3Key),
+      expiresAt: new Date(
+        Date.now() + uploadConfig.expirySeconds * 1000,
+      ).toISOString(),
+      maxFileSizeBytes: uploadConfig.maxFileSizeBytes,
+    };
   }
 
   /**
-   * Process a document from S3 and store its embeddings in Pinecone
+   * Resolve the document ID (S3 key) of an S3 URL the tenant may ingest
+   * @throws ForbiddenException if the object is outside the tenant's prefix
+   */
+  getTenantDocumentId(tenantId: string, s3ObjectUrl: string): string {
+    const documentId = this.s3Service.getKeyFromUrl(s3ObjectUrl);
+    assertTenantKey(tenantId, documentId);
+    return documentId;
+  }
+
+  /**
+   * Look up a collection documents of the tenant may be ingested into
+   * @throws NotFoundException if the tenant has no such collection
+   */
+  getTenantCollection(
+    tenantId: string,
+    collectionId: string,
+  ): Promise<CollectionRecord> {
+    return getTenantCollection(this.collectionRegistry, tenantId, collectionId);
+  }
+
+  /**
+   * Process a document from S3 and store its embeddings in the vector store. A document
+   * indexed before is diffed against that version: unchanged documents are
+   * skipped, and only chunks that are new or whose text changed are embedded.
+   * @param tenantId The tenant the document belongs to
    * @param s3ObjectUrl The S3 URL of the document to process
-   * @returns Object containing the document ID (S3 key)
+   * @param onProgress Optional callback notified as each pipeline stage starts and completes
+   * @param options Pass force to embed every chunk again, e.g. after switching embedding models,
+   * and attributes to tag the document with
+   * @returns The document ID (S3 key) and how its chunks changed
    */
   async processDocumentFromS3(
+    tenantId: string,
     s3ObjectUrl: string,
-  ): Promise<{ documentId: string }> {
+    onProgress?: IngestionProgressCallback,
+    options: IngestionOptions = {},
+  ): Promise<IngestionResult> {
     this.logger.log(`Starting to process document from S3 URL: ${s3ObjectUrl}`);
 
-    try {
-      // Step 1: Download the content from S3
-      const { content, s3Key, originalFileName } =
-        await this.s3Service.downloadFileContentFromUrl(s3ObjectUrl);
-
-      // Step 2: Parse the document content
-      const parsedDocument = await this.parseDocumentContent(
-        content,
-        originalFileName,
-      );
+    const documentId = this.getTenantDocumentId(tenantId, s3ObjectUrl);
+    return this.indexDocument(
+      tenantId,
+      {
+        id: documentId,
+        fileName: path.basename(documentId),
+        s3Url: s3ObjectUrl,
+      },
+      options,
+      async (record, baseline) => {
+        // Step 1: Look the object up; large line-oriented files are never held in memory
+        const head = await this.s3Service.headObject(documentId);
+        const originalFileName =
+          head.originalFileName ?? path.basename(documentId);
+        const streamed =
+          head.contentLength > ingestionConfig.streamingThresholdBytes &&
+          this.docParserService.canParseStream(
+            originalFileName,
+            head.contentType,
+          );
+        if (
+          !streamed &&
+          head.contentLength > ingestionConfig.maxBufferedFileSizeBytes
+        ) {
+          throw new FileTooLargeError(
+            documentId,
+            head.contentLength,
+            ingestionConfig.maxBufferedFileSizeBytes,
+          );
+        }
 
-      // Step 3: Generate embeddings and store in vector DB
-      const documentId = await this.generateAndStoreEmbeddings(
-        parsedDocument.content,
-        parsedDocument.metadata,
-        s3Key,
-        s3ObjectUrl,
-        originalFileName,
-      );
+        // Steps 2-3: Parse the content, then embed the changed chunks and store the vectors
+        const stored = streamed
+          ? await this.streamAndStoreEmbeddings(
+              tenantId,
+              record,
+              originalFileName,
+              head.contentType,
+              baseline,
+              onProgress,
+            )
+          : await this.parseAndStoreEmbeddings(
+              tenantId,
+              record,
+              await this.runStage('downloading', onProgress, async () => {
+                const { body, contentType, originalFileName } =
+                  await this.s3Service.downloadFileFromUrl(s3ObjectUrl);
+                return { body, contentType, fileName: originalFileName };
+              }),
+              baseline,
+              onProgress,
+            );
+        return { ...stored, fileName: originalFileName, etag: head.etag };
+      },
+    );
+  }
 
-      return { documentId };
-    } catch (error) {
-      this.logger.error(
-        `Error processing document from S3 ${s3ObjectUrl}:`,
-        error.stack,
+  /**
+   * Index a page fetched by the crawler, like a document from S3. The page's
+   * URL decides its document ID, so crawling it again updates the same document.
+   * @param tenantId The tenant the page is indexed for
+   * @param page The page's URL and the body it was served with
+   * @param options Pass attributes to tag the page with
+   * @returns The document ID and how its chunks changed
+   */
+  async processWebPage(
+    tenantId: string,
+    page: WebPage,
+    options: IngestionOptions = {},
+  ): Promise<IngestionResult> {
+    const documentId = webPageDocumentId(tenantId, page.url);
+    const fileName = webPageFileName(page.url);
+    return this.indexDocument(
+      tenantId,
+      { id: documentId, fileName, sourceUrl: page.url },
+      options,
+      async (record, baseline) => ({
+        ...(await this.parseAndStoreEmbeddings(
+          tenantId,
+          record,
+          { body: page.body, contentType: page.contentType, fileName },
+          baseline,
+        )),
+        fileName,
+      }),
+    );
+  }
+
+  /**
+   * Index text submitted through the API, parsed and normalized like an
+   * uploaded file of its format. Submitting the same external ID again updates
+   * the entry; only chunks whose text changed are embedded again.
+   * @param tenantId The tenant the entry belongs to
+   * @param entry The text, its title and the client's ID for it
+   * @param options Pass attributes to tag the entry with
+   * @returns The document ID and how its chunks changed
+   * @throws NotFoundException if the tenant has no such collection
+   */
+  async processText(
+    tenantId: string,
+    entry: TextEntry,
+    options: IngestionOptions = {},
+  ): Promise<IngestionResult> {
+    const { externalId, title, text, format = 'text' } = entry;
+    await this.assertCollectionExists(tenantId, options);
+    return this.indexDocument(
+      tenantId,
+      {
+        id: textEntryDocumentId(tenantId, 'text', externalId),
+        fileName: title,
+        externalId,
+      },
+      options,
+      async (record, baseline) => {
+        // The title is stored with every chunk, so renaming an entry re-indexes it
+        const contentHash = sha256(JSON.stringify([format, title, text]));
+        const stored =
+          contentHash === baseline.contentHash
+            ? this.unchangedVersion(record.id, contentHash, baseline)
+            : await this.storeParsedDocument(
+                tenantId,
+                record,
+                {
+                  parsed: await this.parseText(text, title, format),
+                  fileName: title,
+                  contentHash,
+                },
+                baseline,
+              );
+        return { ...stored, fileName: title };
+      },
+    );
+  }
+
+  /**
+   * Index a question and its answer. The question alone is embedded, so
+   * searches match what users ask; the answer is stored in the chunk metadata
+   * and changing it does not embed the question again. Entries are stored
+   * with the doc type faq.
+   * @param tenantId The tenant the entry belongs to
+   * @param entry The question, its answer and the client's ID for them
+   * @param options Pass attributes to tag the entry with
+   * @returns The document ID and how its chunk changed
+   * @throws NotFoundException if the tenant has no such collection
+   */
+  async processFaq(
+    tenantId: string,
+    entry: FaqEntry,
+    options: IngestionOptions = {},
+  ): Promise<IngestionResult> {
+    const { externalId, question, answer, format = 'text' } = entry;
+    const fileName = question.slice(0, MAX_FAQ_FILE_NAME_LENGTH);
+    await this.assertCollectionExists(tenantId, options);
+    return this.indexDocument(
+      tenantId,
+      {
+        id: textEntryDocumentId(tenantId, 'faq', externalId),
+        fileName,
+        externalId,
+      },
+      options,
+      async (record, baseline) => {
+        const contentHash = sha256(JSON.stringify([format, question, answer]));
+        if (contentHash === baseline.contentHash) {
+          return {
+            ...this.unchangedVersion(record.id, contentHash, baseline),
+            fileName,
+          };
+        }
+        const parsedQuestion = await this.parseText(question, fileName, 'text');
+        const parsedAnswer = await this.parseText(answer, fileName, format);
+        const stored = await this.storeParsedDocument(
+          tenantId,
+          record,
+          {
+            parsed: {
+              content: parsedQuestion.content.trim(),
+              metadata: { ...parsedQuestion.metadata, format: 'faq' },
+            },
+            fileName,
+            contentHash,
+            metadata: { answer: parsedAnswer.content.trim() },
+          },
+          baseline,
+        );
+        return { ...stored, fileName };
+      },
+    );
+  }
+
+  /**
+   * Index FAQ entries one after the other. An entry that fails does not stop
+   * the others; its document is marked failed and the error reported with it.
+   * @param entries Each entry with the attributes to tag it with
+   * @returns What became of each entry, in the order given
+   * @throws NotFoundException if the tenant lacks a collection, before any entry is indexed
+   */
+  async processFaqs(
+    tenantId: string,
+    entries: Array<{ entry: FaqEntry; options?: IngestionOptions }>,
+  ): Promise<FaqBatchResultDto> {
+    this.logger.log(
+      `Indexing ${entries.length} FAQ entries for tenant ${tenantId}`,
+    );
+    for (const { options } of entries) {
+      await this.assertCollectionExists(tenantId, options);
+    }
+    const results: FaqBatchResultDto['entries'] = [];
+    for (const { entry, options } of entries) {
+      try {
+        const result = await this.processFaq(tenantId, entry, options);
+        results.push({
+          externalId: entry.externalId,
+          documentId: result.documentId,
+          status: result.skipped ? 'unchanged' : 'indexed',
+          changes: result.changes,
+        });
+      } catch (error) {
+        results.push({
+          externalId: entry.externalId,
+          documentId: textEntryDocumentId(tenantId, 'faq', entry.externalId),
+          status: 'failed',
+          error: error.message,
+        });
+      }
+    }
+    const count = (status: string) =>
+      results.filter((result) => result.status === status).length;
+    return {
+      indexed: count('indexed'),
+      unchanged: count('unchanged'),
+      failed: count('failed'),
+      entries: results,
+    };
+  }
+
+  /**
+   * Remove a text or FAQ entry from the index by the client's ID for it
+   * @returns The number of vectors deleted
+   * @throws NotFoundException if the tenant has no such entry
+   */
+  async removeTextEntry(
+    tenantId: string,
+    kind: TextEntryKind,
+    externalId: string,
+  ): Promise<number> {
+    const documentId = textEntryDocumentId(tenantId, kind, externalId);
+    if (!(await this.documentRegistry.get(documentId))) {
+      throw new NotFoundException(
+        `No ${kind} entry with external ID ${externalId} found.`,
       );
-      throw error;
     }
+    return this.removeDocument(tenantId, documentId);
   }
 
   /**
-   * Parse document content using the DocumentParserService
-   * @param content The raw document content as a string
-   * @param fileName The original file name
-   * @returns Parsed content and metadata
+   * Diff a new version of a document against the one indexed, store it and
+   * keep its registry record up to date, marking it failed if storing fails
+   * @param source Where the document comes from
+   * @param store Stores the document's changed chunks against the baseline
    */
-  private async parseDocumentContent(
-    content: string,
-    fileName: string,
-  ): Promise<{ content: string; metadata: Record<string, any> }> {
-    this.logger.log(`Parsing document content for file: ${fileName}`);
+  private async indexDocument(
+    tenantId: string,
+    source: DocumentSource,
+    options: IngestionOptions,
+    store: (
+      record: DocumentRecord,
+      baseline: IndexedVersion,
+    ) => Promise<StoredVersion & { fileName: string; etag?: string }>,
+  ): Promise<IngestionResult> {
+    const documentId = source.id;
+    const previous = await this.documentRegistry.get(documentId);
+    const attributes: DocumentAttributes = {
+      tags: options.attributes?.tags ?? previous?.attributes?.tags,
+      language: options.attributes?.language ?? previous?.attributes?.language,
+      labels: options.attributes?.labels ?? previous?.attributes?.labels,
+      // Objects uploaded into a collection's prefix join it unless told otherwise
+      collectionId:
+        options.attributes?.collectionId ??
+        previous?.attributes?.collectionId ??
+        collectionIdFromKey(tenantId, documentId),
+    };
+    const uploadedBy = previous?.uploadedBy ?? options.uploadedBy;
+    // Unchanged bytes are only skipped if their chunks already carry the right metadata
+    const metadataChanged =
+      !previous?.metadata ||
+      JSON.stringify(attributes) !==
+        JSON.stringify(previous.attributes ?? {}) ||
+      uploadedBy !== previous.uploadedBy;
+    const baseline: IndexedVersion = {
+      contentHash:
+        options.force || metadataChanged ? undefined : previous?.contentHash,
+      chunkIds: new Set(previous?.chunkIds),
+      chunkHashes: options.force ? {} : (previous?.chunkHashes ?? {}),
+      metadata: previous?.metadata,
+    };
+    // Vectors may be overwritten from here on, so the hashes are only saved again once they match the index
+    const record: DocumentRecord = {
+      ...this.processingRecord(tenantId, source, previous),
+      uploadedBy,
+      attributes,
+      contentHash: undefined,
+      chunkHashes: undefined,
+    };
+    await this.documentRegistry.save(record);
 
     try {
-      // Use the new parseContentFromString method
-      const result = await this.docParserService.parseContentFromString(
-        content,
-        fileName,
-      );
+      // The collection may have been deleted since the document was queued
+      if (attributes.collectionId) {
+        await this.getTenantCollection(tenantId, attributes.collectionId);
+      }
+
+      const stored = await store(record, baseline);
 
+      // Step 4: Remove chunks a previous version produced that this one no longer does
+      const chunkIds = Object.keys(stored.chunkHashes);
+      const current = new Set(chunkIds);
+      const staleChunkIds = record.chunkIds.filter((id) => !current.has(id));
+      if (staleChunkIds.length > 0) {
+        this.logger.log(
+          `Removing ${staleChunkIds.length} stale chunks of ${documentId}`,
+        );
+        await this.deleteChunks(tenantId, staleChunkIds);
+      }
+
+      const ingestedAt = new Date().toISOString();
+      await this.documentRegistry.save({
+        ...record,
+        fileName: stored.fileName,
+        status: 'indexed',
+        etag: stored.etag,
+        chunkIds,
+        contentHash: stored.contentHash,
+        chunkHashes: stored.chunkHashes,
+        metadata: stored.metadata,
+        updatedAt: ingestedAt,
+        lastIngestedAt: ingestedAt,
+      });
+
+      const changes: ChunkChanges = {
+        ...stored.changes,
+        deleted: staleChunkIds.length,
+      };
       this.logger.log(
-        `Document parsed successfully. Content length: ${result.content.length}`,
+        `Indexed ${documentId}: ${changes.added} chunks added, ${changes.updated} updated, ${changes.unchanged} unchanged, ${changes.deleted} deleted`,
       );
-
-      return result;
+      return { documentId, skipped: stored.skipped, changes };
     } catch (error) {
       this.logger.error(
-        `Error parsing document content for ${fileName}:`,
-        error,
+        `Error processing document ${source.s3Url ?? source.sourceUrl ?? source.id}:`,
+        error.stack,
       );
+      await this.documentRegistry.save({
+        ...record,
+        status: 'failed',
+        error: error.message,
+        updatedAt: new Date().toISOString(),
+      });
       throw error;
     }
   }
 
   /**
-   * Generate embeddings for the document content and store them in Pinecone
-   * @param content The parsed document content
-   * @param metadata The document metadata from parsing
+   * Mark a version of an object as queued for ingestion, unless it already is.
+   * Lets at-least-once notifications about the same upload be handled once.
+   * @param etag The object's ETag, identifying the version
+   * @returns false if this version is already indexed or being indexed
+   */
+  async claimObjectVersion(
+    tenantId: string,
+    s3ObjectUrl: string,
+    etag: string,
+  ): Promise<boolean> {
+    const documentId = this.getTenantDocumentId(tenantId, s3ObjectUrl);
+    const previous = await this.documentRegistry.get(documentId);
+    if (previous?.etag === etag && previous.status !== 'failed') {
+      return false;
+    }
+    await this.documentRegistry.save({
+      ...this.processingRecord(
+        tenantId,
+        {
+          id: documentId,
+          fileName: path.basename(documentId),
+          s3Url: s3ObjectUrl,
+        },
+        previous,
+      ),
+      etag,
+    });
+    this.logger.log(`Queued version ${etag} of ${documentId} for ingestion`);
+    return true;
+  }
+
+  /**
+   * Mark a document as failed when its ingestion could not even be started,
+   * so the next attempt is not mistaken for a duplicate
+   */
+  async recordFailure(documentId: string, error: Error): Promise<void> {
+    const record = await this.documentRegistry.get(documentId);
+    if (record) {
+      await this.documentRegistry.save({
+        ...record,
+        status: 'failed',
+        error: error.message,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Remove a document's vectors from the index and forget it. Safe to repeat.
+   * @param tenantId The tenant the document belongs to
    * @param documentId The document ID (S3 key)
-   * @param s3ObjectUrl The original S3 URL
-   * @param originalFileName The original file name
-   * @returns The document ID
+   * @returns The number of vectors deleted
+   */
+  async removeDocument(tenantId: string, documentId: string): Promise<number> {
+    assertTenantKey(tenantId, documentId);
+    const namespace = tenantNamespace(tenantId);
+    const record = await this.documentRegistry.get(documentId);
+
+    // The registry may miss chunks from an interrupted ingestion, so also sweep by ID prefix
+    const listedIds = await this.vectorStore
+      .listIds(namespace, `${documentId}#`)
+      .catch((error) => {
+        this.logger.warn(
+          `Could not list vectors for ${documentId}, deleting registered chunks only: ${error.message}`,
+        );
+        return [];
+      });
+    const vectorIds = [...new Set([...(record?.chunkIds ?? []), ...listedIds])];
+
+    if (vectorIds.length > 0) {
+      await this.deleteChunks(tenantId, vectorIds);
+    }
+    await this.documentRegistry.delete(documentId);
+    this.logger.log(
+      `Removed document ${documentId} and ${vectorIds.length} vectors`,
+    );
+    return vectorIds.length;
+  }
+
+  /**
+   * The registry record of a document about to be (re-)ingested
    */
-  private async generateAndStoreEmbeddings(
-    content: string,
-    metadata: Record<string, any>,
+  private processingRecord(
+    tenantId: string,
+    source: DocumentSource,
+    previous: DocumentRecord | undefined,
+  ): DocumentRecord {
+    const now = new Date().toISOString();
+    return {
+      id: source.id,
+      tenantId,
+      ...(source.s3Url && { s3Key: source.id, s3Url: source.s3Url }),
+      ...(source.sourceUrl && { sourceUrl: source.sourceUrl }),
+      ...(source.externalId && { externalId: source.externalId }),
+      fileName: source.fileName,
+      chunkIds: [],
+      createdAt: now,
+      ...previous,
+      status: 'processing',
+      error: undefined,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Parse a whole document and store the embeddings of its changed chunks.
+   * Parsing and embedding are skipped altogether if the bytes are the ones last indexed.
+   * @param file The document's bytes, as downloaded or fetched
+   */
+  private async parseAndStoreEmbeddings(
+    tenantId: string,
+    record: DocumentRecord,
+    file: { body: Buffer; contentType?: string; fileName: string },
+    baseline: IndexedVersion,
+    onProgress?: IngestionProgressCallback,
+  ): Promise<StoredVersion> {
+    const { body, contentType, fileName } = file;
+    const contentHash = sha256(body);
+    if (contentHash === baseline.contentHash) {
+      return this.unchangedVersion(record.id, contentHash, baseline);
+    }
+
+    const parsedDocument = await this.runStage('parsing', onProgress, () =>
+      this.parseDocumentContent(body, fileName, contentType),
+    );
+    return this.storeParsedDocument(
+      tenantId,
+      record,
+      { parsed: parsedDocument, fileName, contentHash },
+      baseline,
+      onProgress,
+    );
+  }
+
+  /**
+   * Chunk a parsed document and store the embeddings of its changed chunks
+   * @param version The parsed document, the name it is cited by, the hash of
+   * what it was parsed from, and metadata to store with every chunk on top of
+   * what the parser reported
+   */
+  private async storeParsedDocument(
+    tenantId: string,
+    record: DocumentRecord,
+    version: {
+      parsed: ParsedDocument;
+      fileName: string;
+      contentHash: string;
+      metadata?: FlatMetadata;
+    },
+    baseline: IndexedVersion,
+    onProgress?: IngestionProgressCallback,
+  ): Promise<StoredVersion> {
+    const documentId = record.id;
+    const { parsed, fileName, contentHash } = version;
+
+    this.logger.log(`Generating embeddings for document: ${documentId}`);
+    const metadata = this.chunkMetadata(record, parsed.metadata, fileName);
+    const chunks = this.embeddingService.prepareChunks({
+      id: documentId,
+      content: parsed.content,
+      pages: parsed.pages,
+      metadata: { ...metadata.chunk, ...version.metadata },
+    });
+    if (chunks.length === 0) {
+      throw new Error(
+        `Failed to generate embeddings for document: ${documentId}`,
+      );
+    }
+
+    const changes = await this.storeChunks(
+      tenantId,
+      documentId,
+      chunks,
+      baseline,
+      onProgress,
+    );
+    this.logger.log(
+      `Document ${documentId} embeddings successfully stored in vector database`,
+    );
+    return {
+      contentHash,
+      chunkHashes: this.hashesOf(chunks),
+      metadata: metadata.document,
+      changes,
+      skipped: false,
+    };
+  }
+
+  private unchangedVersion(
     documentId: string,
-    s3ObjectUrl: string,
+    contentHash: string,
+    baseline: IndexedVersion,
+  ): StoredVersion {
+    this.logger.log(`Document ${documentId} is unchanged, skipping it`);
+    return {
+      contentHash,
+      chunkHashes: baseline.chunkHashes,
+      metadata: baseline.metadata,
+      changes: {
+        added: 0,
+        updated: 0,
+        unchanged: baseline.chunkIds.size,
+      },
+      skipped: true,
+    };
+  }
+
+  /**
+   * Read, parse, embed and store the document in one pass, a group of chunks
+   * at a time, so memory use does not grow with the file size. The stages
+   * overlap: each starts with the first group and completes with the last.
+   * The bytes are only hashed as they go by, so unchanged documents are still
+   * read, but none of their chunks are embedded again.
+   */
+  private async streamAndStoreEmbeddings(
+    tenantId: string,
+    record: DocumentRecord,
     originalFileName: string,
-  ): Promise<string> {
-    this.logger.log(`Generating embeddings for document: ${documentId}`);
+    contentType: string | undefined,
+    baseline: IndexedVersion,
+    onProgress?: IngestionProgressCallback,
+  ): Promise<StoredVersion> {
+    const documentId = record.id;
+    this.logger.log(`Streaming document ${documentId} for ingestion`);
 
-    try {
-      // Prepare the document for embedding
-      const documentForEmbedding = {
-        id: documentId,
-        content: content,
-        metadata: {
-          ...metadata,
-          s3_url: s3ObjectUrl,
-          original_filename: originalFileName,
-        },
-      };
+    await onProgress?.('downloading', 'started');
+    await onProgress?.('parsing', 'started');
+    const { stream, digest } = hashStream(
+      this.s3Service.getObjectStream(documentId),
+    );
+    const { lines, metadata } = this.docParserService.parseStream(
+      stream,
+      originalFileName,
+      contentType,
+    );
+
+    const chunkHashes: Record<string, ChunkHashes> = {};
+    const changes = { added: 0, updated: 0, unchanged: 0 };
+    const streamMetadata = this.chunkMetadata(
+      record,
+      metadata,
+      originalFileName,
+    );
+    const groups = this.embeddingService.prepareChunkStream({
+      id: documentId,
+      lines,
+      metadata: streamMetadata.chunk,
+    });
+    for await (const chunks of groups) {
+      if (Object.keys(chunkHashes).length === 0) {
+        await onProgress?.('embedding', 'started');
+        await onProgress?.('upserting', 'started');
+      }
+      const groupChanges = await this.storeChunks(
+        tenantId,
+        documentId,
+        chunks,
+        baseline,
+      );
+      changes.added += groupChanges.added;
+      changes.updated += groupChanges.updated;
+      changes.unchanged += groupChanges.unchanged;
+      Object.assign(chunkHashes, this.hashesOf(chunks));
+    }
 
-      console.log('documentForEmbedding', documentForEmbedding);
+    const chunkCount = Object.keys(chunkHashes).length;
+    if (chunkCount === 0) {
+      throw new Error(
+        `Failed to generate embeddings for document: ${documentId}`,
+      );
+    }
+    for (const stage of INGESTION_STAGES) {
+      await onProgress?.(stage, 'completed');
+    }
+    this.logger.log(
+      `Document ${documentId} streamed into ${chunkCount} vectors`,
+    );
+    return {
+      contentHash: digest(),
+      chunkHashes,
+      metadata: streamMetadata.document,
+      changes,
+      skipped: false,
+    };
+  }
 
-      // Generate embeddings
-      const vectorsToUpsert =
-        await this.embeddingService.getEmbeddingsForDocuments([
-          documentForEmbedding,
-        ]);
+  /**
+   * Store chunks, embedding only those that are new or whose text changed since
+   * the indexed version. Unchanged chunks whose metadata moved (their offsets or
+   * pages, say) are stored again with the vectors they already have.
+   * @param baseline The chunks in the index and their hashes
+   * @param onProgress Optional callback for the embedding and upserting stages
+   */
+  private async storeChunks(
+    tenantId: string,
+    documentId: string,
+    chunks: PreparedChunk[],
+    baseline: IndexedVersion,
+    onProgress?: IngestionProgressCallback,
+  ): Promise<Omit<ChunkChanges, 'deleted'>> {
+    const namespace = tenantNamespace(tenantId);
+    const changes = { added: 0, updated: 0, unchanged: 0 };
+    const toEmbed: PreparedChunk[] = [];
+    const toRestore: PreparedChunk[] = [];
+    for (const chunk of chunks) {
+      const indexed = baseline.chunkHashes[chunk.id];
+      if (!baseline.chunkIds.has(chunk.id)) {
+        changes.added++;
+        toEmbed.push(chunk);
+      } else if (indexed?.content !== chunk.contentHash) {
+        changes.updated++;
+        toEmbed.push(chunk);
+      } else {
+        changes.unchanged++;
+        if (indexed.metadata !== chunk.metadataHash) {
+          toRestore.push(chunk);
+        }
+      }
+    }
 
-      console.log('vectorsToUpsert', vectorsToUpsert);
+    const vectors = await this.runStage('embedding', onProgress, async () => {
+      // The versions changed chunks replace are only needed to count their terms out
+      const replaced = this.sparseEncodingService.enabled
+        ? toEmbed.filter((chunk) => baseline.chunkIds.has(chunk.id))
+        : [];
+      const stored = new Map(
+        (
+          await this.vectorStore.fetch(
+            namespace,
+            [...toRestore, ...replaced].map((chunk) => chunk.id),
+          )
+        ).map((vector) => [vector.id, vector]),
+      );
+      // Vectors missing from the index after all are embedded like changed ones
+      const missing = toRestore.filter((chunk) => !stored.has(chunk.id));
+      const { vectors: embedded, failures } =
+        toEmbed.length + missing.length > 0
+          ? await this.embeddingService.embedChunks([...toEmbed, ...missing])
+          : { vectors: [], failures: [] };
 
-      if (!vectorsToUpsert || vectorsToUpsert.length === 0) {
+      if (failures.length > 0) {
+        const failedChunks = failures.reduce(
+          (sum, failure) => sum + failure.ids.length,
+          0,
+        );
         throw new Error(
-          `Failed to generate embeddings for document: ${documentId}`,
+          `Failed to embed ${failedChunks} chunks in ${failures.length} batches for document ${documentId}: ${failures[0].error}`,
         );
       }
+      const vectors: EmbeddedVector[] = [
+        ...embedded,
+        ...toRestore
+          .filter((chunk) => stored.has(chunk.id))
+          .map((chunk) => ({
+            id: chunk.id,
+            values: stored.get(chunk.id).values,
+            sparseValues: stored.get(chunk.id).sparseValues,
+            metadata: chunk.metadata,
+          })),
+      ];
+      if (this.sparseEncodingService.enabled) {
+        await this.addSparseValues(
+          tenantId,
+          vectors,
+          replaced
+            .map((chunk) => stored.get(chunk.id))
+            .filter((vector) => vector?.sparseValues),
+        );
+      }
+      return vectors;
+    });
 
-      this.logger.log(
-        `Embeddings generated. Number of vectors: ${vectorsToUpsert.length}`,
-      );
+    await this.runStage('upserting', onProgress, async () => {
+      if (vectors.length > 0) {
+        await this.vectorStore.upsert(namespace, vectors);
+      }
+    });
+    return changes;
+  }
+
+  /**
+   * Give vectors without sparse values their BM25 terms, counting them into the
+   * tenant's term statistics in place of the stored vectors they replace
+   */
+  private async addSparseValues(
+    tenantId: string,
+    vectors: EmbeddedVector[],
+    replaced: VectorRecord[],
+  ): Promise<void> {
+    const unencoded = vectors.filter((vector) => !vector.sparseValues);
+    const sparse = await this.sparseEncodingService.indexChunks(
+      tenantId,
+      unencoded.map((vector) => vector.metadata.text ?? ''),
+      replaced.map((vector) => vector.metadata?.text ?? ''),
+    );
+    unencoded.forEach((vector, i) => {
+      // Pinecone rejects empty sparse values; chunks without terms only match densely
+      if (sparse[i].indices.length > 0) {
+        vector.sparseValues = sparse[i];
+      }
+    });
+  }
+
+  /**
+   * Delete vectors, counting their chunks out of the tenant's term statistics
+   */
+  private async deleteChunks(tenantId: string, ids: string[]): Promise<void> {
+    const namespace = tenantNamespace(tenantId);
+    const stored = this.sparseEncodingService.enabled
+      ? await this.vectorStore.fetch(namespace, ids)
+      : [];
+    await this.vectorStore.delete(namespace, ids);
+    await this.sparseEncodingService.forgetChunks(
+      tenantId,
+      stored
+        .filter((vector) => vector.sparseValues)
+        .map((vector) => vector.metadata?.text ?? ''),
+    );
+  }
+
+  /**
+   * The metadata every chunk of a document is stored with: what the parser
+   * reported, flattened, then the document-level schema fields and where the
+   * document came from
+   * @returns The chunks' metadata, and the document-level part of it on its own
+   */
+  private chunkMetadata(
+    record: DocumentRecord,
+    parsed: Record<string, any>,
+    originalFileName: string,
+  ): { chunk: FlatMetadata; document: FlatMetadata } {
+    const { format, ...details } = parsed; // Stored as doc_type
+    delete details.source; // Stored as original_filename
+    const document = documentMetadata(format, record);
+    return {
+      chunk: {
+        ...flattenMetadata(details),
+        ...document,
+        ...(record.s3Url && { s3_url: record.s3Url }),
+        ...(record.sourceUrl && { source_url: record.sourceUrl }),
+        ...(record.externalId && { external_id: record.externalId }),
+        original_filename: originalFileName,
+      },
+      document,
+    };
+  }
+
+  private hashesOf(chunks: PreparedChunk[]): Record<string, ChunkHashes> {
+    return Object.fromEntries(
+      chunks.map((chunk) => [
+        chunk.id,
+        { content: chunk.contentHash, metadata: chunk.metadataHash },
+      ]),
+    );
+  }
+
+  /**
+   * Entries submitted through the API are rejected outright for a missing
+   * collection, rather than recorded as failed documents
+   */
+  private async assertCollectionExists(
+    tenantId: string,
+    options: IngestionOptions | undefined,
+  ): Promise<void> {
+    const collectionId = options?.attributes?.collectionId;
+    if (collectionId) {
+      await this.getTenantCollection(tenantId, collectionId);
+    }
+  }
+
+  /**
+   * Parse submitted text like a file of its format, so it is normalized the same way
+   */
+  private parseText(
+    text: string,
+    name: string,
+    format: TextFormat,
+  ): Promise<ParsedDocument> {
+    // The extension, not the name the client chose, decides how it is parsed
+    return this.parseDocumentContent(
+      Buffer.from(text, 'utf8'),
+      `${name}${TEXT_FORMATS[format]}`,
+    );
+  }
+
+  /**
+   * Parse document content using the DocumentParserService
+   * @param body The raw document bytes
+   * @param fileName The original file name
+   * @param contentType The content type stored with the S3 object, if any
+   * @returns Parsed content and metadata
+   */
+  private async parseDocumentContent(
+    body: Buffer,
+    fileName: string,
+    contentType?: string,
+  ): Promise<ParsedDocument> {
+    this.logger.log(`Parsing document content for file: ${fileName}`);
 
-      // Store embeddings in Pinecone
-      await this.pineconeService.upsertVectors(vectorsToUpsert);
+    try {
+      const result = await this.docParserService.parseContent(
+        body,
+        fileName,
+        contentType,
+      );
 
       this.logger.log(
-        `Document ${documentId} embeddings successfully stored in vector database`,
+        `Document parsed successfully. Content length: ${result.content.length}`,
       );
 
-      return documentId;
+      return result;
     } catch (error) {
       this.logger.error(
-        `Error generating or storing embeddings for ${documentId}:`,
+        `Error parsing document content for ${fileName}:`,
         error,
       );
       throw error;
     }
   }
+
+  private async runStage<T>(
+    stage: IngestionStage,
+    onProgress: IngestionProgressCallback | undefined,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    await onProgress?.(stage, 'started');
+    const result = await operation();
+    await onProgress?.(stage, 'completed');
+    return result;
+  }
 }
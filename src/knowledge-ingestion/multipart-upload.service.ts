@@ -0,0 +1,147 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { S3Service } from '../s3/s3.service';
+import { KnowledgeIngestionService } from './knowledge-ingestion.service';
+import {
+  CompletedUploadDto,
+  MultipartUploadDto,
+  SignedPartUrlsDto,
+} from './dto/knowledge-ingestion.dto';
+import { createUploadKey } from './upload-content-types';
+import { uploadConfig } from '../config/upload.config';
+import { FileTooLargeError } from '../common/errors/domain-errors';
+
+// S3 rejects parts smaller than this, except the last one, and uploads of more parts
+const MIN_PART_SIZE_BYTES = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+/**
+ * Uploads too large for a single presigned POST. The client starts an upload,
+ * PUTs each part to a signed URL, then completes (or aborts) it.
+ */
+@Injectable()
+export class MultipartUploadService {
+  private readonly logger = new Logger(MultipartUploadService.name);
+
+  constructor(
+    private readonly s3Service: S3Service,
+    private readonly ingestionService: KnowledgeIngestionService,
+  ) {}
+
+  /**
+   * Start a multipart upload to a fresh key in the tenant's prefix
+   * @param fileSize The size of the whole file in bytes, used to pick the part size
+   * @param collectionId The collection the file is ingested into once uploaded
+   * @throws NotFoundException if the tenant has no such collection
+   */
+  async initiate(
+    tenantId: string,
+    fileName: string,
+    contentType: string,
+    fileSize: number,
+    collectionId?: string,
+  ): Promise<MultipartUploadDto> {
+    if (collectionId) {
+      await this.ingestionService.getTenantCollection(tenantId, collectionId);
+    }
+    const s3Key = createUploadKey(tenantId, contentType, collectionId);
+    // Grow the parts when the configured size would need more than S3 allows
+    const partSizeBytes = Math.max(
+      uploadConfig.multipartPartSizeBytes,
+      MIN_PART_SIZE_BYTES,
+      Math.ceil(fileSize / MAX_PARTS),
+    );
+    const uploadId = await this.s3Service.createMultipartUpload(
+      s3Key,
+      contentType,
+      fileName,
+    );
+    this.logger.log(
+      `Tenant ${tenantId} started multipart upload of ${fileName} (${fileSize} bytes) to ${s3Key}`,
+    );
+    return {
+      uploadId,
+      s3ObjectUrl: this.s3Service.getObjectUrl(s3Key),
+      partSizeBytes,
+      partCount: Math.max(Math.ceil(fileSize / partSizeBytes), 1),
+      maxFileSizeBytes: uploadConfig.multipartMaxFileSizeBytes,
+    };
+  }
+
+  /**
+   * Sign PUT URLs for the given parts of an upload the tenant started
+   */
+  async signParts(
+    tenantId: string,
+    s3ObjectUrl: string,
+    uploadId: string,
+    partNumbers: number[],
+  ): Promise<SignedPartUrlsDto> {
+    const s3Key = this.ingestionService.getTenantDocumentId(
+      tenantId,
+      s3ObjectUrl,
+    );
+    const expiresInSeconds = uploadConfig.multipartPartUrlExpirySeconds;
+    const parts = await Promise.all(
+      partNumbers.map(async (partNumber) => ({
+        partNumber,
+        url: await this.s3Service.getSignedPartUrl(
+          s3Key,
+          uploadId,
+          partNumber,
+          expiresInSeconds,
+        ),
+      })),
+    );
+    return {
+      parts,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Assemble the uploaded parts. Part URLs cannot limit how much is sent, so
+   * the finished object is measured and removed again if it is over the limit.
+   * @throws FileTooLargeError if the assembled object exceeds the multipart limit
+   */
+  async complete(
+    tenantId: string,
+    s3ObjectUrl: string,
+    uploadId: string,
+    parts: Array<{ partNumber: number; etag: string }>,
+  ): Promise<CompletedUploadDto> {
+    const s3Key = this.ingestionService.getTenantDocumentId(
+      tenantId,
+      s3ObjectUrl,
+    );
+    await this.s3Service.completeMultipartUpload(s3Key, uploadId, parts);
+
+    const { contentLength } = await this.s3Service.headObject(s3Key);
+    if (contentLength > uploadConfig.multipartMaxFileSizeBytes) {
+      this.logger.warn(
+        `Removing ${s3Key}: ${contentLength} bytes exceeds the multipart upload limit`,
+      );
+      await this.s3Service.deleteObject(s3Key);
+      throw new FileTooLargeError(
+        s3Key,
+        contentLength,
+        uploadConfig.multipartMaxFileSizeBytes,
+      );
+    }
+    return { s3ObjectUrl, sizeBytes: contentLength };
+  }
+
+  /**
+   * Discard an upload and the parts sent so far
+   */
+  async abort(
+    tenantId: string,
+    s3ObjectUrl: string,
+    uploadId: string,
+  ): Promise<void> {
+    const s3Key = this.ingestionService.getTenantDocumentId(
+      tenantId,
+      s3ObjectUrl,
+    );
+    await this.s3Service.abortMultipartUpload(s3Key, uploadId);
+  }
+}
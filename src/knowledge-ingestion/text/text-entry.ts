@@ -0,0 +1,47 @@
+import { tenantKeyPrefix } from '../../common/tenancy/tenant-scope';
+import { sha256 } from '../../common/utils/content-hash';
+
+// The formats text can be submitted in, and the extension the parser knows each by
+export const TEXT_FORMATS = {
+  text: '.txt',
+  markdown: '.md',
+  html: '.html',
+} as const;
+
+export type TextFormat = keyof typeof TEXT_FORMATS;
+
+export type TextEntryKind = 'text' | 'faq';
+
+/**
+ * A snippet of text submitted through the API rather than uploaded to S3
+ */
+export interface TextEntry {
+  externalId: string; // The client's ID for it; submitting the same ID again updates it
+  title: string; // Shown in citations
+  text: string;
+  format?: TextFormat; // Defaults to text
+}
+
+/**
+ * A question and its answer. The question is what is embedded and searched;
+ * the answer is stored alongside it in the chunk metadata.
+ */
+export interface FaqEntry {
+  externalId: string;
+  question: string;
+  answer: string;
+  format?: TextFormat; // Of the answer; defaults to text
+}
+
+/**
+ * The document ID of a text or FAQ entry: a key in the tenant's prefix derived
+ * from its external ID, so the same entry always maps to the same document
+ */
+export function textEntryDocumentId(
+  tenantId: string,
+  kind: TextEntryKind,
+  externalId: string,
+): string {
+  const folder = kind === 'faq' ? 'faqs' : 'text';
+  return `${tenantKeyPrefix(tenantId)}${folder}/${sha256(externalId).slice(0, 32)}`;
+}
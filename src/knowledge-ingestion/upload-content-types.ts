@@ -0,0 +1,66 @@
+import { randomUUID } from 'crypto';
+import { uploadConfig } from '../config/upload.config';
+import { tenantKeyPrefix } from '../common/tenancy/tenant-scope';
+
+const COLLECTIONS_FOLDER = 'collections';
+
+// MIME types the document parser can handle, with the extension given to uploaded objects
+const PARSEABLE_CONTENT_TYPES: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    '.docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+    '.pptx',
+  'text/html': '.html',
+  'text/markdown': '.md',
+  'text/csv': '.csv',
+  'application/json': '.json',
+  'application/x-ndjson': '.jsonl',
+  'text/plain': '.txt',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/tiff': '.tiff',
+};
+
+/**
+ * Content types clients may upload, narrowed by UPLOAD_ALLOWED_CONTENT_TYPES
+ */
+export const UPLOAD_CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(PARSEABLE_CONTENT_TYPES).filter(
+    ([contentType]) =>
+      uploadConfig.allowedContentTypes.length === 0 ||
+      uploadConfig.allowedContentTypes.includes(contentType),
+  ),
+);
+
+/**
+ * A fresh object key in the tenant's upload prefix, or in the prefix of one of
+ * its collections. Keys never contain user input, so they cannot collide or
+ * escape the tenant prefix.
+ */
+export function createUploadKey(
+  tenantId: string,
+  contentType: string,
+  collectionId?: string,
+): string {
+  const folder = collectionId
+    ? `${COLLECTIONS_FOLDER}/${collectionId}`
+    : 'uploads';
+  return `${tenantKeyPrefix(tenantId)}${folder}/${randomUUID()}${UPLOAD_CONTENT_TYPES[contentType] ?? ''}`;
+}
+
+/**
+ * The collection an object was uploaded into, if its key is in a collection prefix
+ */
+export function collectionIdFromKey(
+  tenantId: string,
+  s3Key: string,
+): string | undefined {
+  const prefix = `${tenantKeyPrefix(tenantId)}${COLLECTIONS_FOLDER}/`;
+  if (!s3Key.startsWith(prefix)) {
+    return undefined;
+  }
+  const [collectionId, ...rest] = s3Key.slice(prefix.length).split('/');
+  return collectionId && rest.length > 0 ? collectionId : undefined;
+}
@@ -0,0 +1,281 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { DocumentFilter, KnowledgeFilter } from '../filters/knowledge-filter';
+import { IsMetadataFilter } from '../../common/validation/is-metadata-filter.validator';
+import { IsMetadataLabels } from '../../common/validation/is-metadata-labels.validator';
+import {
+  LANGUAGE_PATTERN,
+  TAG_PATTERN,
+} from '../../document-processing/metadata/document-metadata';
+
+const MAX_FILTER_VALUES = 100;
+
+export const FACET_FIELDS = [
+  'collectionId',
+  'docType',
+  'tags',
+  'language',
+  'uploadedBy',
+  'labels',
+] as const;
+
+export type FacetField = (typeof FACET_FIELDS)[number];
+
+export class DocumentFilterDto implements DocumentFilter {
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsString({ each: true })
+  documentIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsUUID('all', { each: true })
+  collectionIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsString({ each: true })
+  docTypes?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @Matches(TAG_PATTERN, { each: true })
+  tags?: string[]; // Documents with any of these tags
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @Matches(TAG_PATTERN, { each: true })
+  allTags?: string[]; // Documents with every one of these tags
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @Matches(TAG_PATTERN, { each: true })
+  excludeTags?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @Matches(LANGUAGE_PATTERN, { each: true })
+  languages?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsString({ each: true })
+  uploadedBy?: string[];
+
+  @IsOptional()
+  @IsISO8601()
+  createdAfter?: string; // Inclusive
+
+  @IsOptional()
+  @IsISO8601()
+  createdBefore?: string; // Exclusive
+
+  @IsOptional()
+  @IsMetadataLabels()
+  labels?: Record<string, string>;
+}
+
+export class PageRangeDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  from?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  to?: number;
+}
+
+export class KnowledgeFilterDto
+  extends DocumentFilterDto
+  implements KnowledgeFilter
+{
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PageRangeDto)
+  pages?: PageRangeDto; // Chunks overlapping these pages, inclusive
+}
+
+export class SearchKnowledgeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  query: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  topK?: number; // Number of hits to return, defaults to 5
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsUUID('all', { each: true })
+  collectionIds?: string[]; // Only search these collections; defaults to every document of the tenant
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KnowledgeFilterDto)
+  where?: KnowledgeFilterDto; // e.g. { docTypes: ['pdf'], tags: ['hr'], createdAfter: '2026-01-01' }
+
+  @IsOptional()
+  @IsMetadataFilter()
+  filter?: Record<string, any>; // Raw vector store filter, e.g. { original_filename: { $eq: 'faq.pdf' } }; combined with where
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  alpha?: number; // Hybrid search only: 1 ranks by meaning alone, 0 by keywords alone
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  maxPerDocument?: number; // Most hits to return from one document, 0 for no cap
+
+  @IsOptional()
+  @IsBoolean()
+  debug?: boolean; // Include the score of every ranking stage in each hit
+}
+
+export class SearchHitScoresDto {
+  retrievalRank: number; // 1-based position among the candidates the index returned
+  retrievalScore: number;
+  rerankScore: number | null; // null if no reranker ran
+  mmrScore: number | null; // null if the hits were not diversified
+}
+
+export class SearchHitDto {
+  id: string; // The chunk's ID
+  documentId: string; // The document the chunk belongs to
+  score: number;
+  fileName: string;
+  s3Url: string;
+  sourceUrl: string | null; // Set for crawled web pages instead of s3Url
+  text: string;
+  answer: string | null; // FAQ entries only: text is the question, this its answer
+  chunkIndex: number | null;
+  charStart: number | null;
+  charEnd: number | null;
+  pageStart: number | null; // Set for paginated sources such as PDFs
+  pageEnd: number | null;
+  debug?: SearchHitScoresDto;
+}
+
+export class AnswerQuestionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  question: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  topK?: number; // Number of chunks to ground the answer in, defaults to 5
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_FILTER_VALUES)
+  @IsUUID('all', { each: true })
+  collectionIds?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KnowledgeFilterDto)
+  where?: KnowledgeFilterDto;
+
+  @IsOptional()
+  @IsMetadataFilter()
+  filter?: Record<string, any>;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  alpha?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  maxPerDocument?: number;
+}
+
+export class CitationDto {
+  index: number; // Matches the [n] markers in the answer text
+  documentId: string;
+  chunkId: string; // The cited chunk of the document
+  fileName: string;
+  s3Url: string;
+  sourceUrl: string | null;
+  chunkIndex: number | null;
+  charStart: number | null;
+  charEnd: number | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  score: number;
+}
+
+export class AnswerDto {
+  answer: string;
+  citations: CitationDto[];
+  provider: string;
+}
+
+export class FacetsQueryDto {
+  @IsOptional()
+  @IsArray()
+  @IsIn(FACET_FIELDS, { each: true })
+  fields?: FacetField[]; // Defaults to all of them
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DocumentFilterDto)
+  where?: DocumentFilterDto; // Count only the documents that match
+}
+
+export class FacetValueDto {
+  value: string;
+  count: number; // Indexed documents with this value
+}
+
+export class FacetsDto {
+  documentCount: number; // Indexed documents matching the filter
+  facets: {
+    collectionId?: FacetValueDto[];
+    docType?: FacetValueDto[];
+    tags?: FacetValueDto[];
+    language?: FacetValueDto[];
+    uploadedBy?: FacetValueDto[];
+    labels?: Record<string, FacetValueDto[]>; // By label key
+  };
+}
@@ -0,0 +1,102 @@
+import { MetadataFilter } from '../../vector-store/vector-store.interface';
+import {
+  LABEL_PREFIX,
+  normalizeTags,
+} from '../../document-processing/metadata/document-metadata';
+
+/**
+ * Conditions on the document-level metadata schema. Every condition given must
+ * hold; a list matches documents with any of its values.
+ */
+export interface DocumentFilter {
+  documentIds?: string[];
+  collectionIds?: string[]; // Documents in any of these collections
+  docTypes?: string[]; // e.g. pdf, docx, csv
+  tags?: string[]; // Any of these tags
+  allTags?: string[]; // Every one of these tags
+  excludeTags?: string[]; // None of these tags
+  languages?: string[];
+  uploadedBy?: string[];
+  createdAfter?: string; // ISO 8601, inclusive
+  createdBefore?: string; // ISO 8601, exclusive
+  labels?: Record<string, string>; // Exact label values
+}
+
+/**
+ * Conditions on document metadata and on where in the document a chunk is
+ */
+export interface KnowledgeFilter extends DocumentFilter {
+  pages?: { from?: number; to?: number }; // Chunks overlapping these pages; unpaginated sources never match
+}
+
+/**
+ * Compile a filter into the vector store's filter syntax
+ * @returns undefined if the filter has no conditions
+ */
+export function compileKnowledgeFilter(
+  filter: KnowledgeFilter = {},
+): MetadataFilter | undefined {
+  const clauses: MetadataFilter[] = [];
+  const anyOf = (field: string, values?: string[]) => {
+    if (values?.length) {
+      clauses.push({ [field]: { $in: values } });
+    }
+  };
+
+  anyOf('document_id', filter.documentIds);
+  anyOf('collection_id', filter.collectionIds);
+  anyOf('doc_type', filter.docTypes);
+  anyOf('tags', filter.tags && normalizeTags(filter.tags));
+  for (const tag of normalizeTags(filter.allTags ?? [])) {
+    clauses.push({ tags: { $eq: tag } });
+  }
+  if (filter.excludeTags?.length) {
+    clauses.push({ tags: { $nin: normalizeTags(filter.excludeTags) } });
+  }
+  anyOf('language', filter.languages);
+  anyOf('uploaded_by', filter.uploadedBy);
+
+  const createdAt: MetadataFilter = {};
+  if (filter.createdAfter) {
+    createdAt.$gte = epochSeconds(filter.createdAfter);
+  }
+  if (filter.createdBefore) {
+    createdAt.$lt = epochSeconds(filter.createdBefore);
+  }
+  if (Object.keys(createdAt).length > 0) {
+    clauses.push({ created_at: createdAt });
+  }
+
+  for (const [key, value] of Object.entries(filter.labels ?? {})) {
+    clauses.push({ [`${LABEL_PREFIX}${key}`]: { $eq: value } });
+  }
+
+  if (filter.pages?.to !== undefined) {
+    clauses.push({ page_start: { $lte: filter.pages.to } });
+  }
+  if (filter.pages?.from !== undefined) {
+    clauses.push({ page_end: { $gte: filter.pages.from } });
+  }
+
+  return allOf(...clauses);
+}
+
+/**
+ * Combine filters so that every one of them must hold
+ * @returns undefined if no filter is given
+ */
+export function allOf(
+  ...filters: Array<MetadataFilter | undefined>
+): MetadataFilter | undefined {
+  const given = filters.filter(
+    (filter) => filter && Object.keys(filter).length > 0,
+  );
+  if (given.length <= 1) {
+    return given[0];
+  }
+  return { $and: given };
+}
+
+function epochSeconds(date: string): number {
+  return Math.floor(Date.parse(date) / 1000);
+}
@@ -0,0 +1,102 @@
+import { KnowledgeFacetsService } from './knowledge-facets.service';
+import { InMemoryDocumentRegistry } from '../documents/registry/in-memory-document-registry';
+import { DocumentRecord } from '../documents/registry/document-registry.interface';
+import { FlatMetadata } from '../document-processing/metadata/document-metadata';
+
+describe('KnowledgeFacetsService', () => {
+  let registry: InMemoryDocumentRegistry;
+  let service: KnowledgeFacetsService;
+
+  const document = (
+    id: string,
+    metadata: FlatMetadata | undefined,
+    tenantId = 'acme',
+  ): DocumentRecord => ({
+    id,
+    tenantId,
+    s3Key: id,
+    s3Url: `s3://bucket/${id}`,
+    fileName: id,
+    status: 'indexed',
+    chunkIds: [],
+    createdAt: '2024-05-01T00:00:00.000Z',
+    updatedAt: '2024-05-01T00:00:00.000Z',
+    metadata,
+  });
+
+  beforeEach(async () => {
+    registry = new InMemoryDocumentRegistry();
+    service = new KnowledgeFacetsService(registry);
+    await Promise.all(
+      [
+        document('pricing.pdf', {
+          doc_type: 'pdf',
+          created_at: 1714521600,
+          tags: ['billing', 'sales'],
+          language: 'en',
+          uploaded_by: 'alice',
+          label_team: 'sales',
+        }),
+        document('refunds.docx', {
+          doc_type: 'docx',
+          created_at: 1717200000,
+          tags: ['billing'],
+          language: 'de',
+          label_team: 'support',
+          label_region: 'emea',
+        }),
+        document('faq.csv', {
+          doc_type: 'csv',
+          created_at: 1717200000,
+          tags: ['support', 'billing', 'billing'],
+        }),
+        document('failed.pdf', undefined), // Never indexed
+        document('other.pdf', { doc_type: 'pdf', created_at: 0 }, 'globex'),
+      ].map((record) => registry.save(record)),
+    );
+  });
+
+  it("should count the tenant's indexed documents by each value, most common first", async () => {
+    const { documentCount, facets } = await service.facets('acme');
+
+    expect(documentCount).toBe(3);
+    expect(facets.tags).toEqual([
+      { value: 'billing', count: 3 },
+      { value: 'sales', count: 1 },
+      { value: 'support', count: 1 },
+    ]);
+    expect(facets.docType).toEqual([
+      { value: 'csv', count: 1 },
+      { value: 'docx', count: 1 },
+      { value: 'pdf', count: 1 },
+    ]);
+    expect(facets.uploadedBy).toEqual([{ value: 'alice', count: 1 }]);
+    expect(facets.labels).toEqual({
+      region: [{ value: 'emea', count: 1 }],
+      team: [
+        { value: 'sales', count: 1 },
+        { value: 'support', count: 1 },
+      ],
+    });
+  });
+
+  it('should only count the requested facets of the documents that match', async () => {
+    const result = await service.facets('acme', ['language', 'tags'], {
+      tags: ['Billing'],
+      excludeTags: ['support'],
+      createdAfter: '2024-06-01T00:00:00Z',
+    });
+
+    expect(result).toEqual({
+      documentCount: 1,
+      facets: {
+        language: [{ value: 'de', count: 1 }],
+        tags: [{ value: 'billing', count: 1 }],
+      },
+    });
+    expect(
+      (await service.facets('acme', ['docType'], { documentIds: ['faq.csv'] }))
+        .facets.docType,
+    ).toEqual([{ value: 'csv', count: 1 }]);
+  });
+});
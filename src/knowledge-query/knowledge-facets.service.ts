@@ -0,0 +1,107 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  DOCUMENT_REGISTRY,
+  DocumentRegistry,
+} from '../documents/registry/document-registry.interface';
+import {
+  FACET_FIELDS,
+  FacetField,
+  FacetValueDto,
+  FacetsDto,
+} from './dto/knowledge-query.dto';
+import {
+  DocumentFilter,
+  compileKnowledgeFilter,
+} from './filters/knowledge-filter';
+import { matchesFilter } from '../vector-store/metadata-filter';
+import {
+  FlatMetadata,
+  LABEL_PREFIX,
+} from '../document-processing/metadata/document-metadata';
+
+// The metadata key each facet counts
+const FACET_KEYS: Record<Exclude<FacetField, 'labels'>, string> = {
+  collectionId: 'collection_id',
+  docType: 'doc_type',
+  tags: 'tags',
+  language: 'language',
+  uploadedBy: 'uploaded_by',
+};
+
+/**
+ * Counts of a tenant's documents by metadata value, so clients can offer the
+ * values worth filtering by. Vector stores cannot aggregate, so documents are
+ * counted from the registry, which keeps the metadata each was indexed with.
+ */
+@Injectable()
+export class KnowledgeFacetsService {
+  constructor(
+    @Inject(DOCUMENT_REGISTRY)
+    private readonly documentRegistry: DocumentRegistry,
+  ) {}
+
+  /**
+   * Count the tenant's indexed documents by each value of the fields
+   * @param tenantId The tenant whose documents to count
+   * @param fields The facets to count
+   * @param where Only count the documents that match
+   * @returns Each facet's values, most common first
+   */
+  async facets(
+    tenantId: string,
+    fields: readonly FacetField[] = FACET_FIELDS,
+    where?: DocumentFilter,
+  ): Promise<FacetsDto> {
+    const filter = compileKnowledgeFilter(where);
+    const documents = (await this.documentRegistry.list())
+      .filter((record) => record.tenantId === tenantId && record.metadata)
+      .map((record) => ({ ...record.metadata, document_id: record.id }))
+      .filter((metadata) => matchesFilter(metadata, filter));
+
+    const facets: FacetsDto['facets'] = {};
+    for (const field of new Set(fields)) {
+      if (field === 'labels') {
+        facets.labels = this.countLabels(documents);
+      } else {
+        facets[field] = count(
+          documents.map((metadata) => metadata[FACET_KEYS[field]]),
+        );
+      }
+    }
+    return { documentCount: documents.length, facets };
+  }
+
+  private countLabels(
+    documents: FlatMetadata[],
+  ): Record<string, FacetValueDto[]> {
+    const keys = new Set(
+      documents.flatMap((metadata) =>
+        Object.keys(metadata).filter((key) => key.startsWith(LABEL_PREFIX)),
+      ),
+    );
+    return Object.fromEntries(
+      [...keys]
+        .sort()
+        .map((key) => [
+          key.slice(LABEL_PREFIX.length),
+          count(documents.map((metadata) => metadata[key])),
+        ]),
+    );
+  }
+}
+
+function count(values: unknown[]): FacetValueDto[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    // A document counts once per value, however often a list repeats it
+    const distinct = new Set(Array.isArray(value) ? value : [value]);
+    for (const element of distinct) {
+      if (element !== undefined && element !== null) {
+        counts.set(String(element), (counts.get(String(element)) ?? 0) + 1);
+      }
+    }
+  }
+  return [...counts]
+    .map(([value, documentCount]) => ({ value, count: documentCount }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
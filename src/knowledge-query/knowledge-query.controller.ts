@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import { KnowledgeQueryService } from './knowledge-query.service';
+import { KnowledgeFacetsService } from './knowledge-facets.service';
+import {
+  AnswerDto,
+  AnswerQuestionDto,
+  FacetsDto,
+  FacetsQueryDto,
+  SearchHitDto,
+  SearchKnowledgeDto,
+} from './dto/knowledge-query.dto';
+import { TenantId } from '../common/tenancy/tenant-id.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('knowledge-query')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('knowledge:read')
+export class KnowledgeQueryController {
+  private readonly logger = new Logger(KnowledgeQueryController.name);
+
+  constructor(
+    private readonly queryService: KnowledgeQueryService,
+    private readonly facetsService: KnowledgeFacetsService,
+  ) {}
+
+  @Post('search')
+  @HttpCode(HttpStatus.OK)
+  async search(
+    @TenantId() tenantId: string,
+    @Body() searchKnowledgeDto: SearchKnowledgeDto,
+  ): Promise<{ results: SearchHitDto[] }> {
+    this.logger.log(
+      `Received search request: ${JSON.stringify(searchKnowledgeDto)}`,
+    );
+    const { query, ...options } = searchKnowledgeDto;
+    const results = await this.queryService.search(tenantId, query, options);
+    return { results };
+  }
+
+  @Post('answer')
+  @HttpCode(HttpStatus.OK)
+  async answer(
+    @TenantId() tenantId: string,
+    @Body() answerQuestionDto: AnswerQuestionDto,
+  ): Promise<AnswerDto> {
+    this.logger.log(
+      `Received answer request: ${JSON.stringify(answerQuestionDto)}`,
+    );
+    const { question, ...options } = answerQuestionDto;
+    return this.queryService.answer(tenantId, question, options);
+  }
+
+  @Post('facets')
+  @HttpCode(HttpStatus.OK)
+  async facets(
+    @TenantId() tenantId: string,
+    @Body() facetsQueryDto: FacetsQueryDto,
+  ): Promise<FacetsDto> {
+    return this.facetsService.facets(
+      tenantId,
+      facetsQueryDto.fields,
+      facetsQueryDto.where,
+    );
+  }
+}
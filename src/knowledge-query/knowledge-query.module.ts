@@ -1,15 +1,41 @@
 import { Module } from '@nestjs/common';
-// import { KnowledgeQueryController } from './knowledge-query.controller';
-// import { KnowledgeQueryService } from './knowledge-query.service';
-// import { PineconeModule } from '../pinecone/pinecone.module';
-// import { EmbeddingModule } from '../document-processing/embedding.module'; // If needed for query embeddings
+import { KnowledgeQueryController } from './knowledge-query.controller';
+import { KnowledgeQueryService } from './knowledge-query.service';
+import { KnowledgeFacetsService } from './knowledge-facets.service';
+import { VectorStoreModule } from '../vector-store/vector-store.module';
+import { DocumentProcessingModule } from '../document-processing/document-processing.module';
+import { LLM_PROVIDER, LlmProvider } from './llm/llm-provider.interface';
+import { OpenAiLlmProvider } from './llm/openai-llm.provider';
+import { LocalLlmProvider } from './llm/local-llm.provider';
+import { llmConfig } from '../config/llm.config';
+import { RERANKER } from './rerank/reranker.interface';
+import { createReranker } from './rerank/reranker.factory';
+import { rerankConfig } from '../config/rerank.config';
+import { DocumentRegistryModule } from '../documents/registry/document-registry.module';
+import { CollectionRegistryModule } from '../collections/registry/collection-registry.module';
 
 @Module({
   imports: [
-    // PineconeModule, 
-    // EmbeddingModule 
+    VectorStoreModule, // For the vector store
+    DocumentProcessingModule, // For EmbeddingService (query embeddings)
+    DocumentRegistryModule, // For the metadata facets are counted from
+    CollectionRegistryModule, // For the collections searches are narrowed to
+  ],
+  controllers: [KnowledgeQueryController],
+  providers: [
+    KnowledgeQueryService,
+    KnowledgeFacetsService,
+    {
+      provide: LLM_PROVIDER,
+      useFactory: (): LlmProvider =>
+        llmConfig.provider === 'openai'
+          ? new OpenAiLlmProvider(llmConfig)
+          : new LocalLlmProvider(),
+    },
+    {
+      provide: RERANKER,
+      useFactory: () => createReranker(rerankConfig),
+    },
   ],
-  // controllers: [KnowledgeQueryController],
-  // providers: [KnowledgeQueryService],
 })
-export class KnowledgeQueryModule {} 
\ No newline at end of file
+export class KnowledgeQueryModule {}
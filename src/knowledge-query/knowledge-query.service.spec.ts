@@ -0,0 +1,303 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { KnowledgeQueryService } from './knowledge-query.service';
+import { EmbeddingService } from '../document-processing/embedding.service';
+import {
+  VECTOR_STORE,
+  VectorStore,
+} from '../vector-store/vector-store.interface';
+import { LLM_PROVIDER } from './llm/llm-provider.interface';
+import { LocalLlmProvider } from './llm/local-llm.provider';
+import { SparseEncodingService } from '../document-processing/sparse/sparse-encoding.service';
+import { InMemoryTermStatisticsStore } from '../document-processing/sparse/in-memory-term-statistics.store';
+import { hybridSearchConfig } from '../config/hybrid-search.config';
+import { termIndex } from '../document-processing/sparse/bm25';
+import { rerankConfig } from '../config/rerank.config';
+import { COLLECTION_REGISTRY } from '../collections/registry/collection-registry.interface';
+import { InMemoryCollectionRegistry } from '../collections/registry/in-memory-collection-registry';
+
+describe('KnowledgeQueryService', () => {
+  let service: KnowledgeQueryService;
+  let sparseEncodingService: SparseEncodingService;
+  let collections: InMemoryCollectionRegistry;
+  const query = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset();
+    sparseEncodingService = new SparseEncodingService(
+      new InMemoryTermStatisticsStore(),
+    );
+    collections = new InMemoryCollectionRegistry();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KnowledgeQueryService,
+        {
+          provide: EmbeddingService,
+          useValue: { getEmbedding: jest.fn().mockResolvedValue([0.1, 0.2]) },
+        },
+        { provide: VECTOR_STORE, useValue: { query } },
+        { provide: LLM_PROVIDER, useValue: new LocalLlmProvider() },
+        { provide: SparseEncodingService, useValue: sparseEncodingService },
+        { provide: COLLECTION_REGISTRY, useValue: collections },
+      ],
+    }).compile();
+
+    service = module.get<KnowledgeQueryService>(KnowledgeQueryService);
+  });
+
+  describe('search', () => {
+    afterEach(() => {
+      hybridSearchConfig.enabled = false;
+    });
+
+    it('should weight dense and sparse query vectors by alpha', async () => {
+      hybridSearchConfig.enabled = true;
+      await sparseEncodingService.indexChunks('acme', [
+        'SKU AB-1234 ships in blue',
+        'SKU CD-5678 ships in red',
+      ]);
+      query.mockResolvedValue([]);
+
+      await service.search('acme', 'AB-1234', { alpha: 0.25 });
+
+      const [, { vector, sparseVector }] = query.mock.calls[0];
+      expect(vector).toEqual([0.025, 0.05]);
+      expect(sparseVector.indices).toEqual(
+        ['ab-1234', 'ab', '1234'].map(termIndex),
+      );
+      expect(
+        sparseVector.values.reduce((sum: number, value: number) => sum + value),
+      ).toBeCloseTo(0.75);
+    });
+
+    it('should only accept alpha when hybrid search is enabled', async () => {
+      await expect(
+        service.search('acme', 'AB-1234', { alpha: 0.5 }),
+      ).rejects.toThrow('hybrid search');
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('should compile where into the vector store filter alongside the raw filter', async () => {
+      query.mockResolvedValue([]);
+
+      await service.search('acme', 'refunds', {
+        where: {
+          tags: ['Billing'],
+          excludeTags: ['draft'],
+          createdAfter: '2024-01-01T00:00:00Z',
+          labels: { team: 'support' },
+          pages: { from: 3, to: 5 },
+        },
+        filter: { section: 'faq' },
+      });
+
+      const [, { filter }] = query.mock.calls[0];
+      expect(filter).toEqual({
+        $and: [
+          {
+            $and: [
+              { tags: { $in: ['billing'] } },
+              { tags: { $nin: ['draft'] } },
+              { created_at: { $gte: 1704067200 } },
+              { label_team: { $eq: 'support' } },
+              { page_start: { $lte: 5 } },
+              { page_end: { $gte: 3 } },
+            ],
+          },
+          { section: 'faq' },
+        ],
+      });
+    });
+
+    it('should only search the given collections of the tenant', async () => {
+      query.mockResolvedValue([]);
+      const collection = {
+        id: '0b8f5c1e-6a55-4d8e-9d0c-2f3c6a1d7e41',
+        tenantId: 'acme',
+        name: 'Support FAQ',
+        createdAt: '2024-05-01T00:00:00.000Z',
+        updatedAt: '2024-05-01T00:00:00.000Z',
+      };
+      await collections.save(collection);
+      await collections.save({
+        ...collection,
+        id: '5d2a9b7c-1f0e-4c3a-8b6d-9e4f2a1c3b57',
+        tenantId: 'globex',
+      });
+
+      await service.search('acme', 'refunds', {
+        collectionIds: [collection.id],
+        where: { docTypes: ['pdf'] },
+      });
+
+      const [, { filter }] = query.mock.calls[0];
+      expect(filter).toEqual({
+        $and: [
+          { collection_id: { $in: [collection.id] } },
+          { doc_type: { $in: ['pdf'] } },
+        ],
+      });
+      await expect(
+        service.search('acme', 'refunds', {
+          collectionIds: ['5d2a9b7c-1f0e-4c3a-8b6d-9e4f2a1c3b57'],
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('ranking', () => {
+    const originalRerank = { ...rerankConfig };
+    const rerank = jest.fn();
+    const match = (id: string, score: number, values: number[]) => ({
+      id,
+      score,
+      values,
+      metadata: { text: id, document_id: id.split('#')[0] },
+    });
+    let rankingService: KnowledgeQueryService;
+
+    beforeEach(() => {
+      rerank.mockReset();
+      query.mockResolvedValue([
+        match('a#chunk-0', 0.9, [1, 0]),
+        match('a#chunk-1', 0.89, [0.99, 0.05]), // Near duplicate of a#chunk-0
+        match('b#chunk-0', 0.5, [0, 1]),
+        match('c#chunk-0', 0.4, [0.7, 0.7]),
+        match('d#chunk-0', 0.1, [0.6, 0.8]),
+      ]);
+      rankingService = new KnowledgeQueryService(
+        {
+          getEmbedding: jest.fn().mockResolvedValue([0.1, 0.2]),
+        } as unknown as EmbeddingService,
+        { query } as unknown as VectorStore,
+        new LocalLlmProvider(),
+        sparseEncodingService,
+        new InMemoryCollectionRegistry(),
+        { name: 'fake', rerank },
+      );
+    });
+
+    afterEach(() => Object.assign(rerankConfig, originalRerank));
+
+    it('should rerank over-fetched candidates and skip near duplicates', async () => {
+      rerankConfig.mmrLambda = 0.5;
+      rerank.mockResolvedValue([0.8, 0.79, 0.9, 0.6, 0]);
+
+      const hits = await rankingService.search('acme', 'widgets', {
+        topK: 3,
+        debug: true,
+      });
+
+      expect(query.mock.calls[0][1].topK).toBe(12);
+      expect(rerank).toHaveBeenCalledWith('widgets', [
+        'a#chunk-0',
+        'a#chunk-1',
+        'b#chunk-0',
+        'c#chunk-0',
+        'd#chunk-0',
+      ]);
+      expect(hits.map((hit) => hit.id)).toEqual([
+        'b#chunk-0',
+        'a#chunk-0',
+        'c#chunk-0',
+      ]);
+      expect(hits[0]).toMatchObject({
+        score: 0.9,
+        debug: {
+          retrievalRank: 3,
+          retrievalScore: 0.5,
+          rerankScore: 0.9,
+          mmrScore: 0.5,
+        },
+      });
+    });
+
+    it('should cap hits per document and keep the retrieval order if reranking fails', async () => {
+      rerankConfig.mmrLambda = 1;
+      rerank.mockRejectedValue(new Error('Rerank request failed'));
+
+      const hits = await rankingService.search('acme', 'widgets', {
+        topK: 3,
+        maxPerDocument: 1,
+        debug: true,
+      });
+
+      expect(query.mock.calls[0][1].includeValues).toBe(false); // No MMR, no vectors
+      expect(hits.map((hit) => hit.id)).toEqual([
+        'a#chunk-0',
+        'b#chunk-0',
+        'c#chunk-0',
+      ]);
+      expect(hits[0].debug).toEqual({
+        retrievalRank: 1,
+        retrievalScore: 0.9,
+        rerankScore: null,
+        mmrScore: null,
+      });
+    });
+  });
+
+  describe('answer', () => {
+    it('should answer from retrieved chunks with numbered citations', async () => {
+      query.mockResolvedValue([
+        {
+          id: 'tenants/acme/3f0c9d2e#chunk-0',
+          score: 0.91,
+          metadata: {
+            document_id: 'tenants/acme/3f0c9d2e',
+            original_filename: 'pricing.pdf',
+            s3_url: 's3://bucket/uploads/pricing.pdf',
+            text: 'The starter plan costs 97 dollars per month. It includes three users.',
+            chunk_index: 0,
+          },
+        },
+        {
+          id: 'uploads/faq.txt',
+          score: 0.5,
+          metadata: {
+            original_filename: 'faq.txt',
+            s3_url: 's3://bucket/uploads/faq.txt',
+            text: 'Support is available around the clock.',
+          },
+        },
+      ]);
+
+      const result = await service.answer(
+        'acme',
+        'How much does the starter plan cost?',
+      );
+
+      expect(result.provider).toBe('local');
+      expect(result.answer).toBe(
+        'The starter plan costs 97 dollars per month. [1]',
+      );
+      expect(result.citations).toHaveLength(2);
+      expect(result.citations[0]).toMatchObject({
+        index: 1,
+        documentId: 'tenants/acme/3f0c9d2e',
+        chunkId: 'tenants/acme/3f0c9d2e#chunk-0',
+        fileName: 'pricing.pdf',
+        s3Url: 's3://bucket/uploads/pricing.pdf',
+        chunkIndex: 0,
+      });
+      expect(result.citations[1].chunkIndex).toBeNull();
+      // Over-fetched for MMR, which needs the candidates' vectors
+      expect(query).toHaveBeenCalledWith('acme', {
+        vector: [0.1, 0.2],
+        sparseVector: undefined,
+        topK: 20,
+        filter: undefined,
+        includeValues: true,
+      });
+    });
+
+    it('should not call the provider when nothing is retrieved', async () => {
+      query.mockResolvedValue([]);
+
+      const result = await service.answer('acme', 'Anything?');
+
+      expect(result.citations).toEqual([]);
+      expect(result.answer).toMatch(/do not know/);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { EmbeddingService } from '../document-processing/embedding.service';
+import { SparseEncodingService } from '../document-processing/sparse/sparse-encoding.service';
+import { SparseValues } from '../document-processing/sparse/bm25';
+import {
+  MetadataFilter,
+  VECTOR_STORE,
+  VectorMatch,
+  VectorStore,
+} from '../vector-store/vector-store.interface';
+import { AnswerDto, SearchHitDto } from './dto/knowledge-query.dto';
+import { LLM_PROVIDER, LlmProvider } from './llm/llm-provider.interface';
+import { buildGroundedPrompt } from './llm/prompt-builder';
+import { tenantNamespace } from '../common/tenancy/tenant-scope';
+import { hybridSearchConfig } from '../config/hybrid-search.config';
+import { rerankConfig } from '../config/rerank.config';
+import { RERANKER, Reranker } from './rerank/reranker.interface';
+import { selectWithMmr } from './rerank/mmr';
+import {
+  KnowledgeFilter,
+  allOf,
+  compileKnowledgeFilter,
+} from './filters/knowledge-filter';
+import {
+  COLLECTION_REGISTRY,
+  CollectionRegistry,
+} from '../collections/registry/collection-registry.interface';
+import { getTenantCollection } from '../collections/registry/tenant-collections';
+
+const DEFAULT_TOP_K = 5;
+const MAX_TOP_K = 100;
+
+export interface SearchOptions {
+  topK?: number; // Maximum number of hits to return
+  collectionIds?: string[]; // Only search these collections
+  where?: KnowledgeFilter; // Conditions on the metadata schema
+  filter?: MetadataFilter; // Raw vector store filter, combined with where
+  alpha?: number; // Hybrid search only: weight of dense over sparse scores, from 1 (dense only) to 0 (keywords only)
+  maxPerDocument?: number; // Overrides the configured cap on hits from one document
+  debug?: boolean; // Attach each stage's score to every hit
+}
+
+@Injectable()
+export class KnowledgeQueryService {
+  private readonly logger = new Logger(KnowledgeQueryService.name);
+
+  constructor(
+    private readonly embeddingService: EmbeddingService,
+    @Inject(VECTOR_STORE) private readonly vectorStore: VectorStore,
+    @Inject(LLM_PROVIDER) private readonly llmProvider: LlmProvider,
+    private readonly sparseEncodingService: SparseEncodingService,
+    @Inject(COLLECTION_REGISTRY)
+    private readonly collectionRegistry: CollectionRegistry,
+    @Optional() @Inject(RERANKER) private readonly reranker?: Reranker | null,
+  ) {}
+
+  /**
+   * Run a semantic search against a tenant's part of the vector index. With
+   * hybrid search enabled, BM25 keyword scores are blended in, so exact terms
+   * such as SKUs and invoice numbers are found too. When a reranker, MMR or a
+   * per-document cap is configured, more candidates than requested are fetched,
+   * rescored and diversified before the best are returned.
+   * @param tenantId The tenant whose documents to search
+   * @param query The natural language query text
+   * @param options The number of hits, filters and ranking overrides
+   * @returns Hits ranked by relevance, best first
+   * @throws NotFoundException if one of the collections does not exist
+   */
+  async search(
+    tenantId: string,
+    query: string,
+    options: SearchOptions = {},
+  ): Promise<SearchHitDto[]> {
+    if (!query || query.trim().length === 0) {
+      throw new BadRequestException('Query text must not be empty.');
+    }
+    if (options.alpha !== undefined && !this.sparseEncodingService.enabled) {
+      throw new BadRequestException(
+        'alpha is only supported when hybrid search is enabled.',
+      );
+    }
+    await Promise.all(
+      (options.collectionIds ?? []).map((id) =>
+        getTenantCollection(this.collectionRegistry, tenantId, id),
+      ),
+    );
+    const limit = Math.min(
+      Math.max(Math.floor(options.topK) || DEFAULT_TOP_K, 1),
+      MAX_TOP_K,
+    );
+    const maxPerDocument =
+      options.maxPerDocument ?? rerankConfig.maxPerDocument;
+    const diversify = rerankConfig.mmrLambda < 1;
+    const overFetch = !!this.reranker || diversify || maxPerDocument > 0;
+    const candidateCount = overFetch
+      ? Math.max(
+          Math.min(
+            limit * rerankConfig.candidateMultiplier,
+            rerankConfig.maxCandidates,
+          ),
+          limit,
+        )
+      : limit;
+
+    this.logger.log(
+      `Searching knowledge base (topK: ${limit}, candidates: ${candidateCount}): ${query}`,
+    );
+
+    try {
+      const queryEmbedding = await this.embeddingService.getEmbedding(query);
+      if (!queryEmbedding || queryEmbedding.length === 0) {
+        throw new Error('Failed to generate embedding for query.');
+      }
+
+      const { vector, sparseVector } = await this.weightQuery(
+        tenantId,
+        query,
+        queryEmbedding,
+        options.alpha ?? hybridSearchConfig.alpha,
+      );
+      const matches = await this.vectorStore.query(tenantNamespace(tenantId), {
+        vector,
+        sparseVector,
+        topK: candidateCount,
+        filter: allOf(
+          compileKnowledgeFilter({ collectionIds: options.collectionIds }),
+          compileKnowledgeFilter(options.where),
+          options.filter,
+        ),
+        includeValues: diversify, // MMR compares the candidates' own vectors
+      });
+      const candidates = matches.map((match, i) => {
+        const hit = this.toHit(match);
+        return {
+          hit,
+          documentId: hit.documentId,
+          values: match.values,
+          retrievalRank: i + 1,
+          retrievalScore: match.score,
+        };
+      });
+
+      this.logger.log(`Search returned ${candidates.length} candidates`);
+      if (!overFetch) {
+        return candidates.map(({ hit, retrievalRank, retrievalScore }) => ({
+          ...hit,
+          ...(options.debug && {
+            debug: {
+              retrievalRank,
+              retrievalScore,
+              rerankScore: null,
+              mmrScore: null,
+            },
+          }),
+        }));
+      }
+
+      const rerankScores = await this.rerank(
+        query,
+        candidates.map(({ hit }) => hit.text ?? ''),
+      );
+      const selected = selectWithMmr(
+        candidates.map((candidate, i) => ({
+          ...candidate,
+          relevance: rerankScores?.[i] ?? candidate.retrievalScore,
+        })),
+        { lambda: rerankConfig.mmrLambda, limit, maxPerDocument },
+      );
+      return selected.map(({ candidate, mmrScore }) => ({
+        ...candidate.hit,
+        score: candidate.relevance,
+        ...(options.debug && {
+          debug: {
+            retrievalRank: candidate.retrievalRank,
+            retrievalScore: candidate.retrievalScore,
+            rerankScore: rerankScores ? candidate.relevance : null,
+            mmrScore: diversify ? mmrScore : null,
+          },
+        }),
+      }));
+    } catch (error) {
+      this.logger.error(`Error searching knowledge base:`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Answer a question from the knowledge base with retrieval-augmented generation
+   * @param tenantId The tenant whose documents to ground the answer in
+   * @param question The user's question
+   * @param options The number of chunks to ground the answer in, filters and ranking overrides
+   * @returns The generated answer and the sources it cites
+   */
+  async answer(
+    tenantId: string,
+    question: string,
+    options: SearchOptions = {},
+  ): Promise<AnswerDto> {
+    const hits = (
+      await this.search(tenantId, question, { ...options, debug: false })
+    ).filter((hit) => hit.text);
+
+    if (hits.length === 0) {
+      this.logger.warn(`No grounding context found for question: ${question}`);
+      return {
+        answer: 'I do not know based on the available documents.',
+        citations: [],
+        provider: this.llmProvider.name,
+      };
+    }
+
+    const prompt = buildGroundedPrompt(
+      question,
+      hits.map((hit, i) => ({
+        index: i + 1,
+        text: hit.answer ? `${hit.text}\n${hit.answer}` : hit.text,
+        fileName: hit.fileName,
+        pageStart: hit.pageStart ?? undefined,
+        pageEnd: hit.pageEnd ?? undefined,
+      })),
+    );
+
+    this.logger.log(
+      `Generating answer with ${hits.length} sources using provider: ${this.llmProvider.name}`,
+    );
+
+    try {
+      const answer = await this.llmProvider.generate(prompt);
+      return {
+        answer,
+        citations: hits.map((hit, i) => ({
+          index: i + 1,
+          documentId: hit.documentId,
+          chunkId: hit.id,
+          fileName: hit.fileName,
+          s3Url: hit.s3Url,
+          sourceUrl: hit.sourceUrl,
+          chunkIndex: hit.chunkIndex,
+          charStart: hit.charStart,
+          charEnd: hit.charEnd,
+          pageStart: hit.pageStart,
+          pageEnd: hit.pageEnd,
+          score: hit.score,
+        })),
+        provider: this.llmProvider.name,
+      };
+    } catch (error) {
+      this.logger.error(`Error generating answer:`, error.stack);
+      throw error;
+    }
+  }
+
+  private toHit(match: VectorMatch): SearchHitDto {
+    return {
+      id: match.id,
+      documentId: match.metadata?.document_id ?? match.id.split('#')[0], // IDs of older chunks start with it
+      score: match.score,
+      fileName: match.metadata?.original_filename ?? null,
+      s3Url: match.metadata?.s3_url ?? null,
+      sourceUrl: match.metadata?.source_url ?? null,
+      text: match.metadata?.text ?? null,
+      answer: match.metadata?.answer ?? null,
+      chunkIndex: match.metadata?.chunk_index ?? null,
+      charStart: match.metadata?.char_start ?? null,
+      charEnd: match.metadata?.char_end ?? null,
+      pageStart: match.metadata?.page_start ?? null,
+      pageEnd: match.metadata?.page_end ?? null,
+    };
+  }
+
+  /**
+   * Rescore candidates with the reranker, if one is configured. A failing
+   * reranker degrades the search to retrieval order rather than failing it.
+   * @returns One score per text, or null if the candidates were not reranked
+   */
+  private async rerank(
+    query: string,
+    texts: string[],
+  ): Promise<number[] | null> {
+    if (!this.reranker || texts.length === 0) {
+      return null;
+    }
+    try {
+      return await this.reranker.rerank(query, texts);
+    } catch (error) {
+      this.logger.warn(
+        `Reranking with ${this.reranker.name} failed, keeping the retrieval order: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Scale the dense and sparse query vectors so that the dot product the vector
+   * store ranks by is alpha × dense score + (1 - alpha) × sparse score
+   */
+  private async weightQuery(
+    tenantId: string,
+    query: string,
+    embedding: number[],
+    alpha: number,
+  ): Promise<{ vector: number[]; sparseVector?: SparseValues }> {
+    const sparse =
+      this.sparseEncodingService.enabled && alpha < 1
+        ? await this.sparseEncodingService.encodeQuery(tenantId, query)
+        : undefined;
+    if (!sparse) {
+      // Nothing to blend in: no query term occurs in the tenant's documents
+      return { vector: embedding };
+    }
+    return {
+      vector: embedding.map((value) => value * alpha),
+      sparseVector: {
+        indices: sparse.indices,
+        values: sparse.values.map((value) => value * (1 - alpha)),
+      },
+    };
+  }
+}
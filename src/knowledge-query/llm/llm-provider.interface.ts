@@ -0,0 +1,22 @@
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+
+export interface PromptSource {
+  index: number; // 1-based citation number, rendered as [n] in the prompt
+  text: string;
+  fileName: string;
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+export interface GroundedPrompt {
+  system: string;
+  user: string;
+  // The raw pieces the prompt was built from, for providers that do not need the rendered text
+  question: string;
+  sources: PromptSource[];
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  generate(prompt: GroundedPrompt): Promise<string>;
+}
@@ -0,0 +1,79 @@
+import { GroundedPrompt, LlmProvider } from './llm-provider.interface';
+
+const MAX_SENTENCES = 3;
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'are',
+  'was',
+  'what',
+  'how',
+  'does',
+  'with',
+  'this',
+  'that',
+  'from',
+  'which',
+  'who',
+  'when',
+  'where',
+  'why',
+  'can',
+  'you',
+  'your',
+]);
+
+/**
+ * Deterministic, network-free provider. It answers extractively by picking the
+ * source sentences that share the most terms with the question, so the answer
+ * pipeline can be exercised in tests and local development.
+ */
+export class LocalLlmProvider implements LlmProvider {
+  readonly name = 'local';
+
+  async generate(prompt: GroundedPrompt): Promise<string> {
+    const questionTerms = new Set(tokenize(prompt.question));
+
+    const candidates = prompt.sources.flatMap((source) =>
+      splitSentences(source.text).map((sentence, position) => ({
+        sentence,
+        sourceIndex: source.index,
+        position,
+        score: tokenize(sentence).filter((term) => questionTerms.has(term))
+          .length,
+      })),
+    );
+
+    const best = candidates
+      .filter((candidate) => candidate.score > 0)
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.sourceIndex - b.sourceIndex ||
+          a.position - b.position,
+      )
+      .slice(0, MAX_SENTENCES);
+
+    if (best.length === 0) {
+      return 'I do not know based on the provided sources.';
+    }
+
+    return best
+      .map((candidate) => `${candidate.sentence} [${candidate.sourceIndex}]`)
+      .join(' ');
+  }
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(
+    (term) => term.length > 2 && !STOP_WORDS.has(term),
+  );
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
@@ -0,0 +1,53 @@
+import { Logger } from '@nestjs/common';
+import { GroundedPrompt, LlmProvider } from './llm-provider.interface';
+
+export interface OpenAiLlmOptions {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * Calls any server that implements the OpenAI chat completions API
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+  private readonly logger = new Logger(OpenAiLlmProvider.name);
+
+  constructor(private readonly options: OpenAiLlmOptions) {}
+
+  async generate(prompt: GroundedPrompt): Promise<string> {
+    const response = await fetch(
+      `${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.options.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          max_tokens: this.options.maxTokens,
+          temperature: this.options.temperature,
+          messages: [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user },
+          ],
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      this.logger.error(
+        `LLM request failed with status ${response.status}: ${body}`,
+      );
+      throw new Error(`LLM request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content?.trim() ?? '';
+  }
+}
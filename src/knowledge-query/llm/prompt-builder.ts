@@ -0,0 +1,40 @@
+import { GroundedPrompt, PromptSource } from './llm-provider.interface';
+
+const SYSTEM_PROMPT = [
+  'You are a helpful assistant that answers questions using only the provided sources.',
+  'Cite every statement with the number of the source it came from, e.g. [1] or [2][3].',
+  'If the sources do not contain the answer, say that you do not know.',
+].join(' ');
+
+/**
+ * Build a prompt that grounds the model in the retrieved sources
+ * @param question The user's question
+ * @param sources Retrieved chunks, already numbered for citation
+ * @returns System and user messages plus the inputs they were built from
+ */
+export function buildGroundedPrompt(
+  question: string,
+  sources: PromptSource[],
+): GroundedPrompt {
+  const context = sources
+    .map(
+      (source) => `[${source.index}] (${sourceLabel(source)})\n${source.text}`,
+    )
+    .join('\n\n');
+
+  const user = `Sources:\n${context}\n\nQuestion: ${question}\nAnswer:`;
+
+  return { system: SYSTEM_PROMPT, user, question, sources };
+}
+
+// e.g. "manual.pdf, p. 37" or "manual.pdf, pp. 37-38"
+function sourceLabel(source: PromptSource): string {
+  const { fileName, pageStart, pageEnd } = source;
+  if (pageStart === undefined) {
+    return fileName;
+  }
+  if (pageEnd === undefined || pageEnd === pageStart) {
+    return `${fileName}, p. ${pageStart}`;
+  }
+  return `${fileName}, pp. ${pageStart}-${pageEnd}`;
+}
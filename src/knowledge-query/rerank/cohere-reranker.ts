@@ -0,0 +1,53 @@
+import { Logger } from '@nestjs/common';
+import { Reranker } from './reranker.interface';
+
+export interface CohereRerankerOptions {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+/**
+ * Calls a Cohere-style `/v2/rerank` endpoint
+ */
+export class CohereReranker implements Reranker {
+  readonly name = 'cohere';
+  private readonly logger = new Logger(CohereReranker.name);
+
+  constructor(private readonly options: CohereRerankerOptions) {}
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const response = await fetch(
+      `${this.options.baseUrl.replace(/\/$/, '')}/v2/rerank`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.options.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          query,
+          documents,
+          top_n: documents.length,
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      this.logger.error(
+        `Rerank request failed with status ${response.status}: ${body}`,
+      );
+      throw new Error(`Rerank request failed with status ${response.status}`);
+    }
+
+    // Results come back best first, so put them back in input order
+    const data = await response.json();
+    const scores = new Array<number>(documents.length).fill(0);
+    for (const result of data.results ?? []) {
+      scores[result.index] = result.relevance_score;
+    }
+    return scores;
+  }
+}
@@ -0,0 +1,56 @@
+import { Logger } from '@nestjs/common';
+import { Reranker } from './reranker.interface';
+
+// Optional dependency, only required when this reranker is selected
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+/**
+ * Runs a cross-encoder model on the CPU through transformers.js (ONNX). Each
+ * query and document pair is read together, which ranks far more precisely
+ * than comparing separately computed embeddings.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'local';
+  private readonly logger = new Logger(CrossEncoderReranker.name);
+  private model: Promise<{ tokenizer: any; model: any }>;
+
+  constructor(private readonly modelName: string) {}
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const { tokenizer, model } = await this.getModel();
+    const inputs = tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return logits
+      .sigmoid()
+      .tolist()
+      .map(([score]: number[]) => score);
+  }
+
+  private getModel(): Promise<{ tokenizer: any; model: any }> {
+    if (!this.model) {
+      let transformers: any;
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        transformers = require(TRANSFORMERS_PACKAGE);
+      } catch {
+        throw new Error(
+          `The local reranker requires the '${TRANSFORMERS_PACKAGE}' package. Install it or choose another RERANK_PROVIDER.`,
+        );
+      }
+      this.logger.log(`Loading cross-encoder model: ${this.modelName}`);
+      const options = { dtype: 'fp32', device: 'cpu' };
+      this.model = Promise.all([
+        transformers.AutoTokenizer.from_pretrained(this.modelName),
+        transformers.AutoModelForSequenceClassification.from_pretrained(
+          this.modelName,
+          options,
+        ),
+      ]).then(([tokenizer, model]) => ({ tokenizer, model }));
+    }
+    return this.model;
+  }
+}
@@ -0,0 +1,90 @@
+export interface MmrCandidate {
+  relevance: number; // Any scale; normalized across the candidates
+  documentId: string;
+  values?: number[]; // Dense vector, to compare candidates with each other
+}
+
+export interface MmrOptions {
+  lambda: number; // 1 ranks by relevance alone, 0 by novelty alone
+  limit: number;
+  maxPerDocument?: number; // 0 or unset means no cap
+}
+
+/**
+ * Pick candidates one at a time by Maximal Marginal Relevance: relevance to
+ * the query, penalized by similarity to the candidates already picked, so
+ * near-duplicate chunks do not crowd out everything else.
+ * @returns The picked candidates in order, each with the MMR score it was picked with
+ */
+export function selectWithMmr<T extends MmrCandidate>(
+  candidates: T[],
+  { lambda, limit, maxPerDocument }: MmrOptions,
+): Array<{ candidate: T; mmrScore: number }> {
+  const relevance = normalize(
+    candidates.map((candidate) => candidate.relevance),
+  );
+  const remaining = candidates.map((candidate, i) => ({
+    candidate,
+    relevance: relevance[i],
+    // Highest similarity to any picked candidate
+    redundancy: 0,
+  }));
+  const perDocument = new Map<string, number>();
+  const selected: Array<{ candidate: T; mmrScore: number }> = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    remaining.forEach((entry, i) => {
+      if (
+        maxPerDocument > 0 &&
+        (perDocument.get(entry.candidate.documentId) ?? 0) >= maxPerDocument
+      ) {
+        return;
+      }
+      const score = lambda * entry.relevance - (1 - lambda) * entry.redundancy;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best === -1) {
+      break; // Every document left has reached its cap
+    }
+
+    const [picked] = remaining.splice(best, 1);
+    selected.push({ candidate: picked.candidate, mmrScore: bestScore });
+    perDocument.set(
+      picked.candidate.documentId,
+      (perDocument.get(picked.candidate.documentId) ?? 0) + 1,
+    );
+    for (const entry of remaining) {
+      entry.redundancy = Math.max(
+        entry.redundancy,
+        cosineSimilarity(entry.candidate.values, picked.candidate.values),
+      );
+    }
+  }
+  return selected;
+}
+
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map((score) => (range > 0 ? (score - min) / range : 1));
+}
+
+function cosineSimilarity(a?: number[], b?: number[]): number {
+  if (!a?.length || !b?.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
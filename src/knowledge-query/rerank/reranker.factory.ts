@@ -0,0 +1,40 @@
+import { Reranker } from './reranker.interface';
+import { CohereReranker } from './cohere-reranker';
+import { CrossEncoderReranker } from './cross-encoder-reranker';
+
+export interface RerankerConfig {
+  provider: string;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+const DEFAULT_MODELS: Record<string, string> = {
+  cohere: 'rerank-v3.5',
+  local: 'Xenova/ms-marco-MiniLM-L-6-v2',
+};
+
+/**
+ * @returns null when reranking is turned off
+ */
+export function createReranker(config: RerankerConfig): Reranker | null {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'none':
+      return null;
+
+    case 'cohere':
+      return new CohereReranker({
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        model,
+      });
+
+    case 'local':
+      return new CrossEncoderReranker(model);
+
+    default:
+      throw new Error(`Unknown rerank provider: ${config.provider}`);
+  }
+}
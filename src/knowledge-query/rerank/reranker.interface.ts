@@ -0,0 +1,10 @@
+export const RERANKER = 'RERANKER';
+
+export interface Reranker {
+  readonly name: string;
+  /**
+   * Score how well each document answers the query
+   * @returns One relevance score per document, in input order; higher is more relevant
+   */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
@@ -2,10 +2,14 @@ import * as dotenv from 'dotenv';
 dotenv.config(); // Load .env file at the very beginning
 
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
+import { ingestionConfig } from './config/ingestion.config';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  app.useBodyParser('text'); // SNS posts its JSON notifications as text/plain
+  app.useBodyParser('json', { limit: ingestionConfig.maxJsonBodySize }); // Bulk FAQ requests exceed the 100 KB default
   await app.listen(8001);
 }
 bootstrap();
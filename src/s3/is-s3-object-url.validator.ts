@@ -0,0 +1,24 @@
+import { ValidationOptions, registerDecorator } from 'class-validator';
+import { awsConfig } from '../config/aws.config';
+import { parseS3Url } from './s3-url';
+
+/**
+ * The value must be an s3:// or https:// S3 object URL in the configured bucket
+ */
+export function IsS3ObjectUrl(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isS3ObjectUrl',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate: (value: unknown) => {
+          const location = typeof value === 'string' ? parseS3Url(value) : null;
+          return location?.bucket === awsConfig.s3BucketName;
+        },
+        defaultMessage: () =>
+          `$property must be an s3:// or https:// URL of an object in bucket ${awsConfig.s3BucketName}`,
+      },
+    });
+}
@@ -0,0 +1,39 @@
+import { parseS3Url } from './s3-url';
+
+describe('parseS3Url', () => {
+  it.each([
+    ['s3://docs-bucket/tenants/acme/a%20b.pdf', 'docs-bucket'],
+    [
+      'https://docs-bucket.s3.amazonaws.com/tenants/acme/a%20b.pdf',
+      'docs-bucket',
+    ],
+    [
+      'https://docs-bucket.s3.eu-west-1.amazonaws.com/tenants/acme/a%20b.pdf',
+      'docs-bucket',
+    ],
+    [
+      'https://docs-bucket.s3-eu-west-1.amazonaws.com/tenants/acme/a%20b.pdf',
+      'docs-bucket',
+    ],
+    [
+      'https://s3.eu-west-1.amazonaws.com/docs-bucket/tenants/acme/a%20b.pdf',
+      'docs-bucket',
+    ],
+    ['https://my.docs.s3.amazonaws.com/tenants/acme/a%20b.pdf', 'my.docs'],
+  ])('should split %s into bucket and decoded key', (url, bucket) => {
+    expect(parseS3Url(url)).toEqual({
+      bucket,
+      key: 'tenants/acme/a b.pdf',
+    });
+  });
+
+  it.each([
+    'not a url',
+    'ftp://docs-bucket/file.pdf',
+    'https://example.com/file.pdf',
+    's3://docs-bucket/',
+    'https://s3.amazonaws.com/docs-bucket',
+  ])('should reject %s', (url) => {
+    expect(parseS3Url(url)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+export interface S3Location {
+  bucket: string;
+  key: string; // Decoded object key
+}
+
+// <bucket>.s3.amazonaws.com, <bucket>.s3.<region>.amazonaws.com, <bucket>.s3-<region>.amazonaws.com
+// and the s3-website variants
+const VIRTUAL_HOSTED_HOST =
+  /^(.+?)\.s3(?:-website)?(?:[.-][a-z0-9-]+)*\.amazonaws\.com$/;
+// s3.amazonaws.com/<bucket>, s3.<region>.amazonaws.com/<bucket>
+const PATH_STYLE_HOST = /^s3(?:[.-][a-z0-9-]+)*\.amazonaws\.com$/;
+
+/**
+ * Split an S3 URL into bucket and key
+ * @param s3Url s3://<bucket>/<key> or a virtual-hosted or path-style https URL
+ * @returns null when the URL is not an S3 object URL
+ */
+export function parseS3Url(s3Url: string): S3Location | null {
+  let url: URL;
+  try {
+    url = new URL(s3Url);
+  } catch {
+    return null;
+  }
+
+  // Keys are percent-encoded in URLs, e.g. spaces arrive as %20
+  const path = safeDecode(url.pathname.replace(/^\//, ''));
+  let bucket: string;
+  let key: string;
+
+  if (url.protocol === 's3:') {
+    bucket = url.hostname;
+    key = path;
+  } else if (url.protocol === 'https:' || url.protocol === 'http:') {
+    const virtualHosted = VIRTUAL_HOSTED_HOST.exec(url.hostname);
+    if (PATH_STYLE_HOST.test(url.hostname)) {
+      [bucket, key] = splitOnce(path, '/');
+    } else if (virtualHosted) {
+      bucket = virtualHosted[1];
+      key = path;
+    } else {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  return bucket && key ? { bucket, key } : null;
+}
+
+function splitOnce(value: string, separator: string): [string, string] {
+  const index = value.indexOf(separator);
+  return index < 0
+    ? [value, '']
+    : [value.slice(0, index), value.slice(index + 1)];
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -2,6 +2,16 @@ import { Injectable, Logger } from '@nestjs/common';
 import * as AWS from 'aws-sdk';
 import { awsConfig } from '../config/aws.config';
 import * as path from 'path';
+import { Readable } from 'stream';
+import { parseS3Url } from './s3-url';
+import {
+  InvalidS3UrlError,
+  MultipartUploadNotFoundError,
+  S3ObjectNotFoundError,
+} from '../common/errors/domain-errors';
+
+// Object metadata key holding the uploader's file name, since object keys are UUIDs
+const ORIGINAL_FILE_NAME_METADATA = 'original-filename';
 
 @Injectable()
 export class S3Service {
@@ -51,41 +61,227 @@ export class S3Service {
     this.logger.log('S3 client initialized');
   }
 
-  async getPresignedUrl(fileName: string, fileType: string): Promise<string> {
+  /**
+   * Sign a browser-style POST upload of exactly one object. S3 enforces the
+   * policy: the key, content type and metadata are fixed and the size is bounded.
+   * @param key The object key to upload to
+   * @param contentType The Content-Type the upload must be sent with
+   * @param options Size limit, expiry and the original file name to store as metadata
+   * @returns The form action URL and the fields to post along with the file
+   */
+  async createPresignedPost(
+    key: string,
+    contentType: string,
+    options: {
+      maxFileSizeBytes: number;
+      expiresInSeconds: number;
+      originalFileName: string;
+    },
+  ): Promise<{ url: string; fields: Record<string, string> }> {
     if (
       !this.s3 ||
       !awsConfig.s3BucketName ||
       awsConfig.s3BucketName === 'your-s3-bucket-name'
     ) {
       this.logger.error(
-        'S3 service or bucket name is not properly configured to generate a pre-signed URL.',
-      );
-      throw new Error(
-        'S3 service not configured for pre-signed URL generation.',
+        'S3 service or bucket name is not properly configured to generate a pre-signed POST.',
       );
+      throw new Error('S3 service not configured for pre-signed uploads.');
     }
 
-    const params = {
+    const params: AWS.S3.PresignedPost.Params = {
       Bucket: awsConfig.s3BucketName,
-      Key: fileName, // or customize the key, e.g., `uploads/${Date.now()}-${fileName}`
-      Expires: 60 * 5, // URL expires in 5 minutes
-      ContentType: fileType,
-      // ACL: 'public-read', // Optional: if you want the object to be public after upload via signed URL
+      Expires: options.expiresInSeconds,
+      // Every field becomes an exact-match condition of the signed policy
+      Fields: {
+        key,
+        'Content-Type': contentType,
+        [`x-amz-meta-${ORIGINAL_FILE_NAME_METADATA}`]: encodeURIComponent(
+          options.originalFileName,
+        ),
+      },
+      Conditions: [['content-length-range', 1, options.maxFileSizeBytes]],
     };
 
     try {
-      const url = await this.s3.getSignedUrlPromise('putObject', params);
-      this.logger.log(`Generated pre-signed URL for ${fileName}`);
-      return url;
+      const post = await new Promise<AWS.S3.PresignedPost>((resolve, reject) =>
+        this.s3.createPresignedPost(params, (error, data) =>
+          error ? reject(error) : resolve(data),
+        ),
+      );
+      this.logger.log(`Generated pre-signed POST for ${key}`);
+      return { url: post.url, fields: post.fields };
+    } catch (error) {
+      this.logger.error(`Error generating pre-signed POST for ${key}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start a multipart upload. The parts are uploaded to URLs from getSignedPartUrl.
+   * @returns The upload ID every later multipart call refers to
+   */
+  async createMultipartUpload(
+    key: string,
+    contentType: string,
+    originalFileName: string,
+  ): Promise<string> {
+    const bucket = this.configuredBucket('start a multipart upload');
+    try {
+      const { UploadId } = await this.s3
+        .createMultipartUpload({
+          Bucket: bucket,
+          Key: key,
+          ContentType: contentType,
+          Metadata: {
+            [ORIGINAL_FILE_NAME_METADATA]: encodeURIComponent(originalFileName),
+          },
+        })
+        .promise();
+      this.logger.log(`Started multipart upload ${UploadId} for ${key}`);
+      return UploadId;
+    } catch (error) {
+      this.logger.error(`Error starting multipart upload for ${key}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign a PUT of one part of a multipart upload
+   * @param partNumber 1-based, at most 10000
+   */
+  async getSignedPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    const bucket = this.configuredBucket('sign an upload part');
+    return this.s3.getSignedUrlPromise('uploadPart', {
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Expires: expiresInSeconds,
+    });
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   * @param parts Every uploaded part with the ETag S3 returned for it
+   * @throws MultipartUploadNotFoundError if the upload was completed, aborted or never started
+   */
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: Array<{ partNumber: number; etag: string }>,
+  ): Promise<void> {
+    const bucket = this.configuredBucket('complete a multipart upload');
+    try {
+      await this.s3
+        .completeMultipartUpload({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: [...parts]
+              .sort((a, b) => a.partNumber - b.partNumber)
+              .map((part) => ({
+                PartNumber: part.partNumber,
+                ETag: part.etag,
+              })),
+          },
+        })
+        .promise();
+      this.logger.log(
+        `Completed multipart upload ${uploadId} for ${key} (${parts.length} parts)`,
+      );
+    } catch (error) {
+      if (error.code === 'NoSuchUpload') {
+        throw new MultipartUploadNotFoundError(key, uploadId);
+      }
+      this.logger.error(
+        `Error completing multipart upload ${uploadId} for ${key}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Discard a multipart upload and the parts uploaded so far
+   * @throws MultipartUploadNotFoundError if the upload was completed, aborted or never started
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const bucket = this.configuredBucket('abort a multipart upload');
+    try {
+      await this.s3
+        .abortMultipartUpload({ Bucket: bucket, Key: key, UploadId: uploadId })
+        .promise();
+      this.logger.log(`Aborted multipart upload ${uploadId} for ${key}`);
     } catch (error) {
+      if (error.code === 'NoSuchUpload') {
+        throw new MultipartUploadNotFoundError(key, uploadId);
+      }
       this.logger.error(
-        `Error generating pre-signed URL for ${fileName}:`,
+        `Error aborting multipart upload ${uploadId} for ${key}:`,
         error,
       );
       throw error;
     }
   }
 
+  /**
+   * Read an object's size and metadata without downloading it
+   */
+  async headObject(key: string): Promise<{
+    contentLength: number;
+    contentType?: string;
+    originalFileName?: string;
+    etag?: string; // Without the surrounding quotes, as in S3 event notifications
+  }> {
+    const bucket = this.configuredBucket('read object metadata');
+    try {
+      const head = await this.s3
+        .headObject({ Bucket: bucket, Key: key })
+        .promise();
+      const originalFileName = head.Metadata?.[ORIGINAL_FILE_NAME_METADATA];
+      return {
+        contentLength: head.ContentLength ?? 0,
+        contentType: head.ContentType,
+        originalFileName: originalFileName
+          ? decodeURIComponent(originalFileName)
+          : undefined,
+        etag: head.ETag?.replace(/"/g, ''),
+      };
+    } catch (error) {
+      if (error.code === 'NotFound' || error.statusCode === 404) {
+        throw new S3ObjectNotFoundError(key);
+      }
+      this.logger.error(`Error reading metadata of ${key} from S3:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream an object's bytes, for files too large to hold in memory
+   */
+  getObjectStream(key: string): Readable {
+    const bucket = this.configuredBucket('stream an object');
+    this.logger.log(`Streaming object from S3: ${key}`);
+    return this.s3.getObject({ Bucket: bucket, Key: key }).createReadStream();
+  }
+
+  /**
+   * The s3:// URL of an object in the configured bucket
+   */
+  getObjectUrl(key: string): string {
+    return `s3://${awsConfig.s3BucketName}/${key
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/')}`;
+  }
+
   // Method to download a file from S3, might be used by KnowledgeIngestionService
   async getObject(key: string): Promise<AWS.S3.GetObjectOutput> {
     if (
@@ -108,65 +304,118 @@ export class S3Service {
       this.logger.log(`Fetching object from S3: ${key}`);
       return await this.s3.getObject(params).promise();
     } catch (error) {
+      if (error.code === 'NoSuchKey' || error.statusCode === 404) {
+        throw new S3ObjectNotFoundError(key);
+      }
       this.logger.error(`Error fetching object ${key} from S3:`, error);
       throw error;
     }
   }
 
-  async getFileContentAsString(key: string): Promise<string> {
-    this.logger.log(`Fetching file content as string from S3: ${key}`);
+  /**
+   * Download an object's raw bytes. Binary formats such as PDF must never be
+   * decoded as text on the way through.
+   */
+  async getFileContent(key: string): Promise<{
+    body: Buffer;
+    contentType?: string;
+    originalFileName?: string;
+  }> {
+    this.logger.log(`Fetching file content from S3: ${key}`);
     const s3Object = await this.getObject(key);
     if (!s3Object.Body) {
       this.logger.error(`S3 object Body is empty for key: ${key}`);
       throw new Error(`S3 object Body is empty for key: ${key}`);
     }
-    // Assuming the body is a Buffer, convert it to a UTF-8 string.
-    // Adjust if different encoding or type is expected.
-    return s3Object.Body.toString('utf-8');
+    const body = Buffer.isBuffer(s3Object.Body)
+      ? s3Object.Body
+      : Buffer.from(s3Object.Body as Uint8Array);
+    const originalFileName = s3Object.Metadata?.[ORIGINAL_FILE_NAME_METADATA];
+    return {
+      body,
+      contentType: s3Object.ContentType,
+      originalFileName: originalFileName
+        ? decodeURIComponent(originalFileName)
+        : undefined,
+    };
+  }
+
+  /**
+   * Extract the object key from an S3 URL
+   * @param s3Url e.g. s3://<bucket>/<key> or https://<bucket>.s3.<region>.amazonaws.com/<key>
+   * @returns The decoded object key
+   */
+  getKeyFromUrl(s3Url: string): string {
+    const location = parseS3Url(s3Url);
+    if (!location) {
+      this.logger.error(`Could not determine S3 key from URL: ${s3Url}`);
+      throw new InvalidS3UrlError(
+        s3Url,
+        'expected s3://<bucket>/<key> or https://<bucket>.s3.<region>.amazonaws.com/<key>',
+      );
+    }
+    return location.key;
   }
 
-  async downloadFileContentFromUrl(s3Url: string): Promise<{ content: string; s3Key: string; originalFileName: string; }> {
-    this.logger.log(`Attempting to download file content from S3 URL: ${s3Url}`);
-    
-    // 1. Parse S3 URL to get bucket and key
-    const parsedUrl = new URL(s3Url);
-    let s3Key: string;
-    // let bucketName: string; // Bucket name isn't strictly needed by this service if key is global or bucket is pre-configured
+  async downloadFileFromUrl(s3Url: string): Promise<{
+    body: Buffer;
+    contentType?: string;
+    s3Key: string;
+    originalFileName: string;
+  }> {
+    this.logger.log(`Attempting to download file from S3 URL: ${s3Url}`);
+
+    // 1. Parse S3 URL to get the key
+    const s3Key = this.getKeyFromUrl(s3Url);
+    this.logger.log(`Extracted S3 Key: ${s3Key}`);
 
+    // 2. Get the raw file bytes
+    const { body, contentType, originalFileName } =
+      await this.getFileContent(s3Key);
+
+    return {
+      body,
+      contentType,
+      s3Key,
+      // 3. Prefer the file name recorded at upload over the generated key
+      originalFileName: originalFileName ?? path.basename(s3Key),
+    };
+  }
+
+  async deleteObject(key: string): Promise<void> {
     if (
-      parsedUrl.hostname.endsWith('.s3.amazonaws.com') ||
-      parsedUrl.hostname.includes('.s3-website')
+      !this.s3 ||
+      !awsConfig.s3BucketName ||
+      awsConfig.s3BucketName === 'your-s3-bucket-name'
     ) {
-      s3Key = parsedUrl.pathname.startsWith('/')
-        ? parsedUrl.pathname.substring(1)
-        : parsedUrl.pathname;
-    } else if (parsedUrl.protocol === 's3:') {
-      s3Key = parsedUrl.pathname.startsWith('/')
-        ? parsedUrl.pathname.substring(1)
-        : parsedUrl.pathname;
-    } else {
-      this.logger.warn(
-        `Could not reliably parse S3 key from URL hostname: ${parsedUrl.hostname}. Assuming key is the full pathname. ` +
-        `Ensure the S3 URL format is as expected (e.g., https://<bucket>.s3.<region>.amazonaws.com/<key> or s3://<bucket>/<key>) or enhance parsing. ` +
-        `Using pathname: ${parsedUrl.pathname}`
+      this.logger.error(
+        'S3 service or bucket name is not properly configured to delete an object.',
       );
-      s3Key = parsedUrl.pathname.startsWith('/') 
-        ? parsedUrl.pathname.substring(1) 
-        : parsedUrl.pathname;
+      throw new Error('S3 service not configured for deleteObject operation.');
     }
 
-    if (!s3Key) {
-      this.logger.error(`Could not determine S3 key from URL: ${s3Url}`);
-      throw new Error('Could not determine S3 key from URL.');
+    try {
+      await this.s3
+        .deleteObject({ Bucket: awsConfig.s3BucketName, Key: key })
+        .promise();
+      this.logger.log(`Deleted object from S3: ${key}`);
+    } catch (error) {
+      this.logger.error(`Error deleting object ${key} from S3:`, error);
+      throw error;
     }
-    this.logger.log(`Extracted S3 Key: ${s3Key}`);
-
-    // 2. Get file content as string
-    const content = await this.getFileContentAsString(s3Key);
-    
-    // 3. Derive original file name
-    const originalFileName = path.basename(s3Key);
+  }
 
-    return { content, s3Key, originalFileName };
+  private configuredBucket(operation: string): string {
+    if (
+      !this.s3 ||
+      !awsConfig.s3BucketName ||
+      awsConfig.s3BucketName === 'your-s3-bucket-name'
+    ) {
+      this.logger.error(
+        `S3 service or bucket name is not properly configured to ${operation}.`,
+      );
+      throw new Error(`S3 service not configured to ${operation}.`);
+    }
+    return awsConfig.s3BucketName;
   }
 }
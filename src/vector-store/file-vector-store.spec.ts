@@ -0,0 +1,48 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileVectorStore } from './file-vector-store';
+import { describeVectorStoreConformance } from './vector-store.conformance';
+
+describe('FileVectorStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vector-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describeVectorStoreConformance(
+    'FileVectorStore',
+    () => new FileVectorStore(directory, 4, 'dotproduct'),
+  );
+
+  it('should keep vectors across restarts', async () => {
+    const store = new FileVectorStore(directory, 2);
+    await Promise.all([
+      store.upsert('tenant:acme', [
+        { id: 'a#chunk-0', values: [1, 0], metadata: { text: 'A' } },
+      ]),
+      store.upsert('tenant:acme', [{ id: 'a#chunk-1', values: [0, 1] }]),
+      store.upsert('tenant:globex', [{ id: 'g#chunk-0', values: [1, 1] }]),
+    ]);
+    await store.delete('tenant:acme', ['a#chunk-1']);
+
+    const restarted = new FileVectorStore(directory, 2);
+
+    expect(await restarted.fetch('tenant:acme', ['a#chunk-0'])).toEqual([
+      { id: 'a#chunk-0', values: [1, 0], metadata: { text: 'A' } },
+    ]);
+    expect(await restarted.stats()).toEqual({
+      dimension: 2,
+      totalVectorCount: 2,
+      namespaces: {
+        'tenant:acme': { vectorCount: 1 },
+        'tenant:globex': { vectorCount: 1 },
+      },
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  MetadataFilter,
+  VectorMatch,
+  VectorMetric,
+  VectorQuery,
+  VectorRecord,
+  VectorStoreStats,
+} from './vector-store.interface';
+import { InMemoryVectorStore } from './in-memory-vector-store';
+
+/**
+ * Vectors persisted to one JSON file per namespace, for single-instance
+ * deployments and running the whole pipeline offline. Each namespace is loaded
+ * into memory when first used.
+ */
+export class FileVectorStore extends InMemoryVectorStore {
+  readonly name = 'file';
+  private readonly loading = new Map<string, Promise<void>>();
+  // Serializes writes so concurrent ingestions cannot interleave partial files
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly directory: string,
+    dimension: number,
+    metric?: VectorMetric,
+  ) {
+    super(dimension, metric);
+  }
+
+  async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+    await this.load(namespace);
+    await super.upsert(namespace, vectors);
+    await this.flush(namespace);
+  }
+
+  async query(namespace: string, query: VectorQuery): Promise<VectorMatch[]> {
+    await this.load(namespace);
+    return super.query(namespace, query);
+  }
+
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    await this.load(namespace);
+    return super.fetch(namespace, ids);
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    await this.load(namespace);
+    await super.delete(namespace, ids);
+    await this.flush(namespace);
+  }
+
+  async deleteByFilter(
+    namespace: string,
+    filter: MetadataFilter,
+  ): Promise<void> {
+    await this.load(namespace);
+    await super.deleteByFilter(namespace, filter); // Flushes through delete
+  }
+
+  async listIds(namespace: string, prefix: string): Promise<string[]> {
+    await this.load(namespace);
+    return super.listIds(namespace, prefix);
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const files = await fs.readdir(this.directory).catch((error) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      return [] as string[];
+    });
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.load(decodeURIComponent(file.slice(0, -5)))),
+    );
+    return super.stats();
+  }
+
+  private load(namespace: string): Promise<void> {
+    if (!this.loading.has(namespace)) {
+      this.loading.set(
+        namespace,
+        fs
+          .readFile(this.filePath(namespace), 'utf-8')
+          .then((data) => {
+            const records = (JSON.parse(data) as VectorRecord[]).map(
+              (record) => [record.id, record] as const,
+            );
+            this.namespaces.set(namespace, new Map(records));
+          })
+          .catch((error) => {
+            if (error.code !== 'ENOENT') {
+              throw error;
+            }
+          }),
+      );
+    }
+    return this.loading.get(namespace);
+  }
+
+  private flush(namespace: string): Promise<void> {
+    const snapshot = JSON.stringify([...this.records(namespace)]);
+    const filePath = this.filePath(namespace);
+    const run = this.writing.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${filePath}.tmp`, snapshot);
+      await fs.rename(`${filePath}.tmp`, filePath);
+    });
+    this.writing = run.catch(() => undefined);
+    return run;
+  }
+
+  private filePath(namespace: string): string {
+    return path.join(this.directory, `${encodeURIComponent(namespace)}.json`);
+  }
+}
@@ -0,0 +1,41 @@
+import { InMemoryVectorStore } from './in-memory-vector-store';
+import { describeVectorStoreConformance } from './vector-store.conformance';
+
+describeVectorStoreConformance(
+  'InMemoryVectorStore',
+  () => new InMemoryVectorStore(4, 'dotproduct'),
+);
+
+describe('InMemoryVectorStore', () => {
+  it('should rank by cosine similarity regardless of vector length', async () => {
+    const store = new InMemoryVectorStore(2, 'cosine');
+    await store.upsert('acme', [
+      { id: 'long', values: [10, 10] },
+      { id: 'aligned', values: [0.1, 0] },
+    ]);
+
+    const matches = await store.query('acme', { vector: [2, 0], topK: 2 });
+
+    expect(matches.map((match) => match.id)).toEqual(['aligned', 'long']);
+    expect(matches[0].score).toBeCloseTo(1);
+    expect(matches[1].score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('should reject what Pinecone would reject', async () => {
+    const store = new InMemoryVectorStore(2, 'cosine');
+
+    await expect(
+      store.upsert('acme', [{ id: 'short', values: [1] }]),
+    ).rejects.toThrow('dimension 1');
+    await expect(
+      store.upsert('acme', [
+        {
+          id: 'sparse',
+          values: [1, 0],
+          sparseValues: { indices: [1], values: [1] },
+        },
+      ]),
+    ).rejects.toThrow('dotproduct');
+    expect(await store.listIds('acme', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { SparseValues } from '../document-processing/sparse/bm25';
+import { matchesFilter } from './metadata-filter';
+import {
+  MetadataFilter,
+  VectorMatch,
+  VectorMetric,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from './vector-store.interface';
+
+/**
+ * Process-local store for development and tests. Queries compare against every
+ * vector in the namespace, which is exact and fast enough for tens of thousands
+ * of chunks. Vectors are lost on restart.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly name: string = 'memory';
+  protected readonly namespaces = new Map<string, Map<string, VectorRecord>>();
+
+  constructor(
+    protected readonly dimension: number,
+    protected readonly metric: VectorMetric = 'cosine',
+  ) {}
+
+  async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+    for (const vector of vectors) {
+      this.validate(vector);
+    }
+    const records = this.namespaces.get(namespace) ?? new Map();
+    for (const vector of vectors) {
+      records.set(vector.id, structuredClone(vector));
+    }
+    this.namespaces.set(namespace, records);
+  }
+
+  async query(namespace: string, query: VectorQuery): Promise<VectorMatch[]> {
+    this.validate({
+      id: 'query',
+      values: query.vector,
+      sparseValues: query.sparseVector,
+    });
+    return [...this.records(namespace)]
+      .filter((record) => matchesFilter(record.metadata, query.filter))
+      .map((record) => ({
+        id: record.id,
+        score: this.score(query, record),
+        ...(query.includeValues && { values: [...record.values] }),
+        metadata: structuredClone(record.metadata ?? {}),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.topK);
+  }
+
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const records = this.namespaces.get(namespace);
+    return ids
+      .map((id) => records?.get(id))
+      .filter((record) => record !== undefined)
+      .map((record) => structuredClone(record));
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const records = this.namespaces.get(namespace);
+    for (const id of ids) {
+      records?.delete(id);
+    }
+  }
+
+  async deleteByFilter(
+    namespace: string,
+    filter: MetadataFilter,
+  ): Promise<void> {
+    await this.delete(
+      namespace,
+      [...this.records(namespace)]
+        .filter((record) => matchesFilter(record.metadata, filter))
+        .map((record) => record.id),
+    );
+  }
+
+  async listIds(namespace: string, prefix: string): Promise<string[]> {
+    return [...this.records(namespace)]
+      .map((record) => record.id)
+      .filter((id) => id.startsWith(prefix))
+      .sort();
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const namespaces: VectorStoreStats['namespaces'] = {};
+    let totalVectorCount = 0;
+    for (const [namespace, records] of this.namespaces) {
+      if (records.size > 0) {
+        namespaces[namespace] = { vectorCount: records.size };
+        totalVectorCount += records.size;
+      }
+    }
+    return { dimension: this.dimension, totalVectorCount, namespaces };
+  }
+
+  protected records(namespace: string): Iterable<VectorRecord> {
+    return this.namespaces.get(namespace)?.values() ?? [];
+  }
+
+  // Reject what Pinecone would, so code tested against this store works there too
+  private validate(vector: VectorRecord) {
+    if (vector.values.length !== this.dimension) {
+      throw new Error(
+        `Vector ${vector.id} has dimension ${vector.values.length}, but the store has dimension ${this.dimension}`,
+      );
+    }
+    if (vector.sparseValues && this.metric !== 'dotproduct') {
+      throw new Error(
+        `Sparse values are only supported with the dotproduct metric, not ${this.metric}`,
+      );
+    }
+  }
+
+  private score(query: VectorQuery, record: VectorRecord): number {
+    const dense = dot(query.vector, record.values);
+    if (this.metric === 'cosine') {
+      const norms = Math.sqrt(
+        dot(query.vector, query.vector) * dot(record.values, record.values),
+      );
+      return norms > 0 ? dense / norms : 0;
+    }
+    return dense + sparseDot(query.sparseVector, record.sparseValues);
+  }
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function sparseDot(a?: SparseValues, b?: SparseValues): number {
+  if (!a || !b) {
+    return 0;
+  }
+  const weights = new Map(a.indices.map((index, i) => [index, a.values[i]]));
+  return b.indices.reduce(
+    (sum, index, i) => sum + (weights.get(index) ?? 0) * b.values[i],
+    0,
+  );
+}
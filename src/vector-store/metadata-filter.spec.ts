@@ -0,0 +1,70 @@
+import { validate } from 'class-validator';
+import { findFilterError, matchesFilter } from './metadata-filter';
+import { IsMetadataFilter } from '../common/validation/is-metadata-filter.validator';
+
+class FilteredRequest {
+  @IsMetadataFilter()
+  filter: unknown;
+}
+
+describe('metadata filters', () => {
+  it('should accept the operators matchesFilter evaluates', () => {
+    const filter = {
+      doc_type: 'pdf',
+      $or: [
+        { tags: { $in: ['hr', 'legal'] } },
+        { created_at: { $gte: 1_700_000_000, $lt: 1_800_000_000 } },
+      ],
+      $and: [{ answer: { $exists: false } }, { language: { $ne: 'de' } }],
+    };
+
+    expect(findFilterError(filter)).toBeUndefined();
+    expect(
+      matchesFilter(
+        { doc_type: 'pdf', tags: ['hr'], created_at: 1, language: 'en' },
+        filter,
+      ),
+    ).toBe(true);
+  });
+
+  it.each([
+    [
+      { text: { $regex: 'refund' } },
+      'filter.text.$regex is not a supported operator',
+    ],
+    [
+      { $and: { doc_type: 'pdf' } },
+      'filter.$and must be a non-empty array of filters',
+    ],
+    [{ $or: 'x' }, 'filter.$or must be a non-empty array of filters'],
+    [
+      { $or: [{ tags: { $in: 'hr' } }] },
+      'filter.$or[0].tags.$in has an operand of the wrong type',
+    ],
+    [
+      { $not: { doc_type: 'pdf' } },
+      'filter.$not is not a supported logical operator; use $and or $or',
+    ],
+    [
+      { tags: ['hr'] },
+      'filter.tags must be a string, number, boolean or an object of operators',
+    ],
+    [{ doc_type: {} }, 'filter.doc_type must name at least one operator'],
+    ['doc_type', 'filter must be an object'],
+  ])('should explain what is wrong with %j', (filter, error) => {
+    expect(findFilterError(filter)).toBe(error);
+  });
+
+  it('should report why a filter is invalid as a validation error', async () => {
+    const request = Object.assign(new FilteredRequest(), {
+      filter: { $and: { doc_type: 'pdf' } },
+    });
+
+    const [error] = await validate(request);
+
+    expect(error.property).toBe('filter');
+    expect(Object.values(error.constraints)).toEqual([
+      'filter.$and must be a non-empty array of filters',
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { MetadataFilter } from './vector-store.interface';
+
+type Scalar = string | number | boolean;
+
+const OPERAND_CHECKS: Record<string, (operand: unknown) => boolean> = {
+  $eq: isScalar,
+  $ne: isScalar,
+  $in: (operand) => Array.isArray(operand) && operand.every(isScalar),
+  $nin: (operand) => Array.isArray(operand) && operand.every(isScalar),
+  $gt: (operand) => typeof operand === 'number',
+  $gte: (operand) => typeof operand === 'number',
+  $lt: (operand) => typeof operand === 'number',
+  $lte: (operand) => typeof operand === 'number',
+  $exists: (operand) => typeof operand === 'boolean',
+};
+
+/**
+ * Evaluate a Pinecone metadata filter against a vector's metadata, for stores
+ * that filter locally. Fields holding a list of strings match when any of
+ * their elements does, as they do in Pinecone.
+ */
+export function matchesFilter(
+  metadata: Record<string, any> = {},
+  filter: MetadataFilter = {},
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return (condition as MetadataFilter[]).every((clause) =>
+          matchesFilter(metadata, clause),
+        );
+      case '$or':
+        return (condition as MetadataFilter[]).some((clause) =>
+          matchesFilter(metadata, clause),
+        );
+      default:
+        return matchesField(metadata[key], condition);
+    }
+  });
+}
+
+/**
+ * Check that a filter from a client only uses the operators matchesFilter
+ * and Pinecone support, with operands of the right type
+ * @returns What is wrong with the filter, or undefined if it is valid
+ */
+export function findFilterError(
+  filter: unknown,
+  path = 'filter',
+): string | undefined {
+  if (!isPlainObject(filter)) {
+    return `${path} must be an object`;
+  }
+  for (const [key, condition] of Object.entries(filter)) {
+    const at = `${path}.${key}`;
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition) || condition.length === 0) {
+        return `${at} must be a non-empty array of filters`;
+      }
+      const error = condition
+        .map((clause, index) => findFilterError(clause, `${at}[${index}]`))
+        .find(Boolean);
+      if (error) {
+        return error;
+      }
+    } else if (key.startsWith('$')) {
+      return `${at} is not a supported logical operator; use $and or $or`;
+    } else if (isPlainObject(condition)) {
+      const operators = Object.entries(condition);
+      if (operators.length === 0) {
+        return `${at} must name at least one operator`;
+      }
+      for (const [operator, operand] of operators) {
+        const check = OPERAND_CHECKS[operator];
+        if (!check) {
+          return `${at}.${operator} is not a supported operator`;
+        }
+        if (!check(operand)) {
+          return `${at}.${operator} has an operand of the wrong type`;
+        }
+      }
+    } else if (!isScalar(condition)) {
+      return `${at} must be a string, number, boolean or an object of operators`;
+    }
+  }
+  return undefined;
+}
+
+function matchesField(value: unknown, condition: unknown): boolean {
+  if (!isOperators(condition)) {
+    return matchesField(value, { $eq: condition });
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return values(value).some((element) => element === operand);
+      case '$ne':
+        return !values(value).some((element) => element === operand);
+      case '$in':
+        return values(value).some((element) =>
+          (operand as Scalar[]).includes(element),
+        );
+      case '$nin':
+        return !values(value).some((element) =>
+          (operand as Scalar[]).includes(element),
+        );
+      case '$gt':
+        return typeof value === 'number' && value > (operand as number);
+      case '$gte':
+        return typeof value === 'number' && value >= (operand as number);
+      case '$lt':
+        return typeof value === 'number' && value < (operand as number);
+      case '$lte':
+        return typeof value === 'number' && value <= (operand as number);
+      case '$exists':
+        return (value !== undefined && value !== null) === operand;
+      default:
+        throw new Error(`Unsupported metadata filter operator: ${operator}`);
+    }
+  });
+}
+
+function isOperators(condition: unknown): condition is Record<string, unknown> {
+  return (
+    typeof condition === 'object' &&
+    condition !== null &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).every((key) => key.startsWith('$'))
+  );
+}
+
+function values(value: unknown): Scalar[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value as Scalar];
+}
+
+function isScalar(value: unknown): value is Scalar {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
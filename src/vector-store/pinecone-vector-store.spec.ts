@@ -0,0 +1,57 @@
+import { PineconeVectorStore } from './pinecone-vector-store';
+import { describeVectorStoreConformance } from './vector-store.conformance';
+import { pineconeConfig } from '../config/pinecone.config';
+import { VectorStoreUnavailableError } from '../common/errors/domain-errors';
+import { EmbeddingProvider } from '../document-processing/embedding-providers/embedding-provider.interface';
+
+const provider = { name: 'fake', dimension: 4 } as EmbeddingProvider;
+
+describe('PineconeVectorStore', () => {
+  const original = { ...pineconeConfig };
+
+  afterEach(() => Object.assign(pineconeConfig, original));
+
+  it('should fail at startup without an API key', async () => {
+    pineconeConfig.apiKey = undefined;
+
+    await expect(
+      new PineconeVectorStore(provider).onModuleInit(),
+    ).rejects.toBeInstanceOf(VectorStoreUnavailableError);
+  });
+
+  it('should refuse operations until the index is initialized', async () => {
+    const store = new PineconeVectorStore(provider);
+
+    await expect(
+      store.upsert('acme', [{ id: 'a', values: [1, 0, 0, 0] }]),
+    ).rejects.toThrow(VectorStoreUnavailableError);
+    await expect(store.listIds('acme', 'a')).rejects.toThrow(
+      'is not initialized',
+    );
+  });
+});
+
+// Needs a live serverless index with dimension 4 and the dotproduct metric, e.g.
+// PINECONE_API_KEY=... PINECONE_CONFORMANCE_INDEX=conformance npx jest pinecone
+const conformanceIndex = process.env.PINECONE_CONFORMANCE_INDEX;
+(conformanceIndex ? describe : describe.skip)(
+  'PineconeVectorStore live',
+  () => {
+    jest.setTimeout(120_000);
+    const original = { ...pineconeConfig };
+    let store: PineconeVectorStore;
+
+    beforeAll(async () => {
+      pineconeConfig.indexName = conformanceIndex;
+      store = new PineconeVectorStore(provider);
+      await store.onModuleInit();
+    });
+
+    afterAll(() => Object.assign(pineconeConfig, original));
+
+    describeVectorStoreConformance('PineconeVectorStore', () => store, {
+      // Writes take a few seconds to show up in queries, listings and stats
+      settle: () => new Promise((resolve) => setTimeout(resolve, 10_000)),
+    });
+  },
+);
@@ -0,0 +1,256 @@
+import { OnModuleInit, Logger } from '@nestjs/common';
+import { Pinecone, Index } from '@pinecone-database/pinecone';
+import { pineconeConfig } from '../config/pinecone.config';
+import { hybridSearchConfig } from '../config/hybrid-search.config';
+import { EmbeddingProvider } from '../document-processing/embedding-providers/embedding-provider.interface';
+import { VectorStoreUnavailableError } from '../common/errors/domain-errors';
+import {
+  MetadataFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from './vector-store.interface';
+
+// Define a more specific type for metadata if you have common structures
+// For now, Record<string, any> is broadly compatible.
+type DocumentMetadata = Record<string, any>;
+
+// Pinecone limits upsert requests to 2MB, which 100 vectors with text metadata stay well under
+const UPSERT_BATCH_SIZE = 100;
+// Pinecone accepts at most 1000 IDs per delete request
+const DELETE_BATCH_SIZE = 1000;
+// Fetch IDs travel in the query string, so keep requests well under URL length limits
+const FETCH_BATCH_SIZE = 100;
+
+export class PineconeVectorStore implements VectorStore, OnModuleInit {
+  readonly name = 'pinecone';
+  private readonly logger = new Logger(PineconeVectorStore.name);
+  private pinecone: Pinecone;
+  private index: Index<DocumentMetadata>; // Declare the index property with a specific type
+
+  constructor(private readonly embeddingProvider: EmbeddingProvider) {}
+
+  async onModuleInit() {
+    if (!pineconeConfig.apiKey) {
+      // Fail the startup rather than every request after it
+      throw new VectorStoreUnavailableError(
+        this.name,
+        'PINECONE_API_KEY is not set. Set it, or set VECTOR_STORE_BACKEND to memory or file to run without Pinecone.',
+      );
+    }
+    // The environment is typically part of the Pinecone object initialization in newer client versions
+    // or handled by the client if connecting to a specific project.
+    // If your client version requires it explicitly and it's not for serverless, adjust accordingly.
+
+    this.pinecone = new Pinecone({
+      apiKey: pineconeConfig.apiKey,
+      // environment: pineconeConfig.environment, // Environment is often not needed here for v2+ client for serverless
+    });
+    this.logger.log('Pinecone client initialized');
+
+    try {
+      const description = await this.pinecone.describeIndex(
+        pineconeConfig.indexName,
+      );
+      this.logger.log(
+        `Connected to existing Pinecone index: ${pineconeConfig.indexName}`,
+      );
+      if (description.dimension !== this.embeddingProvider.dimension) {
+        this.logger.error(
+          `Pinecone index '${pineconeConfig.indexName}' has dimension ${description.dimension}, but embedding provider '${this.embeddingProvider.name}' produces ${this.embeddingProvider.dimension}. Upserts and queries will fail.`,
+        );
+      }
+      if (hybridSearchConfig.enabled && description.metric !== 'dotproduct') {
+        this.logger.error(
+          `Pinecone index '${pineconeConfig.indexName}' uses the ${description.metric} metric, but hybrid search needs dotproduct. Upserts with sparse values will fail.`,
+        );
+      }
+    } catch (error) {
+      // Type guard to check if it's an error indicating the index doesn't exist
+      // This is a common way, but the exact error message or type might vary.
+      // For now, we assume any error here means it might not exist or other issue like auth.
+      this.logger.warn(
+        `Pinecone index '${pineconeConfig.indexName}' may not exist or other error: ${error.message}. Attempting to create...`,
+      );
+      try {
+        await this.pinecone.createIndex({
+          name: pineconeConfig.indexName,
+          dimension: this.embeddingProvider.dimension, // Must match the configured embedding provider
+          // Only dotproduct indexes accept sparse values
+          metric: hybridSearchConfig.enabled ? 'dotproduct' : 'cosine',
+          spec: {
+            serverless: {
+              cloud: 'aws', // Choose your cloud provider: 'aws', 'gcp', or 'azure'
+              region: 'us-east-1', // Choose the region for your index
+            },
+            // For pod-based indexes, the spec would be different, e.g.:
+            // pod: {
+            //   environment: pineconeConfig.environment, // Your project's environment
+            //   pods: 1, // Number of pods
+            //   podType: 'p1.x1' // Pod type
+            // }
+          },
+        });
+        this.logger.log(
+          `Pinecone index ${pineconeConfig.indexName} creation requested. It may take a moment to be ready.`,
+        );
+        // It might be good to add a small delay or a loop to check for index readiness before assigning
+        // For simplicity, we assign immediately. Operations might fail if index is not ready.
+      } catch (createError) {
+        this.logger.error(
+          `Failed to create Pinecone index '${pineconeConfig.indexName}': ${createError.message}`,
+        );
+        // If creation fails, re-throw or handle so the service doesn't operate on a non-existent/failed index
+        throw createError;
+      }
+    }
+    this.index = this.pinecone.index<DocumentMetadata>(
+      pineconeConfig.indexName,
+    );
+  }
+
+  async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+    const index = this.namespace(namespace);
+    try {
+      for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
+        await index.upsert(vectors.slice(i, i + UPSERT_BATCH_SIZE));
+      }
+      this.logger.log(
+        `Upserted ${vectors.length} vectors to index: ${pineconeConfig.indexName}, namespace: ${namespace}`,
+      );
+    } catch (error) {
+      this.logger.error('Error upserting vectors to Pinecone:', error);
+      throw error;
+    }
+  }
+
+  async query(namespace: string, query: VectorQuery): Promise<VectorMatch[]> {
+    const index = this.namespace(namespace);
+    try {
+      const queryResponse = await index.query({
+        vector: query.vector,
+        sparseVector: query.sparseVector,
+        topK: query.topK,
+        filter: query.filter,
+        includeMetadata: true,
+        includeValues: query.includeValues ?? false,
+      });
+      return (queryResponse.matches ?? [])
+        .map((match) => ({
+          id: match.id,
+          score: match.score ?? 0,
+          ...(query.includeValues && { values: match.values }),
+          metadata: match.metadata,
+        }))
+        .sort((a, b) => b.score - a.score);
+    } catch (error) {
+      this.logger.error('Error querying vectors from Pinecone:', error);
+      throw error;
+    }
+  }
+
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const index = this.namespace(namespace);
+    try {
+      const records: VectorRecord[] = [];
+      for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+        const response = await index.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+        for (const record of Object.values(response.records ?? {})) {
+          records.push({ ...record, values: record.values ?? [] });
+        }
+      }
+      return records;
+    } catch (error) {
+      this.logger.error('Error fetching vectors from Pinecone:', error);
+      throw error;
+    }
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const index = this.namespace(namespace);
+    try {
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+      }
+      this.logger.log(
+        `Deleted ${ids.length} vectors from index: ${pineconeConfig.indexName}, namespace: ${namespace}`,
+      );
+    } catch (error) {
+      this.logger.error('Error deleting vectors from Pinecone:', error);
+      throw error;
+    }
+  }
+
+  async deleteByFilter(
+    namespace: string,
+    filter: MetadataFilter,
+  ): Promise<void> {
+    const index = this.namespace(namespace);
+    try {
+      await index.deleteMany(filter);
+      this.logger.log(
+        `Deleted vectors matching ${JSON.stringify(filter)} from index: ${pineconeConfig.indexName}, namespace: ${namespace}`,
+      );
+    } catch (error) {
+      this.logger.error('Error deleting vectors from Pinecone:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Only supported on serverless indexes
+   */
+  async listIds(namespace: string, prefix: string): Promise<string[]> {
+    const index = this.namespace(namespace);
+    try {
+      const ids: string[] = [];
+      let paginationToken: string | undefined;
+      do {
+        const page = await index.listPaginated({ prefix, paginationToken });
+        ids.push(...(page.vectors ?? []).map((vector) => vector.id));
+        paginationToken = page.pagination?.next;
+      } while (paginationToken);
+      return ids;
+    } catch (error) {
+      this.logger.error('Error listing vectors from Pinecone:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Counts lag behind writes for a few seconds
+   */
+  async stats(): Promise<VectorStoreStats> {
+    if (!this.index) {
+      throw this.notInitialized();
+    }
+    const description = await this.index.describeIndexStats();
+    const namespaces: VectorStoreStats['namespaces'] = {};
+    for (const [namespace, summary] of Object.entries(
+      description.namespaces ?? {},
+    )) {
+      namespaces[namespace] = { vectorCount: summary.recordCount };
+    }
+    return {
+      dimension: description.dimension ?? this.embeddingProvider.dimension,
+      totalVectorCount: description.totalRecordCount ?? 0,
+      namespaces,
+    };
+  }
+
+  private namespace(namespace: string) {
+    if (!this.index) {
+      throw this.notInitialized();
+    }
+    return this.index.namespace(namespace);
+  }
+
+  private notInitialized(): VectorStoreUnavailableError {
+    return new VectorStoreUnavailableError(
+      this.name,
+      `index '${pineconeConfig.indexName}' is not initialized`,
+    );
+  }
+}
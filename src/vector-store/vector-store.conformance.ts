@@ -0,0 +1,207 @@
+import { VectorRecord, VectorStore } from './vector-store.interface';
+
+export interface ConformanceOptions {
+  // Wait for writes to become visible, for eventually consistent stores
+  settle?: () => Promise<void>;
+}
+
+/**
+ * The behaviour every VectorStore must share, run by each implementation's
+ * spec. Stores under test take 4-dimensional vectors and score by dot product.
+ */
+export function describeVectorStoreConformance(
+  name: string,
+  createStore: () => Promise<VectorStore> | VectorStore,
+  { settle = async () => undefined }: ConformanceOptions = {},
+) {
+  describe(`${name} conformance`, () => {
+    let store: VectorStore;
+    let namespace: string;
+    let run = 0;
+
+    const vector = (
+      id: string,
+      values: number[],
+      metadata: Record<string, any> = {},
+    ): VectorRecord => ({ id, values, metadata: { text: id, ...metadata } });
+
+    const listed = async (prefix = '') =>
+      (await store.listIds(namespace, prefix)).sort();
+
+    const write = async (vectors: VectorRecord[]) => {
+      await store.upsert(namespace, vectors);
+      await settle();
+    };
+
+    beforeEach(async () => {
+      store = await createStore();
+      // Fresh namespace per test, so stores that outlive a test do not leak state
+      namespace = `conformance-${process.pid}-${Date.now()}-${run++}`;
+    });
+
+    afterEach(async () => {
+      const ids = await store.listIds(namespace, '');
+      if (ids.length > 0) {
+        await store.delete(namespace, ids);
+      }
+    });
+
+    it('should fetch upserted vectors and leave out unknown IDs', async () => {
+      await write([
+        {
+          ...vector('doc#chunk-0', [1, 0, 0, 0], { chunk_index: 0 }),
+          sparseValues: { indices: [7, 42], values: [0.5, 1.5] },
+        },
+      ]);
+
+      const fetched = await store.fetch(namespace, ['doc#chunk-0', 'missing']);
+
+      expect(fetched).toHaveLength(1);
+      expect(fetched[0]).toMatchObject({
+        id: 'doc#chunk-0',
+        values: [1, 0, 0, 0],
+        sparseValues: { indices: [7, 42], values: [0.5, 1.5] },
+        metadata: { text: 'doc#chunk-0', chunk_index: 0 },
+      });
+    });
+
+    it('should replace vectors upserted under an existing ID', async () => {
+      await write([vector('doc#chunk-0', [1, 0, 0, 0], { version: 1 })]);
+      await write([vector('doc#chunk-0', [0, 1, 0, 0], { version: 2 })]);
+
+      const [fetched] = await store.fetch(namespace, ['doc#chunk-0']);
+
+      expect(fetched.values).toEqual([0, 1, 0, 0]);
+      expect(fetched.metadata.version).toBe(2);
+      expect(await listed()).toEqual(['doc#chunk-0']);
+    });
+
+    it('should return the topK nearest vectors best first', async () => {
+      await write([
+        vector('far', [0, 0, 0, 1]),
+        vector('near', [1, 0, 0, 0]),
+        vector('closer', [0.6, 0.8, 0, 0]),
+        vector('closest', [0.8, 0.6, 0, 0]),
+      ]);
+
+      const matches = await store.query(namespace, {
+        vector: [1, 0, 0, 0],
+        topK: 3,
+      });
+
+      expect(matches.map((match) => match.id)).toEqual([
+        'near',
+        'closest',
+        'closer',
+      ]);
+      expect(matches[0].score).toBeCloseTo(1);
+      expect(matches[1].score).toBeCloseTo(0.8);
+      expect(matches[0].metadata).toEqual({ text: 'near' });
+      expect(matches[0].values).toBeUndefined();
+
+      const [withValues] = await store.query(namespace, {
+        vector: [1, 0, 0, 0],
+        topK: 1,
+        includeValues: true,
+      });
+      expect(withValues.values).toEqual([1, 0, 0, 0]);
+    });
+
+    it('should add the sparse dot product to the dense score', async () => {
+      await write([
+        vector('dense', [1, 0, 0, 0]),
+        {
+          ...vector('keyword', [0.5, 0, 0, 0]),
+          sparseValues: { indices: [7], values: [2] },
+        },
+      ]);
+
+      const matches = await store.query(namespace, {
+        vector: [0.5, 0, 0, 0],
+        sparseVector: { indices: [7, 9], values: [0.5, 1] },
+        topK: 2,
+      });
+
+      expect(matches.map((match) => match.id)).toEqual(['keyword', 'dense']);
+      expect(matches[0].score).toBeCloseTo(0.25 + 1);
+      expect(matches[1].score).toBeCloseTo(0.5);
+    });
+
+    it('should only match vectors whose metadata passes the filter', async () => {
+      await write([
+        vector('a', [1, 0, 0, 0], { kind: 'faq', pages: 2, tags: ['x', 'y'] }),
+        vector('b', [1, 0, 0, 0], { kind: 'pdf', pages: 10, tags: ['y'] }),
+        vector('c', [1, 0, 0, 0], { kind: 'pdf', pages: 30 }),
+      ]);
+      const matching = async (filter: Record<string, any>) =>
+        (
+          await store.query(namespace, {
+            vector: [1, 0, 0, 0],
+            topK: 10,
+            filter,
+          })
+        )
+          .map((match) => match.id)
+          .sort();
+
+      expect(await matching({ kind: 'pdf' })).toEqual(['b', 'c']);
+      expect(await matching({ kind: { $ne: 'pdf' } })).toEqual(['a']);
+      expect(await matching({ kind: { $in: ['faq', 'csv'] } })).toEqual(['a']);
+      expect(await matching({ pages: { $gte: 10, $lt: 30 } })).toEqual(['b']);
+      expect(await matching({ tags: 'x' })).toEqual(['a']);
+      expect(await matching({ tags: { $nin: ['x'] } })).toEqual(['b', 'c']);
+      expect(
+        await matching({
+          $or: [
+            { kind: 'faq' },
+            { $and: [{ kind: 'pdf' }, { pages: { $gt: 20 } }] },
+          ],
+        }),
+      ).toEqual(['a', 'c']);
+    });
+
+    it('should delete vectors by ID and by filter', async () => {
+      await write([
+        vector('a#chunk-0', [1, 0, 0, 0], { document_id: 'a' }),
+        vector('a#chunk-1', [0, 1, 0, 0], { document_id: 'a' }),
+        vector('b#chunk-0', [0, 0, 1, 0], { document_id: 'b' }),
+      ]);
+
+      await store.delete(namespace, ['a#chunk-0', 'missing']);
+      await settle();
+      expect(await listed()).toEqual(['a#chunk-1', 'b#chunk-0']);
+
+      await store.deleteByFilter(namespace, { document_id: { $eq: 'a' } });
+      await settle();
+      expect(await listed()).toEqual(['b#chunk-0']);
+    });
+
+    it('should list IDs by prefix and keep namespaces apart', async () => {
+      const other = `${namespace}-other`;
+      await write([
+        vector('a#chunk-0', [1, 0, 0, 0]),
+        vector('a#chunk-1', [0, 1, 0, 0]),
+        vector('ab#chunk-0', [0, 0, 1, 0]),
+      ]);
+      await store.upsert(other, [vector('a#chunk-0', [0, 0, 0, 1])]);
+      await settle();
+
+      try {
+        expect(await listed('a#')).toEqual(['a#chunk-0', 'a#chunk-1']);
+        const [fromOther] = await store.query(other, {
+          vector: [1, 0, 0, 0],
+          topK: 10,
+        });
+        expect(fromOther.score).toBeCloseTo(0);
+
+        const stats = await store.stats();
+        expect(stats.dimension).toBe(4);
+        expect(stats.namespaces[namespace]).toEqual({ vectorCount: 3 });
+        expect(stats.namespaces[other]).toEqual({ vectorCount: 1 });
+        expect(stats.totalVectorCount).toBeGreaterThanOrEqual(4);
+      } finally {
+        await store.delete(other, ['a#chunk-0']);
+      }
+    });
+  });
+}
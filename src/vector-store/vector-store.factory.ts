@@ -0,0 +1,34 @@
+import { VectorMetric, VectorStore } from './vector-store.interface';
+import { InMemoryVectorStore } from './in-memory-vector-store';
+import { FileVectorStore } from './file-vector-store';
+import { PineconeVectorStore } from './pinecone-vector-store';
+import { EmbeddingProvider } from '../document-processing/embedding-providers/embedding-provider.interface';
+
+export interface VectorStoreConfig {
+  backend: string;
+  directory: string;
+}
+
+export function createVectorStore(
+  config: VectorStoreConfig,
+  embeddingProvider: EmbeddingProvider,
+  metric: VectorMetric,
+): VectorStore {
+  switch (config.backend) {
+    case 'pinecone':
+      return new PineconeVectorStore(embeddingProvider);
+
+    case 'memory':
+      return new InMemoryVectorStore(embeddingProvider.dimension, metric);
+
+    case 'file':
+      return new FileVectorStore(
+        config.directory,
+        embeddingProvider.dimension,
+        metric,
+      );
+
+    default:
+      throw new Error(`Unknown vector store backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,55 @@
+import { SparseValues } from '../document-processing/sparse/bm25';
+
+export const VECTOR_STORE = 'VECTOR_STORE';
+
+export type VectorMetric = 'cosine' | 'dotproduct';
+
+// Pinecone's filter language: `{ field: value }`, `{ field: { $in: [...] } }`, `$and`, `$or`, ...
+export type MetadataFilter = Record<string, any>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  sparseValues?: SparseValues; // Hybrid search only; needs the dotproduct metric
+  metadata?: Record<string, any>;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  sparseVector?: SparseValues; // Its dot product is added to the dense score
+  topK: number;
+  filter?: MetadataFilter;
+  includeValues?: boolean; // Return each match's dense vector too
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  values?: number[]; // Only with includeValues
+  metadata?: Record<string, any>;
+}
+
+export interface VectorStoreStats {
+  dimension: number;
+  totalVectorCount: number;
+  namespaces: Record<string, { vectorCount: number }>;
+}
+
+/**
+ * Stores chunk vectors and finds the nearest ones to a query. Every operation
+ * is scoped to a namespace, one per tenant.
+ */
+export interface VectorStore {
+  readonly name: string;
+  /** Insert vectors, replacing any stored under the same IDs */
+  upsert(namespace: string, vectors: VectorRecord[]): Promise<void>;
+  /** @returns Up to topK matches with their metadata, best first */
+  query(namespace: string, query: VectorQuery): Promise<VectorMatch[]>;
+  /** @returns The stored vectors, values included. IDs not in the store are left out. */
+  fetch(namespace: string, ids: string[]): Promise<VectorRecord[]>;
+  delete(namespace: string, ids: string[]): Promise<void>;
+  deleteByFilter(namespace: string, filter: MetadataFilter): Promise<void>;
+  /** @returns The IDs of all vectors whose ID starts with the prefix */
+  listIds(namespace: string, prefix: string): Promise<string[]>;
+  stats(): Promise<VectorStoreStats>;
+}
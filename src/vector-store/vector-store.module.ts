@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { VECTOR_STORE } from './vector-store.interface';
+import { createVectorStore } from './vector-store.factory';
+import { vectorStoreConfig } from '../config/vector-store.config';
+import { hybridSearchConfig } from '../config/hybrid-search.config';
+import { DocumentProcessingModule } from '../document-processing/document-processing.module';
+import {
+  EMBEDDING_PROVIDER,
+  EmbeddingProvider,
+} from '../document-processing/embedding-providers/embedding-provider.interface';
+
+@Module({
+  imports: [
+    DocumentProcessingModule, // For the embedding provider's dimension
+  ],
+  providers: [
+    {
+      provide: VECTOR_STORE,
+      useFactory: (embeddingProvider: EmbeddingProvider) =>
+        createVectorStore(
+          vectorStoreConfig,
+          embeddingProvider,
+          // Only dotproduct scores add up the dense and sparse parts of hybrid queries
+          hybridSearchConfig.enabled ? 'dotproduct' : 'cosine',
+        ),
+      inject: [EMBEDDING_PROVIDER],
+    },
+  ],
+  exports: [VECTOR_STORE],
+})
+export class VectorStoreModule {}